@@ -4,15 +4,21 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
 import { ThemeProvider } from "@/components/ui/theme-provider";
+import { AuthProvider } from "@/hooks/use-auth";
+import { RequireRole } from "@/components/auth/RequireRole";
 import Index from "./pages/Index";
 import Auth from "./pages/Auth";
 import Dashboard from "./pages/Dashboard";
 import NotFound from "./pages/NotFound";
 import POS from "./pages/POS";
 import Inventory from "./pages/Inventory";
+import Purchasing from "./pages/Purchasing";
+import Promotions from "./pages/Promotions";
+import Reports from "./pages/Reports";
 import Sales from "./pages/Sales";
 import Shifts from "./pages/Shifts";
 import Settings from "./pages/Settings";
+import Staff from "./pages/Staff";
 
 // Create a client
 const queryClient = new QueryClient({
@@ -29,21 +35,27 @@ function App() {
     <ThemeProvider defaultTheme="dark">
       <BrowserRouter>
         <QueryClientProvider client={queryClient}>
-          <TooltipProvider>
-            <Toaster />
-            <Sonner />
-            <Routes>
-              <Route path="/" element={<Navigate to="/auth" replace />} />
-              <Route path="/auth" element={<Auth />} />
-              <Route path="/dashboard" element={<Dashboard />} />
-              <Route path="/pos" element={<POS />} />
-              <Route path="/inventory" element={<Inventory />} />
-              <Route path="/sales" element={<Sales />} />
-              <Route path="/shifts" element={<Shifts />} />
-              <Route path="/settings" element={<Settings />} />
-              <Route path="*" element={<NotFound />} />
-            </Routes>
-          </TooltipProvider>
+          <AuthProvider>
+            <TooltipProvider>
+              <Toaster />
+              <Sonner />
+              <Routes>
+                <Route path="/" element={<Navigate to="/auth" replace />} />
+                <Route path="/auth" element={<Auth />} />
+                <Route path="/dashboard" element={<RequireRole><Dashboard /></RequireRole>} />
+                <Route path="/pos" element={<RequireRole route="pos"><POS /></RequireRole>} />
+                <Route path="/inventory" element={<RequireRole route="inventory"><Inventory /></RequireRole>} />
+                <Route path="/purchasing" element={<RequireRole route="purchasing"><Purchasing /></RequireRole>} />
+                <Route path="/promotions" element={<RequireRole route="promotions"><Promotions /></RequireRole>} />
+                <Route path="/sales" element={<RequireRole route="sales"><Sales /></RequireRole>} />
+                <Route path="/shifts" element={<RequireRole route="shifts"><Shifts /></RequireRole>} />
+                <Route path="/reports" element={<RequireRole route="reports"><Reports /></RequireRole>} />
+                <Route path="/settings" element={<RequireRole route="settings"><Settings /></RequireRole>} />
+                <Route path="/staff" element={<RequireRole route="staff"><Staff /></RequireRole>} />
+                <Route path="*" element={<NotFound />} />
+              </Routes>
+            </TooltipProvider>
+          </AuthProvider>
         </QueryClientProvider>
       </BrowserRouter>
     </ThemeProvider>
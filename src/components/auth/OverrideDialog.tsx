@@ -0,0 +1,171 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { ShieldCheck } from "lucide-react";
+import { Json } from "@/integrations/supabase/types";
+import { isValidPin } from "@/lib/pin";
+import {
+  ManagerOverride,
+  OVERRIDE_ACTION_LABELS,
+  OverrideAction,
+  OverrideApprover,
+} from "@/lib/overrides";
+
+interface OverrideDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  action: OverrideAction;
+  /** What the approval covers; `target` is checked again when it is used. */
+  details: { target: string } & Record<string, Json>;
+  reason?: string;
+  description?: string;
+  /** Extra fields the action needs, e.g. the new price. */
+  children?: React.ReactNode;
+  /** False while those fields are incomplete. */
+  canSubmit?: boolean;
+  onApproved: (approval: ManagerOverride) => void;
+}
+
+export function OverrideDialog({
+  open,
+  onOpenChange,
+  action,
+  details,
+  reason,
+  description,
+  children,
+  canSubmit = true,
+  onApproved,
+}: OverrideDialogProps) {
+  const [approvers, setApprovers] = useState<OverrideApprover[]>([]);
+  const [approverId, setApproverId] = useState<string | null>(null);
+  const [pin, setPin] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setPin("");
+    setError(null);
+
+    const fetchApprovers = async () => {
+      const { data, error } = await supabase.rpc("override_approvers");
+      if (error) {
+        setError(error.message);
+        return;
+      }
+      setApprovers(data);
+      setApproverId(data.length === 1 ? data[0].user_id : null);
+    };
+
+    fetchApprovers();
+  }, [open]);
+
+  const approve = async () => {
+    if (!canSubmit || !approverId || !isValidPin(pin)) return;
+    setSubmitting(true);
+    setError(null);
+
+    const { data, error } = await supabase.rpc("approve_override", {
+      approver_id: approverId,
+      pin,
+      action,
+      details,
+      reason,
+    });
+    setSubmitting(false);
+    setPin("");
+
+    if (error) {
+      setError(error.message);
+      return;
+    }
+    // A wrong PIN returns nothing so the attempt still counts.
+    if (!data) {
+      setError("Wrong PIN");
+      return;
+    }
+    onApproved(data);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ShieldCheck className="h-5 w-5" />
+            {OVERRIDE_ACTION_LABELS[action]}
+          </DialogTitle>
+          <DialogDescription>
+            {description ?? "A store owner needs to approve this."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {children}
+
+          <div className="space-y-2">
+            <Label>Approved by</Label>
+            <div className="grid grid-cols-2 gap-2">
+              {approvers.map(approver => (
+                <Button
+                  key={approver.user_id}
+                  type="button"
+                  variant={approverId === approver.user_id ? "default" : "outline"}
+                  onClick={() => setApproverId(approver.user_id)}
+                >
+                  {approver.full_name}
+                </Button>
+              ))}
+            </div>
+            {approvers.length === 0 && (
+              <p className="text-sm text-muted-foreground">
+                No store owner has set a PIN yet. Owners can set one in Settings.
+              </p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="override-pin">Owner PIN</Label>
+            <Input
+              id="override-pin"
+              type="password"
+              inputMode="numeric"
+              autoComplete="off"
+              maxLength={6}
+              disabled={!approverId}
+              value={pin}
+              onChange={(e) => setPin(e.target.value.replace(/\D/g, ""))}
+              onKeyDown={(e) => e.key === "Enter" && approve()}
+            />
+          </div>
+
+          {error && <p className="text-sm text-red-500">{error}</p>}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            disabled={!canSubmit || !approverId || !isValidPin(pin) || submitting}
+            onClick={approve}
+          >
+            {submitting ? "Checking..." : "Approve"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,29 @@
+import { Navigate } from "react-router-dom";
+import { useAuth } from "@/hooks/use-auth";
+import { AppRoute, canAccess } from "@/lib/roles";
+import AccessDenied from "@/pages/AccessDenied";
+
+interface RequireRoleProps {
+  /** Leave out for pages every signed-in user may open. */
+  route?: AppRoute;
+  children: React.ReactNode;
+}
+
+/** Sends signed-out users to /auth and blocks roles outside `ROUTE_ROLES[route]`. */
+export function RequireRole({ route, children }: RequireRoleProps) {
+  const { session, roles, loading } = useAuth();
+
+  if (loading) {
+    return <div className="flex items-center justify-center min-h-screen">Loading...</div>;
+  }
+
+  if (!session) {
+    return <Navigate to="/auth" replace />;
+  }
+
+  if (route && !canAccess(roles, route)) {
+    return <AccessDenied />;
+  }
+
+  return <>{children}</>;
+}
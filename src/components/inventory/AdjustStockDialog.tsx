@@ -0,0 +1,189 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/components/ui/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { ADJUSTMENT_REASONS, AdjustmentReason } from "@/lib/stock";
+
+interface AdjustStockDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  product: { id: string; name: string; stock_quantity: number } | null;
+  onAdjusted: (stockQuantity: number) => void;
+}
+
+export function AdjustStockDialog({ open, onOpenChange, product, onAdjusted }: AdjustStockDialogProps) {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const userId = user?.id;
+  const [reason, setReason] = useState<AdjustmentReason>("damaged");
+  const [direction, setDirection] = useState<"add" | "remove">("remove");
+  const [units, setUnits] = useState("");
+  const [notes, setNotes] = useState("");
+  const [limit, setLimit] = useState<number | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setReason("damaged");
+    setDirection("remove");
+    setUnits("");
+    setNotes("");
+
+    if (!userId) return;
+    const fetchLimit = async () => {
+      const { data } = await supabase.rpc("adjustment_limit", { user_id: userId });
+      setLimit(data ?? 0);
+    };
+
+    fetchLimit();
+  }, [open, userId]);
+
+  const reasonDirection = ADJUSTMENT_REASONS.find(r => r.value === reason)!.direction;
+  const sign = (reasonDirection === "either" ? direction : reasonDirection) === "add" ? 1 : -1;
+  const quantity = Number(units);
+  const validUnits = units !== "" && Number.isInteger(quantity) && quantity > 0;
+  const overLimit = validUnits && limit !== null && quantity > limit;
+
+  const adjustStock = async () => {
+    if (!product || !validUnits || overLimit) return;
+    setSaving(true);
+
+    try {
+      const { data, error } = await supabase.rpc("adjust_stock", {
+        product_id: product.id,
+        quantity: sign * quantity,
+        reason,
+        notes: notes.trim() || undefined,
+      });
+
+      if (error) throw error;
+
+      onAdjusted(data.balance_after);
+      onOpenChange(false);
+      toast({
+        title: "Stock adjusted",
+        description: `${product.name} now has ${data.balance_after} in stock`,
+      });
+    } catch (error: any) {
+      toast({
+        title: "Error adjusting stock",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Adjust Stock</DialogTitle>
+          <DialogDescription>
+            {product && `${product.name}: ${product.stock_quantity} in stock.`} Adjustments are recorded in the
+            product's stock history.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Reason</Label>
+            <Select value={reason} onValueChange={(value) => setReason(value as AdjustmentReason)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {ADJUSTMENT_REASONS.map((r) => (
+                  <SelectItem key={r.value} value={r.value}>
+                    {r.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {reasonDirection === "either" && (
+            <div className="flex gap-2">
+              <Button
+                type="button"
+                variant={direction === "add" ? "default" : "outline"}
+                onClick={() => setDirection("add")}
+              >
+                Add stock
+              </Button>
+              <Button
+                type="button"
+                variant={direction === "remove" ? "default" : "outline"}
+                onClick={() => setDirection("remove")}
+              >
+                Remove stock
+              </Button>
+            </div>
+          )}
+          <div className="space-y-2">
+            <Label htmlFor="adjust-units">
+              Units to {sign > 0 ? "add" : "remove"} <span className="text-red-500">*</span>
+            </Label>
+            <Input
+              id="adjust-units"
+              type="number"
+              min="1"
+              step="1"
+              value={units}
+              onChange={(e) => setUnits(e.target.value)}
+              placeholder="0"
+            />
+            {product && validUnits && !overLimit && (
+              <p className="text-sm text-muted-foreground">
+                New stock: {product.stock_quantity + sign * quantity}
+              </p>
+            )}
+            {overLimit && (
+              <p className="text-sm text-red-500">
+                {limit === 0
+                  ? "Your role cannot adjust stock. Ask a store owner."
+                  : `You can adjust at most ${limit} units at a time. Ask a store owner for larger adjustments.`}
+              </p>
+            )}
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="adjust-notes">Notes</Label>
+            <Textarea
+              id="adjust-notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="Optional details, e.g. where the damage was found"
+              rows={2}
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={adjustStock} disabled={!validUnits || overLimit || saving}>
+            {saving ? "Saving..." : "Adjust Stock"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
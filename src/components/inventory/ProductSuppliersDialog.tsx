@@ -0,0 +1,312 @@
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { Star, Trash2 } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/components/ui/use-toast";
+import { ProductSupplier, Supplier, formatLeadTime } from "@/lib/purchasing";
+
+type ProductSupplierRow = ProductSupplier & {
+  supplier: Pick<Supplier, "name" | "lead_time_days" | "payment_terms">;
+};
+
+interface ProductSuppliersDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  product: { id: string; name: string } | null;
+}
+
+export function ProductSuppliersDialog({ open, onOpenChange, product }: ProductSuppliersDialogProps) {
+  const { toast } = useToast();
+  const [rows, setRows] = useState<ProductSupplierRow[]>([]);
+  const [suppliers, setSuppliers] = useState<Pick<Supplier, "id" | "name">[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [supplierId, setSupplierId] = useState("");
+  const [supplierSku, setSupplierSku] = useState("");
+  const [packSize, setPackSize] = useState("1");
+  const [saving, setSaving] = useState(false);
+  const productId = product?.id;
+
+  const fetchRows = async (id: string) => {
+    const { data, error } = await supabase
+      .from("product_suppliers")
+      .select("*, supplier:suppliers(name, lead_time_days, payment_terms)")
+      .eq("product_id", id)
+      .order("preferred", { ascending: false })
+      .order("created_at");
+
+    if (error) throw error;
+    setRows(data || []);
+  };
+
+  useEffect(() => {
+    if (!open || !productId) return;
+    setSupplierId("");
+    setSupplierSku("");
+    setPackSize("1");
+
+    const fetchData = async () => {
+      setLoading(true);
+      try {
+        await fetchRows(productId);
+        const { data, error } = await supabase
+          .from("suppliers")
+          .select("id, name")
+          .eq("active", true)
+          .order("name");
+
+        if (error) throw error;
+        setSuppliers(data || []);
+      } catch (error: any) {
+        toast({
+          title: "Error loading suppliers",
+          description: error.message,
+          variant: "destructive",
+        });
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchData();
+  }, [open, productId, toast]);
+
+  const availableSuppliers = suppliers.filter(s => !rows.some(row => row.supplier_id === s.id));
+  const validPackSize = Number.isInteger(Number(packSize)) && Number(packSize) > 0;
+
+  const runUpdate = async (action: () => PromiseLike<{ error: { message: string } | null }>) => {
+    if (!productId) return;
+    setSaving(true);
+    try {
+      const { error } = await action();
+      if (error) throw error;
+      await fetchRows(productId);
+    } catch (error: any) {
+      toast({
+        title: "Error saving supplier",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const addSupplier = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!productId || !supplierId || !validPackSize) return;
+
+    await runUpdate(() => supabase.from("product_suppliers").insert({
+      product_id: productId,
+      supplier_id: supplierId,
+      supplier_sku: supplierSku.trim() || null,
+      pack_size: Number(packSize),
+      preferred: rows.length === 0,
+    }));
+    setSupplierId("");
+    setSupplierSku("");
+    setPackSize("1");
+  };
+
+  const updateRow = (row: ProductSupplierRow, changes: Partial<Pick<ProductSupplier, "supplier_sku" | "pack_size">>) =>
+    runUpdate(() => supabase
+      .from("product_suppliers")
+      .update({ ...changes, updated_at: new Date().toISOString() })
+      .eq("id", row.id));
+
+  // Only one preferred supplier per product, so clear the current one first.
+  const makePreferred = (row: ProductSupplierRow) =>
+    runUpdate(async () => {
+      const { error } = await supabase
+        .from("product_suppliers")
+        .update({ preferred: false })
+        .eq("product_id", row.product_id)
+        .eq("preferred", true);
+
+      if (error) return { error };
+      return supabase.from("product_suppliers").update({ preferred: true }).eq("id", row.id);
+    });
+
+  const removeRow = (row: ProductSupplierRow) =>
+    runUpdate(() => supabase.from("product_suppliers").delete().eq("id", row.id));
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[900px]">
+        <DialogHeader>
+          <DialogTitle>Suppliers for {product?.name}</DialogTitle>
+          <DialogDescription>
+            Who supplies this product, under which code and pack size. Last cost is per unit and updates
+            whenever a delivery is received.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="border rounded-lg overflow-hidden">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Supplier</TableHead>
+                  <TableHead className="w-36">Supplier SKU</TableHead>
+                  <TableHead className="w-24">Pack size</TableHead>
+                  <TableHead className="text-right">Last cost</TableHead>
+                  <TableHead>Lead time</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {loading ? (
+                  <TableRow>
+                    <TableCell colSpan={6} className="h-24 text-center">
+                      Loading suppliers...
+                    </TableCell>
+                  </TableRow>
+                ) : rows.length > 0 ? (
+                  rows.map((row) => (
+                    <TableRow key={row.id}>
+                      <TableCell className="font-medium">
+                        {row.supplier.name}
+                        {row.preferred && (
+                          <span className="ml-2 text-xs text-primary">Preferred</span>
+                        )}
+                        {row.supplier.payment_terms && (
+                          <span className="block text-xs text-muted-foreground">{row.supplier.payment_terms}</span>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          defaultValue={row.supplier_sku ?? ""}
+                          disabled={saving}
+                          onBlur={(e) => {
+                            const value = e.target.value.trim() || null;
+                            if (value !== row.supplier_sku) updateRow(row, { supplier_sku: value });
+                          }}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          type="number"
+                          min="1"
+                          step="1"
+                          defaultValue={row.pack_size}
+                          disabled={saving}
+                          onBlur={(e) => {
+                            const value = Number(e.target.value);
+                            if (Number.isInteger(value) && value > 0 && value !== row.pack_size) {
+                              updateRow(row, { pack_size: value });
+                            } else {
+                              e.target.value = row.pack_size.toString();
+                            }
+                          }}
+                        />
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {row.last_cost !== null ? `Rp${Number(row.last_cost).toFixed(2)}` : "—"}
+                        {row.last_cost_at && (
+                          <span className="block text-xs text-muted-foreground">
+                            {format(new Date(row.last_cost_at), "dd MMM yyyy")}
+                          </span>
+                        )}
+                      </TableCell>
+                      <TableCell>{formatLeadTime(row.supplier.lead_time_days)}</TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex justify-end gap-2">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            title="Make preferred supplier"
+                            disabled={row.preferred || saving}
+                            onClick={() => makePreferred(row)}
+                          >
+                            <Star className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="destructive"
+                            size="sm"
+                            title="Remove supplier"
+                            disabled={saving}
+                            onClick={() => removeRow(row)}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                ) : (
+                  <TableRow>
+                    <TableCell colSpan={6} className="h-24 text-center">
+                      No suppliers linked to this product yet.
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </div>
+          <form onSubmit={addSupplier} className="grid grid-cols-[2fr_1fr_1fr_auto] gap-4 items-end">
+            <div className="space-y-2">
+              <Label>Add supplier</Label>
+              <Select value={supplierId} onValueChange={setSupplierId}>
+                <SelectTrigger>
+                  <SelectValue placeholder={availableSuppliers.length ? "Select a supplier" : "No other suppliers"} />
+                </SelectTrigger>
+                <SelectContent>
+                  {availableSuppliers.map((supplier) => (
+                    <SelectItem key={supplier.id} value={supplier.id}>
+                      {supplier.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="product-supplier-sku">Supplier SKU</Label>
+              <Input
+                id="product-supplier-sku"
+                value={supplierSku}
+                onChange={(e) => setSupplierSku(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="product-supplier-pack">Pack size</Label>
+              <Input
+                id="product-supplier-pack"
+                type="number"
+                min="1"
+                step="1"
+                value={packSize}
+                onChange={(e) => setPackSize(e.target.value)}
+              />
+            </div>
+            <Button type="submit" disabled={!supplierId || !validPackSize || saving}>
+              Add
+            </Button>
+          </form>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
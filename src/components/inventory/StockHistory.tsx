@@ -0,0 +1,93 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/components/ui/use-toast";
+import { format } from "date-fns";
+import { StockMovement, adjustmentReasonLabel, formatStockChange, stockMovementLabel } from "@/lib/stock";
+
+export function StockHistory({ productId }: { productId: string }) {
+  const { toast } = useToast();
+  const [movements, setMovements] = useState<StockMovement[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchHistory = async () => {
+      setLoading(true);
+      const { data, error } = await supabase.rpc("stock_history", { product_id: productId });
+      setLoading(false);
+
+      if (error) {
+        toast({
+          title: "Error fetching stock history",
+          description: error.message,
+          variant: "destructive",
+        });
+        return;
+      }
+
+      setMovements(data);
+    };
+
+    fetchHistory();
+  }, [productId, toast]);
+
+  if (loading) {
+    return <p className="text-sm text-muted-foreground py-4">Loading...</p>;
+  }
+
+  if (movements.length === 0) {
+    return <p className="text-sm text-muted-foreground py-4">No stock movements recorded.</p>;
+  }
+
+  return (
+    <div className="max-h-[400px] overflow-y-auto border rounded-lg">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Date</TableHead>
+            <TableHead>Type</TableHead>
+            <TableHead className="text-right">Change</TableHead>
+            <TableHead className="text-right">Balance</TableHead>
+            <TableHead>Notes</TableHead>
+            <TableHead>By</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {movements.map((movement) => (
+            <TableRow key={movement.id}>
+              <TableCell className="whitespace-nowrap">
+                {format(new Date(movement.created_at), "PPp")}
+              </TableCell>
+              <TableCell>
+                {stockMovementLabel(movement.movement_type)}
+                {movement.reason && (
+                  <span className="text-muted-foreground"> ({adjustmentReasonLabel(movement.reason)})</span>
+                )}
+              </TableCell>
+              <TableCell className={`text-right ${movement.quantity < 0 ? "text-red-500" : "text-green-600"}`}>
+                {formatStockChange(movement.quantity)}
+              </TableCell>
+              <TableCell className="text-right">{movement.balance_after}</TableCell>
+              <TableCell>
+                {movement.notes ?? "—"}
+                {movement.reference_id && (
+                  <span className="block text-xs text-muted-foreground">
+                    Ref #{movement.reference_id.slice(0, 8)}
+                  </span>
+                )}
+              </TableCell>
+              <TableCell>{movement.created_by_name ?? "—"}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
@@ -0,0 +1,142 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { Discount, DiscountType, discountAmount, discountPercent } from "@/lib/cart";
+
+interface DiscountDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  title: string;
+  /** Amount the discount is taken from. */
+  base: number;
+  discount: Discount | null | undefined;
+  /** Largest discount, in percent of `base`, the current cashier may give. */
+  maxPercent: number;
+  onApply: (discount: Discount | null) => void;
+  /** Asks a store owner to approve a discount over `maxPercent`. */
+  onRequestApproval?: (discount: Discount) => void;
+}
+
+export function DiscountDialog({
+  open,
+  onOpenChange,
+  title,
+  base,
+  discount,
+  maxPercent,
+  onApply,
+  onRequestApproval,
+}: DiscountDialogProps) {
+  const [type, setType] = useState<DiscountType>("percent");
+  const [value, setValue] = useState("");
+  const [reason, setReason] = useState("");
+
+  useEffect(() => {
+    if (open) {
+      setType(discount?.type ?? "percent");
+      setValue(discount ? discount.value.toString() : "");
+      setReason(discount?.reason ?? "");
+    }
+  }, [open, discount]);
+
+  const candidate: Discount = { type, value: Number(value) || 0, reason: reason.trim() };
+  const amount = discountAmount(base, candidate);
+  const percent = discountPercent(base, amount);
+  const exceedsLimit = percent > maxPercent;
+
+  let error: string | null = null;
+  if (amount <= 0) {
+    error = "Masukkan nilai diskon";
+  } else if (!candidate.reason) {
+    error = "Alasan diskon wajib diisi";
+  } else if (exceedsLimit) {
+    error = `Melebihi batas diskon Anda (${maxPercent}%). Memerlukan persetujuan pemilik toko.`;
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>
+            Dari Rp{base.toFixed(2)}. Batas diskon Anda {maxPercent}%.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <ToggleGroup
+            type="single"
+            value={type}
+            onValueChange={(v) => v && setType(v as DiscountType)}
+            className="justify-start"
+          >
+            <ToggleGroupItem value="percent">Persen (%)</ToggleGroupItem>
+            <ToggleGroupItem value="fixed">Nominal (Rp)</ToggleGroupItem>
+          </ToggleGroup>
+
+          <div className="space-y-2">
+            <Label htmlFor="discount-value">
+              {type === "percent" ? "Diskon (%)" : "Diskon (Rp)"}
+            </Label>
+            <Input
+              id="discount-value"
+              type="number"
+              min="0"
+              max={type === "percent" ? "100" : undefined}
+              step="0.01"
+              value={value}
+              onChange={(e) => setValue(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="discount-reason">
+              Alasan <span className="text-red-500">*</span>
+            </Label>
+            <Input
+              id="discount-reason"
+              placeholder="mis. kemasan rusak, pelanggan tetap"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+            />
+          </div>
+
+          <div className="flex justify-between text-sm">
+            <span>Potongan</span>
+            <span className={exceedsLimit ? "text-red-500 font-medium" : ""}>
+              Rp{amount.toFixed(2)} ({percent.toFixed(1)}%)
+            </span>
+          </div>
+
+          {error && value !== "" && <p className="text-sm text-red-500">{error}</p>}
+        </div>
+
+        <DialogFooter>
+          {discount && (
+            <Button variant="outline" onClick={() => onApply(null)}>
+              Hapus Diskon
+            </Button>
+          )}
+          {exceedsLimit && candidate.reason && onRequestApproval && (
+            <Button variant="secondary" onClick={() => onRequestApproval(candidate)}>
+              Minta Persetujuan
+            </Button>
+          )}
+          <Button disabled={!!error} onClick={() => onApply(candidate)}>
+            Terapkan
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
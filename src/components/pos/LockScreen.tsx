@@ -0,0 +1,129 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Lock, LogOut } from "lucide-react";
+import { PosCashier, PosUnlock, isValidPin } from "@/lib/pin";
+
+interface LockScreenProps {
+  open: boolean;
+  onUnlocked: (unlock: PosUnlock) => void;
+  /** Way out for a till nobody with a PIN can unlock. */
+  onSignOut: () => void;
+}
+
+export function LockScreen({ open, onUnlocked, onSignOut }: LockScreenProps) {
+  const [cashiers, setCashiers] = useState<PosCashier[]>([]);
+  const [cashierId, setCashierId] = useState<string | null>(null);
+  const [pin, setPin] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setCashierId(null);
+    setPin("");
+    setError(null);
+
+    const fetchCashiers = async () => {
+      const { data, error } = await supabase.rpc("pos_cashiers");
+      if (error) {
+        setError(error.message);
+        return;
+      }
+      setCashiers(data);
+    };
+
+    fetchCashiers();
+  }, [open]);
+
+  if (!open) return null;
+
+  const unlock = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!cashierId || !isValidPin(pin)) return;
+    setSubmitting(true);
+    setError(null);
+
+    const { data, error } = await supabase.rpc("unlock_pos", { cashier_id: cashierId, pin });
+    setSubmitting(false);
+    setPin("");
+
+    if (error) {
+      setError(error.message);
+      return;
+    }
+    // A wrong PIN returns nothing so the attempt still counts.
+    if (!data) {
+      setError("PIN salah");
+      return;
+    }
+    onUnlocked(data);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-background">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Lock className="h-5 w-5" />
+            Kasir Terkunci
+          </CardTitle>
+          <CardDescription>Pilih nama Anda dan masukkan PIN untuk melanjutkan.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={unlock} className="space-y-4">
+            <div className="grid grid-cols-2 gap-2">
+              {cashiers.map(cashier => (
+                <Button
+                  key={cashier.user_id}
+                  type="button"
+                  variant={cashierId === cashier.user_id ? "default" : "outline"}
+                  onClick={() => {
+                    setCashierId(cashier.user_id);
+                    setError(null);
+                  }}
+                >
+                  {cashier.full_name}
+                </Button>
+              ))}
+            </div>
+            {cashiers.length === 0 && (
+              <p className="text-sm text-muted-foreground">
+                Belum ada kasir dengan PIN. Atur PIN di halaman Settings.
+              </p>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="unlock-pin">PIN</Label>
+              <Input
+                id="unlock-pin"
+                type="password"
+                inputMode="numeric"
+                autoComplete="off"
+                maxLength={6}
+                disabled={!cashierId}
+                value={pin}
+                onChange={(e) => setPin(e.target.value.replace(/\D/g, ""))}
+              />
+            </div>
+
+            {error && <p className="text-sm text-red-500">{error}</p>}
+
+            <div className="flex justify-between">
+              <Button type="button" variant="ghost" onClick={onSignOut}>
+                <LogOut className="h-4 w-4 mr-2" />
+                Keluar
+              </Button>
+              <Button type="submit" disabled={!cashierId || !isValidPin(pin) || submitting}>
+                {submitting ? "Memeriksa..." : "Buka"}
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,68 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+
+interface ParkCartDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  total: number;
+  submitting: boolean;
+  onPark: (label: string) => void;
+}
+
+export function ParkCartDialog({ open, onOpenChange, total, submitting, onPark }: ParkCartDialogProps) {
+  const [label, setLabel] = useState("");
+
+  useEffect(() => {
+    if (open) {
+      setLabel("");
+    }
+  }, [open]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>Tahan Keranjang</DialogTitle>
+          <DialogDescription>
+            Keranjang Rp{total.toFixed(2)} disimpan dan bisa dipanggil dari kasir mana pun
+            sampai shift ditutup.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor="park-label">
+            Keterangan <span className="text-red-500">*</span>
+          </Label>
+          <Input
+            id="park-label"
+            placeholder="mis. Ibu baju merah, ambil dompet"
+            value={label}
+            onChange={(e) => setLabel(e.target.value)}
+          />
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Batal
+          </Button>
+          <Button
+            disabled={!label.trim() || submitting}
+            onClick={() => onPark(label.trim())}
+          >
+            {submitting ? "Menyimpan..." : "Tahan"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,90 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/components/ui/use-toast";
+import { format } from "date-fns";
+import { ParkedCart, parseParkedCart } from "@/lib/parked-carts";
+
+interface ParkedCartsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Recalling replaces the cart, so it is only allowed when the cart is empty. */
+  cartEmpty: boolean;
+  onRecall: (cart: ParkedCart) => void;
+}
+
+export function ParkedCartsDialog({ open, onOpenChange, cartEmpty, onRecall }: ParkedCartsDialogProps) {
+  const { toast } = useToast();
+  const [parkedCarts, setParkedCarts] = useState<ParkedCart[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+
+    const fetchParkedCarts = async () => {
+      setLoading(true);
+      const { data, error } = await supabase
+        .from("parked_carts")
+        .select("*")
+        .order("created_at");
+
+      setLoading(false);
+      try {
+        if (error) throw error;
+        setParkedCarts(data.map(parseParkedCart));
+      } catch (error: any) {
+        toast({
+          title: "Error mengambil keranjang tertahan",
+          description: error.message,
+          variant: "destructive",
+        });
+      }
+    };
+
+    fetchParkedCarts();
+  }, [open, toast]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>Keranjang Tertahan</DialogTitle>
+          <DialogDescription>
+            {cartEmpty
+              ? "Pilih keranjang untuk dilanjutkan."
+              : "Selesaikan atau tahan keranjang saat ini sebelum memanggil yang lain."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2 max-h-[400px] overflow-y-auto">
+          {parkedCarts.map((parked) => (
+            <div key={parked.id} className="flex items-center justify-between gap-2 p-2 border rounded-lg">
+              <div className="flex-1">
+                <p className="font-medium">{parked.label}</p>
+                <p className="text-sm text-muted-foreground">
+                  {format(new Date(parked.created_at), "p")} · {parked.cashier_name ?? "-"} ·{" "}
+                  {parked.items.reduce((sum, item) => sum + item.quantity, 0)} item
+                </p>
+              </div>
+              <span className="font-medium">Rp{parked.total_amount.toFixed(2)}</span>
+              <Button size="sm" disabled={!cartEmpty} onClick={() => onRecall(parked)}>
+                Panggil
+              </Button>
+            </div>
+          ))}
+
+          {!loading && parkedCarts.length === 0 && (
+            <p className="text-center text-muted-foreground py-4">Tidak ada keranjang tertahan</p>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
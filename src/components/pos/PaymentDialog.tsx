@@ -0,0 +1,167 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Plus, X } from "lucide-react";
+import {
+  PAYMENT_METHODS,
+  PaymentMethod,
+  SalePayment,
+  summarizeTenders,
+} from "@/lib/payments";
+
+interface TenderRow {
+  method: PaymentMethod;
+  received: string;
+}
+
+interface PaymentDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  total: number;
+  submitting: boolean;
+  onConfirm: (payments: SalePayment[], change: number) => void;
+}
+
+export function PaymentDialog({ open, onOpenChange, total, submitting, onConfirm }: PaymentDialogProps) {
+  const [tenders, setTenders] = useState<TenderRow[]>([]);
+
+  useEffect(() => {
+    if (open) {
+      setTenders([{ method: "cash", received: total.toString() }]);
+    }
+  }, [open, total]);
+
+  const summary = summarizeTenders(
+    total,
+    tenders.map(t => ({ method: t.method, received: Number(t.received) || 0 }))
+  );
+
+  const updateTender = (index: number, changes: Partial<TenderRow>) => {
+    setTenders(current => current.map((t, i) => (i === index ? { ...t, ...changes } : t)));
+  };
+
+  const addTender = () => {
+    setTenders(current => [
+      ...current,
+      { method: current.some(t => t.method === "cash") ? "qris" : "cash", received: summary.remaining.toString() },
+    ]);
+  };
+
+  const removeTender = (index: number) => {
+    setTenders(current => current.filter((_, i) => i !== index));
+  };
+
+  const canConfirm = !summary.error && summary.remaining === 0 && summary.payments.length > 0;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>Pembayaran</DialogTitle>
+          <DialogDescription>
+            Total yang harus dibayar Rp{total.toFixed(2)}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {tenders.map((tender, index) => (
+            <div key={index} className="flex items-end gap-2">
+              <div className="space-y-2 w-36">
+                <Label>Metode</Label>
+                <Select
+                  value={tender.method}
+                  onValueChange={(value) => updateTender(index, { method: value as PaymentMethod })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {PAYMENT_METHODS.map(method => (
+                      <SelectItem key={method.value} value={method.value}>
+                        {method.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2 flex-1">
+                <Label htmlFor={`tender-${index}`}>
+                  {tender.method === "cash" ? "Uang diterima (Rp)" : "Jumlah (Rp)"}
+                </Label>
+                <Input
+                  id={`tender-${index}`}
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={tender.received}
+                  onChange={(e) => updateTender(index, { received: e.target.value })}
+                />
+              </div>
+              <Button
+                variant="outline"
+                size="icon"
+                disabled={tenders.length === 1}
+                onClick={() => removeTender(index)}
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+
+          <Button variant="outline" className="w-full" onClick={addTender}>
+            <Plus className="h-4 w-4 mr-2" />
+            Tambah Pembayaran
+          </Button>
+
+          <div className="pt-4 border-t space-y-1">
+            <div className="flex justify-between">
+              <span>Dibayar</span>
+              <span>Rp{summary.paid.toFixed(2)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span>Sisa</span>
+              <span className={summary.remaining > 0 ? "text-red-500 font-medium" : ""}>
+                Rp{summary.remaining.toFixed(2)}
+              </span>
+            </div>
+            <div className="flex justify-between text-lg font-bold">
+              <span>Kembalian</span>
+              <span>Rp{summary.change.toFixed(2)}</span>
+            </div>
+            {summary.error && (
+              <p className="text-sm text-red-500">{summary.error}</p>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Batal
+          </Button>
+          <Button
+            disabled={!canConfirm || submitting}
+            onClick={() => onConfirm(summary.payments, summary.change)}
+          >
+            {submitting ? "Memproses..." : "Konfirmasi Pembayaran"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
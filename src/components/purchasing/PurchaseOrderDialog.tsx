@@ -0,0 +1,243 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/components/ui/use-toast";
+import { Plus, X } from "lucide-react";
+import { ProductOption, Supplier } from "@/lib/purchasing";
+
+interface LineForm {
+  product_id: string;
+  quantity: string;
+  unit_cost: string;
+}
+
+const emptyLine: LineForm = { product_id: "", quantity: "", unit_cost: "" };
+
+interface PurchaseOrderDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  suppliers: Supplier[];
+  products: ProductOption[];
+  onCreated: () => void;
+}
+
+export function PurchaseOrderDialog({
+  open,
+  onOpenChange,
+  suppliers,
+  products,
+  onCreated,
+}: PurchaseOrderDialogProps) {
+  const { toast } = useToast();
+  const [supplierId, setSupplierId] = useState("");
+  const [expectedDate, setExpectedDate] = useState("");
+  const [notes, setNotes] = useState("");
+  const [lines, setLines] = useState<LineForm[]>([emptyLine]);
+  const [saving, setSaving] = useState(false);
+  const [lastCosts, setLastCosts] = useState<Record<string, number>>({});
+
+  useEffect(() => {
+    if (!open) return;
+    setSupplierId("");
+    setExpectedDate("");
+    setNotes("");
+    setLines([emptyLine]);
+  }, [open]);
+
+  // The supplier's last cost for each product, used to prefill new lines.
+  useEffect(() => {
+    setLastCosts({});
+    if (!supplierId) return;
+
+    const fetchLastCosts = async () => {
+      const { data } = await supabase
+        .from("product_suppliers")
+        .select("product_id, last_cost")
+        .eq("supplier_id", supplierId)
+        .not("last_cost", "is", null);
+
+      setLastCosts(Object.fromEntries((data || []).map(row => [row.product_id, Number(row.last_cost)])));
+    };
+
+    fetchLastCosts();
+  }, [supplierId]);
+
+  const updateLine = (index: number, changes: Partial<LineForm>) => {
+    setLines(current => current.map((line, i) => (i === index ? { ...line, ...changes } : line)));
+  };
+
+  const validLines = lines.every(line =>
+    line.product_id &&
+    Number.isInteger(Number(line.quantity)) && Number(line.quantity) > 0 &&
+    line.unit_cost !== "" && Number(line.unit_cost) >= 0
+  );
+  const total = lines.reduce((sum, line) => sum + Number(line.quantity || 0) * Number(line.unit_cost || 0), 0);
+
+  const createOrder = async () => {
+    if (!supplierId || !validLines) return;
+    setSaving(true);
+
+    try {
+      const { error } = await supabase.rpc("create_purchase_order", {
+        supplier_id: supplierId,
+        lines: lines.map(line => ({
+          product_id: line.product_id,
+          quantity: Number(line.quantity),
+          unit_cost: Number(line.unit_cost),
+        })),
+        expected_date: expectedDate || undefined,
+        notes: notes.trim() || undefined,
+      });
+
+      if (error) throw error;
+
+      onCreated();
+      onOpenChange(false);
+      toast({
+        title: "Purchase order created",
+        description: `Order for ${suppliers.find(s => s.id === supplierId)?.name} saved`,
+      });
+    } catch (error: any) {
+      toast({
+        title: "Error creating purchase order",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[700px]">
+        <DialogHeader>
+          <DialogTitle>New Purchase Order</DialogTitle>
+          <DialogDescription>Order stock from a supplier.</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>
+                Supplier <span className="text-red-500">*</span>
+              </Label>
+              <Select value={supplierId} onValueChange={setSupplierId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose a supplier" />
+                </SelectTrigger>
+                <SelectContent>
+                  {suppliers.filter(s => s.active).map((supplier) => (
+                    <SelectItem key={supplier.id} value={supplier.id}>
+                      {supplier.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="po-expected">Expected delivery</Label>
+              <Input
+                id="po-expected"
+                type="date"
+                value={expectedDate}
+                onChange={(e) => setExpectedDate(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <div className="grid grid-cols-[1fr_90px_130px_36px] gap-2 text-sm font-medium">
+              <span>Product</span>
+              <span>Quantity</span>
+              <span>Unit cost (Rp)</span>
+              <span />
+            </div>
+            {lines.map((line, index) => (
+              <div key={index} className="grid grid-cols-[1fr_90px_130px_36px] gap-2">
+                <Select
+                  value={line.product_id}
+                  onValueChange={(value) => updateLine(index, {
+                    product_id: value,
+                    unit_cost: line.unit_cost || (lastCosts[value]?.toString() ?? ""),
+                  })}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Choose a product" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {products.map((product) => (
+                      <SelectItem key={product.id} value={product.id}>
+                        {product.name} ({product.sku})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  type="number"
+                  min="1"
+                  step="1"
+                  value={line.quantity}
+                  onChange={(e) => updateLine(index, { quantity: e.target.value })}
+                />
+                <Input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={line.unit_cost}
+                  onChange={(e) => updateLine(index, { unit_cost: e.target.value })}
+                />
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  disabled={lines.length === 1}
+                  onClick={() => setLines(current => current.filter((_, i) => i !== index))}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <Button variant="outline" size="sm" onClick={() => setLines(current => [...current, emptyLine])}>
+              <Plus className="h-4 w-4 mr-2" /> Add Line
+            </Button>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="po-notes">Notes</Label>
+            <Textarea id="po-notes" value={notes} onChange={(e) => setNotes(e.target.value)} rows={2} />
+          </div>
+
+          <div className="flex justify-between font-medium">
+            <span>Total</span>
+            <span>Rp{total.toFixed(2)}</span>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={createOrder} disabled={!supplierId || !validLines || saving}>
+            {saving ? "Saving..." : "Create Order"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,217 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/components/ui/use-toast";
+import { PurchaseOrder, formatPoNumber, outstandingQuantity } from "@/lib/purchasing";
+
+interface ReceivedLine {
+  received: string;
+  rejected: string;
+  note: string;
+}
+
+interface ReceiveGoodsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  order: PurchaseOrder | null;
+  onReceived: () => void;
+}
+
+export function ReceiveGoodsDialog({ open, onOpenChange, order, onReceived }: ReceiveGoodsDialogProps) {
+  const { toast } = useToast();
+  const [received, setReceived] = useState<Record<string, ReceivedLine>>({});
+  const [supplierReference, setSupplierReference] = useState("");
+  const [notes, setNotes] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setReceived({});
+    setSupplierReference("");
+    setNotes("");
+  }, [open]);
+
+  if (!order) return null;
+
+  const lineInput = (lineId: string) => received[lineId] ?? { received: "", rejected: "", note: "" };
+
+  const updateLine = (lineId: string, changes: Partial<ReceivedLine>) => {
+    setReceived(current => ({ ...current, [lineId]: { ...lineInput(lineId), ...changes } }));
+  };
+
+  const fillOutstanding = () => {
+    setReceived(Object.fromEntries(order.lines.map(line => [
+      line.id,
+      { ...lineInput(line.id), received: outstandingQuantity(line).toString() },
+    ])));
+  };
+
+  // Mirrors the check in `public.receive_purchase_order`.
+  const needsNote = (lineId: string) => {
+    const line = order.lines.find(l => l.id === lineId)!;
+    const input = lineInput(lineId);
+    return Number(input.rejected || 0) > 0 || Number(input.received || 0) > outstandingQuantity(line);
+  };
+
+  const entered = order.lines.filter(line => {
+    const input = lineInput(line.id);
+    return Number(input.received || 0) > 0 || Number(input.rejected || 0) > 0;
+  });
+  const missingNote = entered.some(line => needsNote(line.id) && !lineInput(line.id).note.trim());
+
+  const receiveGoods = async () => {
+    if (entered.length === 0 || missingNote) return;
+    setSaving(true);
+
+    try {
+      const { error } = await supabase.rpc("receive_purchase_order", {
+        purchase_order_id: order.id,
+        lines: entered.map(line => {
+          const input = lineInput(line.id);
+          return {
+            line_id: line.id,
+            received: Number(input.received || 0),
+            rejected: Number(input.rejected || 0),
+            note: input.note.trim() || null,
+          };
+        }),
+        supplier_reference: supplierReference.trim() || undefined,
+        notes: notes.trim() || undefined,
+      });
+
+      if (error) throw error;
+
+      onReceived();
+      onOpenChange(false);
+      toast({
+        title: "Goods received",
+        description: `Stock updated for ${formatPoNumber(order.po_number)}`,
+      });
+    } catch (error: any) {
+      toast({
+        title: "Error receiving goods",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[900px]">
+        <DialogHeader>
+          <DialogTitle>Receive {formatPoNumber(order.po_number)}</DialogTitle>
+          <DialogDescription>
+            Enter what arrived from {order.supplier.name}. Good units go straight into stock; rejected units
+            and anything over the order need a note.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="flex justify-end">
+            <Button variant="outline" size="sm" onClick={fillOutstanding}>
+              Receive All Outstanding
+            </Button>
+          </div>
+          <div className="border rounded-lg overflow-hidden">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Product</TableHead>
+                  <TableHead className="text-right">Ordered</TableHead>
+                  <TableHead className="text-right">Outstanding</TableHead>
+                  <TableHead className="w-24">Received</TableHead>
+                  <TableHead className="w-24">Rejected</TableHead>
+                  <TableHead>Discrepancy note</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {order.lines.map((line) => {
+                  const input = lineInput(line.id);
+                  return (
+                    <TableRow key={line.id}>
+                      <TableCell>
+                        {line.product.name}
+                        <span className="block text-xs text-muted-foreground">{line.product.sku}</span>
+                      </TableCell>
+                      <TableCell className="text-right">{line.quantity_ordered}</TableCell>
+                      <TableCell className="text-right">{outstandingQuantity(line)}</TableCell>
+                      <TableCell>
+                        <Input
+                          type="number"
+                          min="0"
+                          step="1"
+                          value={input.received}
+                          onChange={(e) => updateLine(line.id, { received: e.target.value })}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          type="number"
+                          min="0"
+                          step="1"
+                          value={input.rejected}
+                          onChange={(e) => updateLine(line.id, { rejected: e.target.value })}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          value={input.note}
+                          placeholder={needsNote(line.id) ? "Required" : ""}
+                          className={needsNote(line.id) && !input.note.trim() ? "border-red-500" : ""}
+                          onChange={(e) => updateLine(line.id, { note: e.target.value })}
+                        />
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="receipt-reference">Delivery note / invoice no.</Label>
+              <Input
+                id="receipt-reference"
+                value={supplierReference}
+                onChange={(e) => setSupplierReference(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="receipt-notes">Notes</Label>
+              <Textarea id="receipt-notes" value={notes} onChange={(e) => setNotes(e.target.value)} rows={1} />
+            </div>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={receiveGoods} disabled={entered.length === 0 || missingNote || saving}>
+            {saving ? "Saving..." : "Receive Goods"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
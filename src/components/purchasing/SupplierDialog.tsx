@@ -0,0 +1,179 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/components/ui/use-toast";
+import { Supplier } from "@/lib/purchasing";
+
+interface SupplierDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** The supplier to edit, or null to add one. */
+  supplier: Supplier | null;
+  onSaved: (supplier: Supplier) => void;
+}
+
+export function SupplierDialog({ open, onOpenChange, supplier, onSaved }: SupplierDialogProps) {
+  const { toast } = useToast();
+  const [name, setName] = useState("");
+  const [contactName, setContactName] = useState("");
+  const [phone, setPhone] = useState("");
+  const [email, setEmail] = useState("");
+  const [address, setAddress] = useState("");
+  const [paymentTerms, setPaymentTerms] = useState("");
+  const [leadTimeDays, setLeadTimeDays] = useState("");
+  const [notes, setNotes] = useState("");
+  const [active, setActive] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setName(supplier?.name ?? "");
+    setContactName(supplier?.contact_name ?? "");
+    setPhone(supplier?.phone ?? "");
+    setEmail(supplier?.email ?? "");
+    setAddress(supplier?.address ?? "");
+    setPaymentTerms(supplier?.payment_terms ?? "");
+    setLeadTimeDays(supplier?.lead_time_days?.toString() ?? "");
+    setNotes(supplier?.notes ?? "");
+    setActive(supplier?.active ?? true);
+  }, [open, supplier]);
+
+  const validLeadTime = leadTimeDays === "" ||
+    (Number.isInteger(Number(leadTimeDays)) && Number(leadTimeDays) >= 0);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim() || !validLeadTime) return;
+    setSaving(true);
+
+    try {
+      const values = {
+        name: name.trim(),
+        contact_name: contactName.trim() || null,
+        phone: phone.trim() || null,
+        email: email.trim() || null,
+        address: address.trim() || null,
+        payment_terms: paymentTerms.trim() || null,
+        lead_time_days: leadTimeDays === "" ? null : Number(leadTimeDays),
+        notes: notes.trim() || null,
+        active,
+        updated_at: new Date().toISOString(),
+      };
+
+      const { data, error } = supplier
+        ? await supabase.from("suppliers").update(values).eq("id", supplier.id).select().single()
+        : await supabase.from("suppliers").insert(values).select().single();
+
+      if (error) throw error;
+
+      onSaved(data);
+      onOpenChange(false);
+      toast({
+        title: supplier ? "Supplier Updated" : "Supplier Added",
+        description: `${values.name} has been saved.`,
+      });
+    } catch (error: any) {
+      toast({
+        title: "Error saving supplier",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[600px]">
+        <DialogHeader>
+          <DialogTitle>{supplier ? "Edit Supplier" : "Add Supplier"}</DialogTitle>
+          <DialogDescription>Suppliers you order stock from.</DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="supplier-name">
+                Name <span className="text-red-500">*</span>
+              </Label>
+              <Input id="supplier-name" value={name} onChange={(e) => setName(e.target.value)} required />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="supplier-contact">Contact person</Label>
+              <Input id="supplier-contact" value={contactName} onChange={(e) => setContactName(e.target.value)} />
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="supplier-phone">Phone</Label>
+              <Input id="supplier-phone" value={phone} onChange={(e) => setPhone(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="supplier-email">Email</Label>
+              <Input
+                id="supplier-email"
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="supplier-address">Address</Label>
+            <Textarea id="supplier-address" value={address} onChange={(e) => setAddress(e.target.value)} rows={2} />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="supplier-terms">Payment terms</Label>
+              <Input
+                id="supplier-terms"
+                placeholder="e.g. COD, Net 30"
+                value={paymentTerms}
+                onChange={(e) => setPaymentTerms(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="supplier-lead-time">Lead time (days)</Label>
+              <Input
+                id="supplier-lead-time"
+                type="number"
+                min="0"
+                step="1"
+                value={leadTimeDays}
+                onChange={(e) => setLeadTimeDays(e.target.value)}
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="supplier-notes">Notes</Label>
+            <Textarea id="supplier-notes" value={notes} onChange={(e) => setNotes(e.target.value)} rows={2} />
+          </div>
+          <div className="flex items-center justify-between">
+            <Label htmlFor="supplier-active">Active</Label>
+            <Switch id="supplier-active" checked={active} onCheckedChange={setActive} />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" type="button" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!name.trim() || !validLeadTime || saving}>
+              {saving ? "Saving..." : "Save Supplier"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
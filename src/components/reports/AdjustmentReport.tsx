@@ -0,0 +1,148 @@
+import { useState, useEffect, useCallback } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/components/ui/use-toast";
+import { addDays, format, parseISO, startOfMonth } from "date-fns";
+import { ADJUSTMENT_REASONS, adjustmentReasonLabel, formatStockChange } from "@/lib/stock";
+
+interface AdjustmentRow {
+  id: string;
+  product_name: string;
+  sku: string;
+  reason: string;
+  quantity: number;
+  notes: string | null;
+  created_by_name: string | null;
+  created_at: string;
+}
+
+export function AdjustmentReport() {
+  const { toast } = useToast();
+  const [from, setFrom] = useState(format(startOfMonth(new Date()), "yyyy-MM-dd"));
+  const [to, setTo] = useState(format(new Date(), "yyyy-MM-dd"));
+  const [loading, setLoading] = useState(false);
+  const [rows, setRows] = useState<AdjustmentRow[]>([]);
+
+  const runReport = useCallback(async () => {
+    setLoading(true);
+    try {
+      const { data, error } = await supabase.rpc("stock_adjustment_report", {
+        from_date: parseISO(from).toISOString(),
+        to_date: addDays(parseISO(to), 1).toISOString(),
+      });
+
+      if (error) throw error;
+      setRows(data);
+    } catch (error: any) {
+      toast({
+        title: "Error running adjustment report",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [from, to, toast]);
+
+  useEffect(() => {
+    runReport();
+  }, [runReport]);
+
+  const byReason = ADJUSTMENT_REASONS.map(reason => {
+    const matching = rows.filter(row => row.reason === reason.value);
+    return {
+      ...reason,
+      count: matching.length,
+      units: matching.reduce((sum, row) => sum + row.quantity, 0),
+    };
+  });
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row gap-4 items-end">
+        <div className="space-y-2">
+          <Label htmlFor="adjustment-from">From</Label>
+          <Input id="adjustment-from" type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="adjustment-to">To</Label>
+          <Input id="adjustment-to" type="date" value={to} onChange={(e) => setTo(e.target.value)} />
+        </div>
+        <Button onClick={runReport} disabled={loading}>
+          {loading ? "Running..." : "Run Report"}
+        </Button>
+      </div>
+
+      <div className="border rounded-lg overflow-hidden">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Reason</TableHead>
+              <TableHead className="text-right">Adjustments</TableHead>
+              <TableHead className="text-right">Units</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {byReason.map((row) => (
+              <TableRow key={row.value}>
+                <TableCell className="font-medium">{row.label}</TableCell>
+                <TableCell className="text-right">{row.count}</TableCell>
+                <TableCell className="text-right">{formatStockChange(row.units)}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+
+      <div className="border rounded-lg overflow-hidden">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Date</TableHead>
+              <TableHead>Product</TableHead>
+              <TableHead>Reason</TableHead>
+              <TableHead className="text-right">Units</TableHead>
+              <TableHead>Notes</TableHead>
+              <TableHead>By</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.length > 0 ? (
+              rows.map((row) => (
+                <TableRow key={row.id}>
+                  <TableCell className="whitespace-nowrap">{format(new Date(row.created_at), "PPp")}</TableCell>
+                  <TableCell>
+                    {row.product_name}
+                    <span className="block text-xs text-muted-foreground">{row.sku}</span>
+                  </TableCell>
+                  <TableCell>{adjustmentReasonLabel(row.reason)}</TableCell>
+                  <TableCell className={`text-right ${row.quantity < 0 ? "text-red-500" : "text-green-600"}`}>
+                    {formatStockChange(row.quantity)}
+                  </TableCell>
+                  <TableCell>{row.notes ?? "—"}</TableCell>
+                  <TableCell>{row.created_by_name ?? "—"}</TableCell>
+                </TableRow>
+              ))
+            ) : (
+              <TableRow>
+                <TableCell colSpan={6} className="h-24 text-center">
+                  No stock adjustments in this period.
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
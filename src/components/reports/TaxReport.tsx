@@ -0,0 +1,222 @@
+import { useState, useEffect, useCallback } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/components/ui/use-toast";
+import { Register } from "@/lib/registers";
+import { format, parseISO, startOfMonth } from "date-fns";
+
+interface TaxRow {
+  key: string;
+  taxable: number;
+  tax: number;
+  exempt: number;
+}
+
+const emptyRow = (key: string): TaxRow => ({ key, taxable: 0, tax: 0, exempt: 0 });
+
+export function TaxReport() {
+  const { toast } = useToast();
+  const [from, setFrom] = useState(format(startOfMonth(new Date()), "yyyy-MM-dd"));
+  const [to, setTo] = useState(format(new Date(), "yyyy-MM-dd"));
+  const [registers, setRegisters] = useState<Register[]>([]);
+  const [registerId, setRegisterId] = useState("all");
+  const [loading, setLoading] = useState(false);
+  const [byDay, setByDay] = useState<TaxRow[]>([]);
+  const [byRate, setByRate] = useState<TaxRow[]>([]);
+
+  const runReport = useCallback(async () => {
+    setLoading(true);
+    try {
+      // Totals come back per store day, rate and register.
+      const { data, error } = await supabase.rpc("tax_report", {
+        from_date: from,
+        to_date: to,
+        for_register_id: registerId === "all" ? undefined : registerId,
+      });
+
+      if (error) throw error;
+
+      const days = new Map<string, TaxRow>();
+      const rates = new Map<string, TaxRow>();
+      for (const total of data) {
+        const rate = total.tax_rate > 0 ? `PPN ${total.tax_rate}%` : "Exempt";
+
+        for (const [map, key] of [[days, total.day], [rates, rate]] as const) {
+          const row = map.get(key) ?? emptyRow(key);
+          row.taxable += Number(total.taxable);
+          row.tax += Number(total.tax);
+          row.exempt += Number(total.exempt);
+          map.set(key, row);
+        }
+      }
+
+      setByDay([...days.values()].sort((a, b) => a.key.localeCompare(b.key)));
+      setByRate([...rates.values()]);
+    } catch (error: any) {
+      toast({
+        title: "Error running tax report",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [from, to, registerId, toast]);
+
+  useEffect(() => {
+    const fetchRegisters = async () => {
+      const { data } = await supabase.from("registers").select("*").order("name");
+      setRegisters(data ?? []);
+    };
+
+    fetchRegisters();
+  }, []);
+
+  useEffect(() => {
+    runReport();
+  }, [runReport]);
+
+  const totals = byDay.reduce(
+    (sum, row) => ({
+      key: "total",
+      taxable: sum.taxable + row.taxable,
+      tax: sum.tax + row.tax,
+      exempt: sum.exempt + row.exempt,
+    }),
+    emptyRow("total")
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row gap-4 items-end">
+        <div className="space-y-2">
+          <Label htmlFor="tax-from">From</Label>
+          <Input id="tax-from" type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="tax-to">To</Label>
+          <Input id="tax-to" type="date" value={to} onChange={(e) => setTo(e.target.value)} />
+        </div>
+        <div className="space-y-2">
+          <Label>Register</Label>
+          <Select value={registerId} onValueChange={setRegisterId}>
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All registers</SelectItem>
+              {registers.map((register) => (
+                <SelectItem key={register.id} value={register.id}>
+                  {register.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <Button onClick={runReport} disabled={loading}>
+          {loading ? "Running..." : "Run Report"}
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle>Taxable Sales</CardTitle>
+            <CardDescription>Tax base (DPP)</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <p className="text-3xl font-bold">Rp{totals.taxable.toFixed(2)}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle>PPN Collected</CardTitle>
+            <CardDescription>Output tax for the period</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <p className="text-3xl font-bold">Rp{totals.tax.toFixed(2)}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle>Exempt Sales</CardTitle>
+            <CardDescription>Staples without PPN</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <p className="text-3xl font-bold">Rp{totals.exempt.toFixed(2)}</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <div className="border rounded-lg overflow-hidden">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Rate</TableHead>
+              <TableHead className="text-right">Tax Base</TableHead>
+              <TableHead className="text-right">PPN</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {byRate.length > 0 ? (
+              byRate.map((row) => (
+                <TableRow key={row.key}>
+                  <TableCell className="font-medium">{row.key}</TableCell>
+                  <TableCell className="text-right">Rp{(row.taxable + row.exempt).toFixed(2)}</TableCell>
+                  <TableCell className="text-right">Rp{row.tax.toFixed(2)}</TableCell>
+                </TableRow>
+              ))
+            ) : (
+              <TableRow>
+                <TableCell colSpan={3} className="h-24 text-center">
+                  No sales in this period.
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      <div className="border rounded-lg overflow-hidden">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Date</TableHead>
+              <TableHead className="text-right">Taxable</TableHead>
+              <TableHead className="text-right">PPN</TableHead>
+              <TableHead className="text-right">Exempt</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {byDay.map((row) => (
+              <TableRow key={row.key}>
+                <TableCell>{format(parseISO(row.key), "PP")}</TableCell>
+                <TableCell className="text-right">Rp{row.taxable.toFixed(2)}</TableCell>
+                <TableCell className="text-right">Rp{row.tax.toFixed(2)}</TableCell>
+                <TableCell className="text-right">Rp{row.exempt.toFixed(2)}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,159 @@
+import { useState, useEffect, useCallback } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/components/ui/use-toast";
+import { formatMargin, marginPercent } from "@/lib/costing";
+
+interface CategoryValuation {
+  category: string;
+  products: number;
+  units: number;
+  atCost: number;
+  atRetail: number;
+  // Retail value of the stock that has a cost, so uncosted lines don't inflate the margin.
+  costedRetail: number;
+  uncosted: number;
+}
+
+// Stock on hand valued at cost and at the shelf price. Products without a
+// cost are counted at retail only and flagged, rather than valued at zero.
+export function ValuationReport() {
+  const { toast } = useToast();
+  const [loading, setLoading] = useState(false);
+  const [byCategory, setByCategory] = useState<CategoryValuation[]>([]);
+
+  const runReport = useCallback(async () => {
+    setLoading(true);
+    try {
+      // Valued on the server, one row per category, largest retail value first.
+      const { data, error } = await supabase.rpc("stock_valuation");
+
+      if (error) throw error;
+      setByCategory(data.map(row => ({
+        category: row.category,
+        products: row.products,
+        units: row.units,
+        atCost: Number(row.at_cost),
+        atRetail: Number(row.at_retail),
+        costedRetail: Number(row.costed_retail),
+        uncosted: row.uncosted,
+      })));
+    } catch (error: any) {
+      toast({
+        title: "Error running valuation report",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    runReport();
+  }, [runReport]);
+
+  const totals = byCategory.reduce(
+    (sum, row) => ({
+      units: sum.units + row.units,
+      atCost: sum.atCost + row.atCost,
+      atRetail: sum.atRetail + row.atRetail,
+      costedRetail: sum.costedRetail + row.costedRetail,
+      uncosted: sum.uncosted + row.uncosted,
+    }),
+    { units: 0, atCost: 0, atRetail: 0, costedRetail: 0, uncosted: 0 },
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-end">
+        <Button onClick={runReport} disabled={loading}>
+          {loading ? "Running..." : "Refresh"}
+        </Button>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-3">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle>Value at Cost</CardTitle>
+            <CardDescription>{totals.units} units on hand</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <p className="text-3xl font-bold">Rp{totals.atCost.toFixed(2)}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle>Value at Retail</CardTitle>
+            <CardDescription>At current shelf prices</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <p className="text-3xl font-bold">Rp{totals.atRetail.toFixed(2)}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle>Potential Margin</CardTitle>
+            <CardDescription>On stock with a known cost</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <p className="text-3xl font-bold">{formatMargin(marginPercent(totals.costedRetail, totals.atCost))}</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      {totals.uncosted > 0 && (
+        <p className="text-sm text-orange-500">
+          {totals.uncosted} product{totals.uncosted === 1 ? " has" : "s have"} stock but no cost and{" "}
+          {totals.uncosted === 1 ? "is" : "are"} left out of the value at cost.
+        </p>
+      )}
+
+      <div className="border rounded-lg overflow-hidden">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Category</TableHead>
+              <TableHead className="text-right">Products</TableHead>
+              <TableHead className="text-right">Units</TableHead>
+              <TableHead className="text-right">At Cost</TableHead>
+              <TableHead className="text-right">At Retail</TableHead>
+              <TableHead className="text-right">No Cost</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {byCategory.length > 0 ? (
+              byCategory.map((row) => (
+                <TableRow key={row.category}>
+                  <TableCell className="font-medium">{row.category}</TableCell>
+                  <TableCell className="text-right">{row.products}</TableCell>
+                  <TableCell className="text-right">{row.units}</TableCell>
+                  <TableCell className="text-right">Rp{row.atCost.toFixed(2)}</TableCell>
+                  <TableCell className="text-right">Rp{row.atRetail.toFixed(2)}</TableCell>
+                  <TableCell className={`text-right ${row.uncosted > 0 ? "text-orange-500" : ""}`}>
+                    {row.uncosted}
+                  </TableCell>
+                </TableRow>
+              ))
+            ) : (
+              <TableRow>
+                <TableCell colSpan={6} className="h-24 text-center">
+                  {loading ? "Loading..." : "No stock on hand."}
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
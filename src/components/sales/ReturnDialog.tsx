@@ -0,0 +1,250 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/components/ui/use-toast";
+import { getPairedRegisterId } from "@/lib/registers";
+
+type ReturnCondition = "restock" | "damaged";
+
+interface ReturnableItem {
+  id: string;
+  name: string;
+  quantity: number;
+  returned: number;
+  line_total: number;
+}
+
+interface ReturnLine {
+  quantity: string;
+  condition: ReturnCondition;
+}
+
+interface ReturnDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  saleId: string | null;
+  onReturned: (returnSaleId: string) => void;
+}
+
+export function ReturnDialog({ open, onOpenChange, saleId, onReturned }: ReturnDialogProps) {
+  const { toast } = useToast();
+  const [items, setItems] = useState<ReturnableItem[]>([]);
+  const [lines, setLines] = useState<Record<string, ReturnLine>>({});
+  const [reason, setReason] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!open || !saleId) return;
+
+    const fetchReturnableItems = async () => {
+      try {
+        const { data: saleItems, error } = await supabase
+          .from("sale_items")
+          .select("id, quantity, line_total, product:products (name)")
+          .eq("sale_id", saleId);
+
+        if (error) throw error;
+
+        const { data: returnedItems, error: returnedError } = await supabase
+          .from("sale_items")
+          .select("original_item_id, quantity")
+          .in("original_item_id", saleItems.map(item => item.id));
+
+        if (returnedError) throw returnedError;
+
+        setItems(saleItems.map(item => ({
+          id: item.id,
+          name: item.product.name,
+          quantity: item.quantity,
+          line_total: item.line_total,
+          // Return rows carry negative quantities.
+          returned: -returnedItems
+            .filter(r => r.original_item_id === item.id)
+            .reduce((sum, r) => sum + r.quantity, 0),
+        })));
+        setLines({});
+        setReason("");
+      } catch (error: any) {
+        toast({
+          title: "Error fetching sale items",
+          description: error.message,
+          variant: "destructive",
+        });
+      }
+    };
+
+    fetchReturnableItems();
+  }, [open, saleId, toast]);
+
+  const updateLine = (item: ReturnableItem, changes: Partial<ReturnLine>) => {
+    setLines(current => ({
+      ...current,
+      [item.id]: { quantity: "", condition: "restock", ...current[item.id], ...changes },
+    }));
+  };
+
+  const selected = items
+    .map(item => ({ item, quantity: Number(lines[item.id]?.quantity) || 0 }))
+    .filter(({ quantity }) => quantity > 0);
+
+  const overReturned = selected.some(({ item, quantity }) => quantity > item.quantity - item.returned);
+  const estimatedRefund = selected.reduce(
+    (sum, { item, quantity }) => sum + Math.round((item.line_total * quantity * 100) / item.quantity) / 100,
+    0
+  );
+
+  const processReturn = async () => {
+    if (!saleId) return;
+    setSubmitting(true);
+
+    try {
+      const { data, error } = await supabase.rpc("process_return", {
+        sale_id: saleId,
+        reason: reason.trim(),
+        items: selected.map(({ item, quantity }) => ({
+          sale_item_id: item.id,
+          quantity,
+          condition: lines[item.id]?.condition ?? "restock",
+        })),
+        register_id: getPairedRegisterId() ?? undefined,
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "Return processed",
+        description: `Refunded Rp${estimatedRefund.toFixed(2)} to the original payment methods.`,
+      });
+      onReturned(data);
+      onOpenChange(false);
+    } catch (error: any) {
+      toast({
+        title: "Error processing return",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Return Items</DialogTitle>
+          <DialogDescription>
+            Choose what the customer is bringing back. The refund goes to the tenders the sale
+            was paid with.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Product</TableHead>
+              <TableHead className="text-right">Sold</TableHead>
+              <TableHead className="text-right">Returned</TableHead>
+              <TableHead className="w-24">Return</TableHead>
+              <TableHead className="w-36">Condition</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {items.map((item) => {
+              const remaining = item.quantity - item.returned;
+              return (
+                <TableRow key={item.id}>
+                  <TableCell>{item.name}</TableCell>
+                  <TableCell className="text-right">{item.quantity}</TableCell>
+                  <TableCell className="text-right">{item.returned}</TableCell>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      min="0"
+                      max={remaining}
+                      disabled={remaining <= 0}
+                      value={lines[item.id]?.quantity ?? ""}
+                      onChange={(e) => updateLine(item, { quantity: e.target.value })}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Select
+                      value={lines[item.id]?.condition ?? "restock"}
+                      disabled={remaining <= 0}
+                      onValueChange={(value) => updateLine(item, { condition: value as ReturnCondition })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="restock">Restock</SelectItem>
+                        <SelectItem value="damaged">Damaged</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+
+        <div className="space-y-2">
+          <Label htmlFor="return-reason">
+            Reason <span className="text-red-500">*</span>
+          </Label>
+          <Input
+            id="return-reason"
+            placeholder="e.g. expired, wrong item, customer changed mind"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+          />
+        </div>
+
+        <div className="flex justify-between font-medium">
+          <span>Refund</span>
+          <span>Rp{estimatedRefund.toFixed(2)}</span>
+        </div>
+        {overReturned && (
+          <p className="text-sm text-red-500">You cannot return more than was sold.</p>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            disabled={selected.length === 0 || overReturned || !reason.trim() || submitting}
+            onClick={processReturn}
+          >
+            {submitting ? "Processing..." : "Process Return"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,108 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { useToast } from "@/components/ui/use-toast";
+import { isValidPin } from "@/lib/pin";
+
+export function PinCard() {
+  const { toast } = useToast();
+  const [hasPin, setHasPin] = useState(false);
+  const [pin, setPin] = useState("");
+  const [confirmPin, setConfirmPin] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    const fetchHasPin = async () => {
+      const { data } = await supabase.rpc("has_pin");
+      setHasPin(data ?? false);
+    };
+
+    fetchHasPin();
+  }, []);
+
+  let error: string | null = null;
+  if (!isValidPin(pin)) {
+    error = "The PIN must be 4 to 6 digits";
+  } else if (pin !== confirmPin) {
+    error = "The PINs do not match";
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (error) return;
+    setSaving(true);
+
+    try {
+      const { error: pinError } = await supabase.rpc("set_pin", { pin });
+      if (pinError) throw pinError;
+
+      setHasPin(true);
+      setPin("");
+      setConfirmPin("");
+      toast({
+        title: "Success",
+        description: "Your POS PIN has been saved",
+      });
+    } catch (error: any) {
+      toast({
+        title: "Error saving PIN",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle>POS PIN</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            {hasPin
+              ? "Your PIN is set. Enter a new one to change it."
+              : "Set a PIN to unlock a shared till without signing in with your password."}
+          </p>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="pin">{hasPin ? "New PIN" : "PIN"}</Label>
+              <Input
+                id="pin"
+                type="password"
+                inputMode="numeric"
+                autoComplete="off"
+                maxLength={6}
+                value={pin}
+                onChange={(e) => setPin(e.target.value.replace(/\D/g, ""))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="confirm-pin">Confirm PIN</Label>
+              <Input
+                id="confirm-pin"
+                type="password"
+                inputMode="numeric"
+                autoComplete="off"
+                maxLength={6}
+                value={confirmPin}
+                onChange={(e) => setConfirmPin(e.target.value.replace(/\D/g, ""))}
+              />
+            </div>
+          </div>
+          {error && pin !== "" && <p className="text-sm text-red-500">{error}</p>}
+          <div className="flex justify-end">
+            <Button type="submit" disabled={!!error || saving}>
+              {saving ? "Saving..." : "Save PIN"}
+            </Button>
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
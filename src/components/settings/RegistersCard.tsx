@@ -0,0 +1,268 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/components/ui/use-toast";
+import { Monitor, Pencil, Plus } from "lucide-react";
+import {
+  PRINTER_WIDTHS,
+  Register,
+  getPairedRegisterId,
+  pairRegister,
+  unpairRegister,
+} from "@/lib/registers";
+
+interface RegisterForm {
+  name: string;
+  location: string;
+  receipt_header: string;
+  printer_width: number;
+  active: boolean;
+}
+
+const emptyForm: RegisterForm = {
+  name: "",
+  location: "",
+  receipt_header: "",
+  printer_width: 80,
+  active: true,
+};
+
+interface RegistersCardProps {
+  /** Store owners can add and edit registers; everyone can pair their device. */
+  canManage: boolean;
+}
+
+export function RegistersCard({ canManage }: RegistersCardProps) {
+  const { toast } = useToast();
+  const [registers, setRegisters] = useState<Register[]>([]);
+  const [pairedId, setPairedId] = useState(getPairedRegisterId());
+  const [editing, setEditing] = useState<Register | "new" | null>(null);
+  const [form, setForm] = useState<RegisterForm>(emptyForm);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    const fetchRegisters = async () => {
+      const { data, error } = await supabase
+        .from("registers")
+        .select("*")
+        .order("name");
+
+      if (error) {
+        toast({
+          title: "Error fetching registers",
+          description: error.message,
+          variant: "destructive",
+        });
+        return;
+      }
+
+      setRegisters(data);
+    };
+
+    fetchRegisters();
+  }, [toast]);
+
+  const openEditor = (register: Register | "new") => {
+    setForm(register === "new" ? emptyForm : {
+      name: register.name,
+      location: register.location ?? "",
+      receipt_header: register.receipt_header ?? "",
+      printer_width: register.printer_width,
+      active: register.active,
+    });
+    setEditing(register);
+  };
+
+  const saveRegister = async () => {
+    if (!form.name.trim()) return;
+    setSaving(true);
+
+    try {
+      const values = {
+        name: form.name.trim(),
+        location: form.location.trim() || null,
+        receipt_header: form.receipt_header.trim() || null,
+        printer_width: form.printer_width,
+        active: form.active,
+      };
+
+      const query = editing === "new"
+        ? supabase.from("registers").insert(values)
+        : supabase.from("registers").update(values).eq("id", editing!.id);
+      const { data, error } = await query.select().single();
+
+      if (error) throw error;
+
+      setRegisters(current =>
+        editing === "new"
+          ? [...current, data]
+          : current.map(register => (register.id === data.id ? data : register))
+      );
+      setEditing(null);
+
+      toast({
+        title: "Success",
+        description: `Register ${data.name} has been saved`,
+      });
+    } catch (error: any) {
+      toast({
+        title: "Error saving register",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const togglePairing = (register: Register) => {
+    if (pairedId === register.id) {
+      unpairRegister();
+      setPairedId(null);
+    } else {
+      pairRegister(register.id);
+      setPairedId(register.id);
+    }
+  };
+
+  return (
+    <Card className="mt-6">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle>Registers</CardTitle>
+        {canManage && (
+          <Button size="sm" onClick={() => openEditor("new")}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Register
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-2">
+        <p className="text-sm text-muted-foreground">
+          Pair this device with the till it sits at. Shifts and sales made here are tagged with that register.
+        </p>
+        {registers.map((register) => (
+          <div key={register.id} className="flex items-center justify-between gap-4 p-2 border rounded-lg">
+            <div className={register.active ? "" : "text-muted-foreground"}>
+              <p className="font-medium flex items-center gap-2">
+                {register.name}
+                {pairedId === register.id && <Monitor className="h-4 w-4" />}
+                {!register.active && <span className="text-sm font-normal">(inactive)</span>}
+              </p>
+              <p className="text-sm text-muted-foreground">
+                {[register.location, `${register.printer_width}mm printer`].filter(Boolean).join(" · ")}
+              </p>
+            </div>
+            <div className="flex gap-2">
+              <Button
+                variant={pairedId === register.id ? "secondary" : "outline"}
+                size="sm"
+                disabled={!register.active && pairedId !== register.id}
+                onClick={() => togglePairing(register)}
+              >
+                {pairedId === register.id ? "Unpair" : "Pair this device"}
+              </Button>
+              {canManage && (
+                <Button variant="outline" size="icon" onClick={() => openEditor(register)}>
+                  <Pencil className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+          </div>
+        ))}
+      </CardContent>
+
+      <Dialog open={editing !== null} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editing === "new" ? "Add Register" : "Edit Register"}</DialogTitle>
+            <DialogDescription>
+              The receipt header and printer width are used for receipts printed at this till.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="register-name">Name</Label>
+              <Input
+                id="register-name"
+                value={form.name}
+                onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="register-location">Location</Label>
+              <Input
+                id="register-location"
+                placeholder="e.g. front counter"
+                value={form.location}
+                onChange={(e) => setForm(prev => ({ ...prev, location: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="register-header">Receipt Header</Label>
+              <Textarea
+                id="register-header"
+                placeholder="Store name, address, phone"
+                value={form.receipt_header}
+                onChange={(e) => setForm(prev => ({ ...prev, receipt_header: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Printer Width</Label>
+              <Select
+                value={form.printer_width.toString()}
+                onValueChange={(value) => setForm(prev => ({ ...prev, printer_width: Number(value) }))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PRINTER_WIDTHS.map((width) => (
+                    <SelectItem key={width} value={width.toString()}>
+                      {width}mm
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="register-active">Active</Label>
+              <Switch
+                id="register-active"
+                checked={form.active}
+                onCheckedChange={(checked) => setForm(prev => ({ ...prev, active: checked }))}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)}>
+              Cancel
+            </Button>
+            <Button disabled={!form.name.trim() || saving} onClick={saveRegister}>
+              {saving ? "Saving..." : "Save"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
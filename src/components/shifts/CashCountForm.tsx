@@ -0,0 +1,44 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { CashCount, DENOMINATIONS, cashCountTotal, formatDenomination } from "@/lib/cash";
+
+interface CashCountFormProps {
+  count: CashCount;
+  onChange: (count: CashCount) => void;
+}
+
+export function CashCountForm({ count, onChange }: CashCountFormProps) {
+  const updateCount = (value: number, pieces: string) => {
+    const parsed = Math.max(Math.floor(Number(pieces) || 0), 0);
+    onChange({ ...count, [value]: parsed });
+  };
+
+  return (
+    <div className="rounded-lg border p-4 space-y-2">
+      <Label>Cash Count</Label>
+      <div className="grid grid-cols-2 gap-x-4 gap-y-2">
+        {DENOMINATIONS.map((value) => (
+          <div key={value} className="flex items-center gap-2">
+            <Label htmlFor={`count-${value}`} className="w-24 text-sm font-normal">
+              {formatDenomination(value)}
+            </Label>
+            <Input
+              id={`count-${value}`}
+              type="number"
+              min="0"
+              step="1"
+              className="h-8"
+              value={count[value] || ""}
+              onChange={(e) => updateCount(value, e.target.value)}
+              placeholder="0"
+            />
+          </div>
+        ))}
+      </div>
+      <div className="flex justify-between text-sm font-medium pt-2 border-t">
+        <span>Counted</span>
+        <span>Rp{cashCountTotal(count).toFixed(2)}</span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,181 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/components/ui/use-toast";
+import { CASH_MOVEMENT_TYPES, CashMovement, CashMovementType } from "@/lib/cash";
+
+interface CashMovementDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  shiftId: string;
+  onRecorded: (movement: CashMovement) => void;
+}
+
+export function CashMovementDialog({ open, onOpenChange, shiftId, onRecorded }: CashMovementDialogProps) {
+  const { toast } = useToast();
+  const [movementType, setMovementType] = useState<CashMovementType>("drop");
+  const [amount, setAmount] = useState("");
+  const [reason, setReason] = useState("");
+  const [receipt, setReceipt] = useState<File | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setMovementType("drop");
+      setAmount("");
+      setReason("");
+      setReceipt(null);
+    }
+  }, [open]);
+
+  const recordMovement = async () => {
+    const value = parseFloat(amount);
+    if (isNaN(value) || value <= 0) {
+      toast({
+        title: "Invalid amount",
+        description: "Please enter an amount greater than zero",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error("You must be logged in to record cash movements");
+
+      let receiptPath: string | null = null;
+      if (receipt) {
+        receiptPath = `${shiftId}/${crypto.randomUUID()}-${receipt.name}`;
+        const { error: uploadError } = await supabase.storage
+          .from("cash-receipts")
+          .upload(receiptPath, receipt);
+        if (uploadError) throw uploadError;
+      }
+
+      const { data, error } = await supabase
+        .from("cash_movements")
+        .insert({
+          shift_id: shiftId,
+          movement_type: movementType,
+          amount: value,
+          reason: reason.trim(),
+          receipt_path: receiptPath,
+          created_by: user.id,
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      onRecorded(data);
+      onOpenChange(false);
+      toast({
+        title: "Cash movement recorded",
+        description: "The drawer's expected cash has been updated",
+      });
+    } catch (error: any) {
+      toast({
+        title: "Error recording cash movement",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Cash Movement</DialogTitle>
+          <DialogDescription>
+            Record cash taken out of or put into the drawer outside of a sale.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Type</Label>
+            <Select
+              value={movementType}
+              onValueChange={(value) => setMovementType(value as CashMovementType)}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CASH_MOVEMENT_TYPES.map((type) => (
+                  <SelectItem key={type.value} value={type.value}>
+                    {type.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-sm text-muted-foreground">
+              {CASH_MOVEMENT_TYPES.find(type => type.value === movementType)?.description}
+            </p>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="movement-amount">Amount (Rp)</Label>
+            <Input
+              id="movement-amount"
+              type="number"
+              step="0.01"
+              min="0"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              placeholder="0.00"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="movement-reason">
+              Reason <span className="text-red-500">*</span>
+            </Label>
+            <Input
+              id="movement-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="e.g. safe drop, ice delivery"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="movement-receipt">Receipt Photo (Optional)</Label>
+            <Input
+              id="movement-receipt"
+              type="file"
+              accept="image/*"
+              capture="environment"
+              onChange={(e) => setReceipt(e.target.files?.[0] ?? null)}
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button disabled={!reason.trim() || saving} onClick={recordMovement}>
+            {saving ? "Saving..." : "Record"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
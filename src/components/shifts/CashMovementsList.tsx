@@ -0,0 +1,65 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/components/ui/use-toast";
+import { format } from "date-fns";
+import { Image } from "lucide-react";
+import { CashMovement, cashMovementLabel, formatSignedAmount, signedMovementAmount } from "@/lib/cash";
+
+export function CashMovementsList({ movements }: { movements: CashMovement[] }) {
+  const { toast } = useToast();
+  const net = movements.reduce((sum, movement) => sum + signedMovementAmount(movement), 0);
+
+  const openReceipt = async (path: string) => {
+    const { data, error } = await supabase.storage
+      .from("cash-receipts")
+      .createSignedUrl(path, 60);
+
+    if (error) {
+      toast({
+        title: "Error opening receipt",
+        description: error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    window.open(data.signedUrl, "_blank");
+  };
+
+  return (
+    <div className="rounded-lg border p-4 space-y-1">
+      <Label>Cash Movements</Label>
+      {movements.length > 0 ? (
+        <>
+          {movements.map((movement) => (
+            <div key={movement.id} className="flex justify-between items-center gap-2 text-sm">
+              <span className="flex-1">
+                {format(new Date(movement.created_at), "p")} · {cashMovementLabel(movement.movement_type)}
+                <span className="text-muted-foreground"> ({movement.reason})</span>
+              </span>
+              {movement.receipt_path && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6"
+                  title="View receipt"
+                  onClick={() => openReceipt(movement.receipt_path!)}
+                >
+                  <Image className="h-4 w-4" />
+                </Button>
+              )}
+              <span>{formatSignedAmount(signedMovementAmount(movement))}</span>
+            </div>
+          ))}
+          <div className="flex justify-between text-sm font-medium pt-1 border-t">
+            <span>Net</span>
+            <span>{formatSignedAmount(net)}</span>
+          </div>
+        </>
+      ) : (
+        <p className="text-sm text-muted-foreground">No cash movements recorded.</p>
+      )}
+    </div>
+  );
+}
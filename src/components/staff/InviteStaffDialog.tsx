@@ -0,0 +1,140 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/components/ui/use-toast";
+import { APP_ROLES, AppRole, ROLE_LABELS } from "@/lib/roles";
+
+interface InviteStaffDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onInvited: () => void;
+}
+
+export function InviteStaffDialog({ open, onOpenChange, onInvited }: InviteStaffDialogProps) {
+  const { toast } = useToast();
+  const [fullName, setFullName] = useState("");
+  const [email, setEmail] = useState("");
+  const [role, setRole] = useState<AppRole>("shopkeeper");
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setFullName("");
+      setEmail("");
+      setRole("shopkeeper");
+    }
+  }, [open]);
+
+  const invite = async () => {
+    if (!email.trim()) return;
+    setSubmitting(true);
+
+    try {
+      const { error } = await supabase.functions.invoke("invite-staff", {
+        body: {
+          email: email.trim(),
+          full_name: fullName.trim(),
+          role,
+          redirect_to: `${window.location.origin}/auth`,
+        },
+      });
+
+      if (error) {
+        // The function puts its own message in the response body.
+        const body = await error.context?.json?.().catch(() => null);
+        throw new Error(body?.error ?? error.message);
+      }
+
+      toast({
+        title: "Invitation sent",
+        description: `${email.trim()} will get an email to set their password`,
+      });
+      onOpenChange(false);
+      onInvited();
+    } catch (error: any) {
+      toast({
+        title: "Error inviting staff",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>Invite Staff</DialogTitle>
+          <DialogDescription>
+            They will get an email link to set a password and sign in.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="invite-name">Full name</Label>
+            <Input
+              id="invite-name"
+              value={fullName}
+              onChange={(e) => setFullName(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="invite-email">
+              Email <span className="text-red-500">*</span>
+            </Label>
+            <Input
+              id="invite-email"
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Role</Label>
+            <Select value={role} onValueChange={(value) => setRole(value as AppRole)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {APP_ROLES.map(value => (
+                  <SelectItem key={value} value={value}>
+                    {ROLE_LABELS[value]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button disabled={!email.trim() || submitting} onClick={invite}>
+            {submitting ? "Sending..." : "Send Invite"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
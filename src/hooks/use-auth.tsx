@@ -0,0 +1,87 @@
+import { createContext, useContext, useEffect, useState } from "react";
+import type { Session, User } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import { AppRole } from "@/lib/roles";
+
+interface AuthState {
+  session: Session | null;
+  user: User | null;
+  roles: AppRole[];
+  /** True until the session and the user's roles are known. */
+  loading: boolean;
+  hasRole: (role: AppRole) => boolean;
+}
+
+const AuthContext = createContext<AuthState | undefined>(undefined);
+
+export function AuthProvider({ children }: { children: React.ReactNode }) {
+  const [session, setSession] = useState<Session | null>(null);
+  const [sessionLoaded, setSessionLoaded] = useState(false);
+  const [roles, setRoles] = useState<AppRole[]>([]);
+  const [rolesUserId, setRolesUserId] = useState<string | null>(null);
+
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data: { session }, error }) => {
+      if (error) console.error("Session error:", error);
+      setSession(session);
+      setSessionLoaded(true);
+    });
+
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, session) => {
+      setSession(session);
+      setSessionLoaded(true);
+    });
+
+    return () => {
+      subscription.unsubscribe();
+    };
+  }, []);
+
+  const userId = session?.user.id ?? null;
+
+  useEffect(() => {
+    if (!userId) {
+      setRoles([]);
+      setRolesUserId(null);
+      return;
+    }
+
+    let cancelled = false;
+    const fetchRoles = async () => {
+      const { data, error } = await supabase
+        .from("user_roles")
+        .select("role")
+        .eq("user_id", userId);
+
+      if (error) console.error("Role fetch error:", error);
+      if (cancelled) return;
+      setRoles((data || []).map(r => r.role));
+      setRolesUserId(userId);
+    };
+
+    fetchRoles();
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  const value: AuthState = {
+    session,
+    user: session?.user ?? null,
+    roles,
+    loading: !sessionLoaded || rolesUserId !== userId,
+    hasRole: (role: AppRole) => roles.includes(role),
+  };
+
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+}
+
+export function useAuth() {
+  const context = useContext(AuthContext);
+
+  if (context === undefined) {
+    throw new Error("useAuth must be used within an AuthProvider");
+  }
+
+  return context;
+}
@@ -0,0 +1,44 @@
+import * as React from "react"
+
+// Keyboard-wedge scanners "type" a whole code in a few milliseconds and finish
+// with Enter. Humans don't type that fast, so bursts are told apart by timing.
+const MAX_KEY_INTERVAL_MS = 50
+const MIN_CODE_LENGTH = 4
+
+export function useBarcodeScanner(onScan: (code: string) => void, enabled = true) {
+  const onScanRef = React.useRef(onScan)
+  onScanRef.current = onScan
+
+  React.useEffect(() => {
+    if (!enabled) return
+
+    let buffer = ""
+    let lastKeyTime = 0
+
+    const onKeyDown = (event: KeyboardEvent) => {
+      const now = performance.now()
+      const isBurst = now - lastKeyTime <= MAX_KEY_INTERVAL_MS
+      lastKeyTime = now
+
+      if (event.key === "Enter") {
+        if (isBurst && buffer.length >= MIN_CODE_LENGTH) {
+          event.preventDefault()
+          event.stopPropagation()
+          onScanRef.current(buffer)
+        }
+        buffer = ""
+        return
+      }
+
+      if (event.key.length !== 1 || event.ctrlKey || event.altKey || event.metaKey) {
+        buffer = ""
+        return
+      }
+
+      buffer = isBurst ? buffer + event.key : event.key
+    }
+
+    window.addEventListener("keydown", onKeyDown, true)
+    return () => window.removeEventListener("keydown", onKeyDown, true)
+  }, [enabled])
+}
@@ -9,9 +9,372 @@ export type Json =
 export type Database = {
   public: {
     Tables: {
+      cash_movements: {
+        Row: {
+          amount: number
+          created_at: string
+          created_by: string
+          id: string
+          movement_type: string
+          reason: string
+          receipt_path: string | null
+          shift_id: string
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          created_by?: string
+          id?: string
+          movement_type: string
+          reason: string
+          receipt_path?: string | null
+          shift_id: string
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          created_by?: string
+          id?: string
+          movement_type?: string
+          reason?: string
+          receipt_path?: string | null
+          shift_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "cash_movements_shift_id_fkey"
+            columns: ["shift_id"]
+            isOneToOne: false
+            referencedRelation: "shifts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      cashier_pins: {
+        Row: {
+          failed_attempts: number
+          locked_until: string | null
+          pin_hash: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          failed_attempts?: number
+          locked_until?: string | null
+          pin_hash: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          failed_attempts?: number
+          locked_until?: string | null
+          pin_hash?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      goods_receipt_lines: {
+        Row: {
+          discrepancy_note: string | null
+          goods_receipt_id: string
+          id: string
+          product_id: string
+          purchase_order_line_id: string
+          quantity_received: number
+          quantity_rejected: number
+        }
+        Insert: {
+          discrepancy_note?: string | null
+          goods_receipt_id: string
+          id?: string
+          product_id: string
+          purchase_order_line_id: string
+          quantity_received?: number
+          quantity_rejected?: number
+        }
+        Update: {
+          discrepancy_note?: string | null
+          goods_receipt_id?: string
+          id?: string
+          product_id?: string
+          purchase_order_line_id?: string
+          quantity_received?: number
+          quantity_rejected?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "goods_receipt_lines_goods_receipt_id_fkey"
+            columns: ["goods_receipt_id"]
+            isOneToOne: false
+            referencedRelation: "goods_receipts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "goods_receipt_lines_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "goods_receipt_lines_purchase_order_line_id_fkey"
+            columns: ["purchase_order_line_id"]
+            isOneToOne: false
+            referencedRelation: "purchase_order_lines"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      goods_receipts: {
+        Row: {
+          id: string
+          notes: string | null
+          purchase_order_id: string
+          received_at: string
+          received_by: string | null
+          supplier_reference: string | null
+        }
+        Insert: {
+          id?: string
+          notes?: string | null
+          purchase_order_id: string
+          received_at?: string
+          received_by?: string | null
+          supplier_reference?: string | null
+        }
+        Update: {
+          id?: string
+          notes?: string | null
+          purchase_order_id?: string
+          received_at?: string
+          received_by?: string | null
+          supplier_reference?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "goods_receipts_purchase_order_id_fkey"
+            columns: ["purchase_order_id"]
+            isOneToOne: false
+            referencedRelation: "purchase_orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      manager_overrides: {
+        Row: {
+          action: string
+          approved_by: string
+          created_at: string
+          details: Json
+          id: string
+          reason: string | null
+          requested_by: string
+          sale_id: string | null
+          shift_id: string | null
+          used_at: string | null
+        }
+        Insert: {
+          action: string
+          approved_by: string
+          created_at?: string
+          details?: Json
+          id?: string
+          reason?: string | null
+          requested_by: string
+          sale_id?: string | null
+          shift_id?: string | null
+          used_at?: string | null
+        }
+        Update: {
+          action?: string
+          approved_by?: string
+          created_at?: string
+          details?: Json
+          id?: string
+          reason?: string | null
+          requested_by?: string
+          sale_id?: string | null
+          shift_id?: string | null
+          used_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "manager_overrides_sale_id_fkey"
+            columns: ["sale_id"]
+            isOneToOne: false
+            referencedRelation: "sales"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "manager_overrides_shift_id_fkey"
+            columns: ["shift_id"]
+            isOneToOne: false
+            referencedRelation: "shifts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      parked_carts: {
+        Row: {
+          cashier_id: string
+          cashier_name: string | null
+          created_at: string
+          discount: Json | null
+          id: string
+          items: Json
+          label: string
+          shift_id: string | null
+          total_amount: number
+        }
+        Insert: {
+          cashier_id?: string
+          cashier_name?: string | null
+          created_at?: string
+          discount?: Json | null
+          id?: string
+          items: Json
+          label: string
+          shift_id?: string | null
+          total_amount?: number
+        }
+        Update: {
+          cashier_id?: string
+          cashier_name?: string | null
+          created_at?: string
+          discount?: Json | null
+          id?: string
+          items?: Json
+          label?: string
+          shift_id?: string | null
+          total_amount?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "parked_carts_shift_id_fkey"
+            columns: ["shift_id"]
+            isOneToOne: false
+            referencedRelation: "shifts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      pos_unlocks: {
+        Row: {
+          cashier_id: string | null
+          cashier_name: string | null
+          shift_id: string
+          updated_at: string
+        }
+        Insert: {
+          cashier_id?: string | null
+          cashier_name?: string | null
+          shift_id: string
+          updated_at?: string
+        }
+        Update: {
+          cashier_id?: string | null
+          cashier_name?: string | null
+          shift_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "pos_unlocks_shift_id_fkey"
+            columns: ["shift_id"]
+            isOneToOne: true
+            referencedRelation: "shifts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      product_barcodes: {
+        Row: {
+          barcode: string
+          created_at: string
+          id: string
+          product_id: string
+        }
+        Insert: {
+          barcode: string
+          created_at?: string
+          id?: string
+          product_id: string
+        }
+        Update: {
+          barcode?: string
+          created_at?: string
+          id?: string
+          product_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "product_barcodes_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      product_suppliers: {
+        Row: {
+          created_at: string
+          id: string
+          last_cost: number | null
+          last_cost_at: string | null
+          pack_size: number
+          preferred: boolean
+          product_id: string
+          supplier_id: string
+          supplier_sku: string | null
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          last_cost?: number | null
+          last_cost_at?: string | null
+          pack_size?: number
+          preferred?: boolean
+          product_id: string
+          supplier_id: string
+          supplier_sku?: string | null
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          last_cost?: number | null
+          last_cost_at?: string | null
+          pack_size?: number
+          preferred?: boolean
+          product_id?: string
+          supplier_id?: string
+          supplier_sku?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "product_suppliers_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "product_suppliers_supplier_id_fkey"
+            columns: ["supplier_id"]
+            isOneToOne: false
+            referencedRelation: "suppliers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       products: {
         Row: {
           category: string | null
+          cost: number | null
           created_at: string
           description: string | null
           id: string
@@ -19,10 +382,12 @@ export type Database = {
           price: number
           sku: string
           stock_quantity: number
+          tax_class: string
           updated_at: string
         }
         Insert: {
           category?: string | null
+          cost?: number | null
           created_at?: string
           description?: string | null
           id?: string
@@ -30,10 +395,12 @@ export type Database = {
           price: number
           sku: string
           stock_quantity?: number
+          tax_class?: string
           updated_at?: string
         }
         Update: {
           category?: string | null
+          cost?: number | null
           created_at?: string
           description?: string | null
           id?: string
@@ -41,14 +408,18 @@ export type Database = {
           price?: number
           sku?: string
           stock_quantity?: number
+          tax_class?: string
           updated_at?: string
         }
         Relationships: []
       }
       profiles: {
         Row: {
+          active: boolean
           address: string | null
           created_at: string
+          deactivated_at: string | null
+          deactivated_by: string | null
           email: string | null
           full_name: string | null
           id: string
@@ -57,8 +428,11 @@ export type Database = {
           updated_at: string
         }
         Insert: {
+          active?: boolean
           address?: string | null
           created_at?: string
+          deactivated_at?: string | null
+          deactivated_by?: string | null
           email?: string | null
           full_name?: string | null
           id: string
@@ -67,8 +441,11 @@ export type Database = {
           updated_at?: string
         }
         Update: {
+          active?: boolean
           address?: string | null
           created_at?: string
+          deactivated_at?: string | null
+          deactivated_by?: string | null
           email?: string | null
           full_name?: string | null
           id?: string
@@ -78,114 +455,679 @@ export type Database = {
         }
         Relationships: []
       }
-      sale_items: {
+      promotions: {
         Row: {
+          active: boolean
+          bundle_price: number | null
+          bundle_quantity: number | null
+          buy_quantity: number | null
+          category: string | null
           created_at: string
+          created_by: string | null
+          days_of_week: number[] | null
+          ends_at: string | null
+          get_quantity: number | null
           id: string
-          product_id: string
-          quantity: number
-          sale_id: string
-          subtotal: number
-          unit_price: number
+          name: string
+          percent: number | null
+          product_id: string | null
+          promo_type: string
+          starts_at: string | null
+          updated_at: string
         }
         Insert: {
+          active?: boolean
+          bundle_price?: number | null
+          bundle_quantity?: number | null
+          buy_quantity?: number | null
+          category?: string | null
           created_at?: string
+          created_by?: string | null
+          days_of_week?: number[] | null
+          ends_at?: string | null
+          get_quantity?: number | null
           id?: string
-          product_id: string
-          quantity: number
-          sale_id: string
-          subtotal: number
-          unit_price: number
+          name: string
+          percent?: number | null
+          product_id?: string | null
+          promo_type: string
+          starts_at?: string | null
+          updated_at?: string
         }
         Update: {
+          active?: boolean
+          bundle_price?: number | null
+          bundle_quantity?: number | null
+          buy_quantity?: number | null
+          category?: string | null
           created_at?: string
+          created_by?: string | null
+          days_of_week?: number[] | null
+          ends_at?: string | null
+          get_quantity?: number | null
+          id?: string
+          name?: string
+          percent?: number | null
+          product_id?: string | null
+          promo_type?: string
+          starts_at?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "promotions_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      purchase_order_lines: {
+        Row: {
+          id: string
+          product_id: string
+          purchase_order_id: string
+          quantity_ordered: number
+          quantity_received: number
+          quantity_rejected: number
+          unit_cost: number
+        }
+        Insert: {
+          id?: string
+          product_id: string
+          purchase_order_id: string
+          quantity_ordered: number
+          quantity_received?: number
+          quantity_rejected?: number
+          unit_cost: number
+        }
+        Update: {
           id?: string
           product_id?: string
-          quantity?: number
-          sale_id?: string
-          subtotal?: number
-          unit_price?: number
+          purchase_order_id?: string
+          quantity_ordered?: number
+          quantity_received?: number
+          quantity_rejected?: number
+          unit_cost?: number
         }
         Relationships: [
           {
-            foreignKeyName: "sale_items_product_id_fkey"
+            foreignKeyName: "purchase_order_lines_product_id_fkey"
             columns: ["product_id"]
             isOneToOne: false
             referencedRelation: "products"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "sale_items_sale_id_fkey"
-            columns: ["sale_id"]
+            foreignKeyName: "purchase_order_lines_purchase_order_id_fkey"
+            columns: ["purchase_order_id"]
             isOneToOne: false
-            referencedRelation: "sales"
+            referencedRelation: "purchase_orders"
             referencedColumns: ["id"]
           },
         ]
       }
-      sales: {
+      purchase_orders: {
         Row: {
-          cashier_id: string
+          close_reason: string | null
           created_at: string
+          created_by: string | null
+          expected_date: string | null
           id: string
-          payment_method: string
+          notes: string | null
+          po_number: number
           status: string
-          total_amount: number
+          supplier_id: string
+          updated_at: string
         }
         Insert: {
-          cashier_id: string
+          close_reason?: string | null
           created_at?: string
+          created_by?: string | null
+          expected_date?: string | null
           id?: string
+          notes?: string | null
+          po_number?: number
+          status?: string
+          supplier_id: string
+          updated_at?: string
+        }
+        Update: {
+          close_reason?: string | null
+          created_at?: string
+          created_by?: string | null
+          expected_date?: string | null
+          id?: string
+          notes?: string | null
+          po_number?: number
+          status?: string
+          supplier_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "purchase_orders_supplier_id_fkey"
+            columns: ["supplier_id"]
+            isOneToOne: false
+            referencedRelation: "suppliers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      registers: {
+        Row: {
+          active: boolean
+          created_at: string
+          id: string
+          location: string | null
+          name: string
+          printer_width: number
+          receipt_header: string | null
+        }
+        Insert: {
+          active?: boolean
+          created_at?: string
+          id?: string
+          location?: string | null
+          name: string
+          printer_width?: number
+          receipt_header?: string | null
+        }
+        Update: {
+          active?: boolean
+          created_at?: string
+          id?: string
+          location?: string | null
+          name?: string
+          printer_width?: number
+          receipt_header?: string | null
+        }
+        Relationships: []
+      }
+      role_adjustment_limits: {
+        Row: {
+          max_units: number
+          role: Database["public"]["Enums"]["app_role"]
+        }
+        Insert: {
+          max_units: number
+          role: Database["public"]["Enums"]["app_role"]
+        }
+        Update: {
+          max_units?: number
+          role?: Database["public"]["Enums"]["app_role"]
+        }
+        Relationships: []
+      }
+      role_discount_limits: {
+        Row: {
+          max_percent: number
+          role: Database["public"]["Enums"]["app_role"]
+        }
+        Insert: {
+          max_percent: number
+          role: Database["public"]["Enums"]["app_role"]
+        }
+        Update: {
+          max_percent?: number
+          role?: Database["public"]["Enums"]["app_role"]
+        }
+        Relationships: []
+      }
+      sale_items: {
+        Row: {
+          created_at: string
+          discount_amount: number
+          discount_reason: string | null
+          discount_type: string | null
+          discount_value: number
+          id: string
+          line_total: number
+          original_item_id: string | null
+          product_id: string
+          promotion_discount: number
+          promotion_id: string | null
+          quantity: number
+          return_condition: string | null
+          sale_id: string
+          subtotal: number
+          tax_amount: number
+          tax_rate: number
+          unit_price: number
+        }
+        Insert: {
+          created_at?: string
+          discount_amount?: number
+          discount_reason?: string | null
+          discount_type?: string | null
+          discount_value?: number
+          id?: string
+          line_total?: number
+          original_item_id?: string | null
+          product_id: string
+          promotion_discount?: number
+          promotion_id?: string | null
+          quantity: number
+          return_condition?: string | null
+          sale_id: string
+          subtotal: number
+          tax_amount?: number
+          tax_rate?: number
+          unit_price: number
+        }
+        Update: {
+          created_at?: string
+          discount_amount?: number
+          discount_reason?: string | null
+          discount_type?: string | null
+          discount_value?: number
+          id?: string
+          line_total?: number
+          original_item_id?: string | null
+          product_id?: string
+          promotion_discount?: number
+          promotion_id?: string | null
+          quantity?: number
+          return_condition?: string | null
+          sale_id?: string
+          subtotal?: number
+          tax_amount?: number
+          tax_rate?: number
+          unit_price?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sale_items_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sale_items_sale_id_fkey"
+            columns: ["sale_id"]
+            isOneToOne: false
+            referencedRelation: "sales"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sale_items_promotion_id_fkey"
+            columns: ["promotion_id"]
+            isOneToOne: false
+            referencedRelation: "promotions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sale_items_original_item_id_fkey"
+            columns: ["original_item_id"]
+            isOneToOne: false
+            referencedRelation: "sale_items"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      sale_payments: {
+        Row: {
+          amount: number
+          change_due: number
+          created_at: string
+          id: string
+          method: string
+          sale_id: string
+          tendered: number | null
+        }
+        Insert: {
+          amount: number
+          change_due?: number
+          created_at?: string
+          id?: string
+          method: string
+          sale_id: string
+          tendered?: number | null
+        }
+        Update: {
+          amount?: number
+          change_due?: number
+          created_at?: string
+          id?: string
+          method?: string
+          sale_id?: string
+          tendered?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sale_payments_sale_id_fkey"
+            columns: ["sale_id"]
+            isOneToOne: false
+            referencedRelation: "sales"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      sales: {
+        Row: {
+          cashier_id: string
+          created_at: string
+          discount_amount: number
+          discount_reason: string | null
+          discount_type: string | null
+          discount_value: number
+          gross_amount: number
+          id: string
+          original_sale_id: string | null
+          payment_method: string
+          prices_include_tax: boolean
+          register_id: string | null
+          return_reason: string | null
+          sale_type: string
+          shift_id: string | null
+          status: string
+          tax_amount: number
+          total_amount: number
+          void_reason: string | null
+          voided_at: string | null
+          voided_by: string | null
+        }
+        Insert: {
+          cashier_id: string
+          created_at?: string
+          discount_amount?: number
+          discount_reason?: string | null
+          discount_type?: string | null
+          discount_value?: number
+          gross_amount?: number
+          id?: string
+          original_sale_id?: string | null
           payment_method: string
+          prices_include_tax?: boolean
+          register_id?: string | null
+          return_reason?: string | null
+          sale_type?: string
+          shift_id?: string | null
           status?: string
+          tax_amount?: number
           total_amount: number
+          void_reason?: string | null
+          voided_at?: string | null
+          voided_by?: string | null
         }
         Update: {
           cashier_id?: string
           created_at?: string
+          discount_amount?: number
+          discount_reason?: string | null
+          discount_type?: string | null
+          discount_value?: number
+          gross_amount?: number
           id?: string
+          original_sale_id?: string | null
           payment_method?: string
+          prices_include_tax?: boolean
+          register_id?: string | null
+          return_reason?: string | null
+          sale_type?: string
+          shift_id?: string | null
           status?: string
+          tax_amount?: number
           total_amount?: number
+          void_reason?: string | null
+          voided_at?: string | null
+          voided_by?: string | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "sales_original_sale_id_fkey"
+            columns: ["original_sale_id"]
+            isOneToOne: false
+            referencedRelation: "sales"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sales_shift_id_fkey"
+            columns: ["shift_id"]
+            isOneToOne: false
+            referencedRelation: "shifts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sales_register_id_fkey"
+            columns: ["register_id"]
+            isOneToOne: false
+            referencedRelation: "registers"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       shifts: {
         Row: {
+          cash_count: Json | null
+          cash_variance: number | null
           cashier_id: string
           created_at: string
           end_time: string | null
           ending_cash: number | null
+          expected_cash: number | null
           id: string
           notes: string | null
+          register_id: string
           start_time: string
           starting_cash: number
           status: string
           total_sales: number | null
+          void_reason: string | null
+          voided_at: string | null
+          voided_by: string | null
+          z_number: number | null
         }
         Insert: {
+          cash_count?: Json | null
+          cash_variance?: number | null
           cashier_id: string
           created_at?: string
           end_time?: string | null
           ending_cash?: number | null
+          expected_cash?: number | null
           id?: string
           notes?: string | null
+          register_id: string
           start_time: string
           starting_cash: number
           status?: string
           total_sales?: number | null
+          void_reason?: string | null
+          voided_at?: string | null
+          voided_by?: string | null
+          z_number?: number | null
         }
         Update: {
+          cash_count?: Json | null
+          cash_variance?: number | null
           cashier_id?: string
           created_at?: string
           end_time?: string | null
           ending_cash?: number | null
+          expected_cash?: number | null
           id?: string
           notes?: string | null
+          register_id?: string
           start_time?: string
           starting_cash?: number
           status?: string
           total_sales?: number | null
+          void_reason?: string | null
+          voided_at?: string | null
+          voided_by?: string | null
+          z_number?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "shifts_register_id_fkey"
+            columns: ["register_id"]
+            isOneToOne: false
+            referencedRelation: "registers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      staff_audit_log: {
+        Row: {
+          action: string
+          actor_id: string | null
+          created_at: string
+          details: Json
+          id: string
+          role: Database["public"]["Enums"]["app_role"] | null
+          target_user_id: string
+        }
+        Insert: {
+          action: string
+          actor_id?: string | null
+          created_at?: string
+          details?: Json
+          id?: string
+          role?: Database["public"]["Enums"]["app_role"] | null
+          target_user_id: string
+        }
+        Update: {
+          action?: string
+          actor_id?: string | null
+          created_at?: string
+          details?: Json
+          id?: string
+          role?: Database["public"]["Enums"]["app_role"] | null
+          target_user_id?: string
+        }
+        Relationships: []
+      }
+      stock_movements: {
+        Row: {
+          balance_after: number
+          created_at: string
+          created_by: string | null
+          id: string
+          movement_type: string
+          notes: string | null
+          product_id: string
+          quantity: number
+          reason: string | null
+          reference_id: string | null
+        }
+        Insert: {
+          balance_after?: number
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          movement_type: string
+          notes?: string | null
+          product_id: string
+          quantity: number
+          reason?: string | null
+          reference_id?: string | null
+        }
+        Update: {
+          balance_after?: number
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          movement_type?: string
+          notes?: string | null
+          product_id?: string
+          quantity?: number
+          reason?: string | null
+          reference_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stock_movements_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      store_settings: {
+        Row: {
+          allow_backorders: boolean
+          cash_variance_threshold: number
+          cost_method: string
+          id: boolean
+          pos_auto_lock_minutes: number
+          ppn_rate: number
+          prices_include_tax: boolean
+          timezone: string
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          allow_backorders?: boolean
+          cash_variance_threshold?: number
+          cost_method?: string
+          id?: boolean
+          pos_auto_lock_minutes?: number
+          ppn_rate?: number
+          prices_include_tax?: boolean
+          timezone?: string
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          allow_backorders?: boolean
+          cash_variance_threshold?: number
+          cost_method?: string
+          id?: boolean
+          pos_auto_lock_minutes?: number
+          ppn_rate?: number
+          prices_include_tax?: boolean
+          timezone?: string
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Relationships: []
+      }
+      suppliers: {
+        Row: {
+          active: boolean
+          address: string | null
+          contact_name: string | null
+          created_at: string
+          email: string | null
+          id: string
+          lead_time_days: number | null
+          name: string
+          notes: string | null
+          payment_terms: string | null
+          phone: string | null
+          updated_at: string
+        }
+        Insert: {
+          active?: boolean
+          address?: string | null
+          contact_name?: string | null
+          created_at?: string
+          email?: string | null
+          id?: string
+          lead_time_days?: number | null
+          name: string
+          notes?: string | null
+          payment_terms?: string | null
+          phone?: string | null
+          updated_at?: string
+        }
+        Update: {
+          active?: boolean
+          address?: string | null
+          contact_name?: string | null
+          created_at?: string
+          email?: string | null
+          id?: string
+          lead_time_days?: number | null
+          name?: string
+          notes?: string | null
+          payment_terms?: string | null
+          phone?: string | null
+          updated_at?: string
         }
         Relationships: []
       }
@@ -212,9 +1154,178 @@ export type Database = {
       }
     }
     Views: {
-      [_ in never]: never
+      shift_payment_totals: {
+        Row: {
+          amount: number | null
+          method: string | null
+          shift_id: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sales_shift_id_fkey"
+            columns: ["shift_id"]
+            isOneToOne: false
+            referencedRelation: "shifts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Functions: {
+      adjust_stock: {
+        Args: {
+          product_id: string
+          quantity: number
+          reason: string
+          notes?: string
+        }
+        Returns: Database["public"]["Tables"]["stock_movements"]["Row"]
+      }
+      adjustment_limit: {
+        Args: {
+          user_id: string
+        }
+        Returns: number
+      }
+      apply_stock_movement: {
+        Args: Record<PropertyKey, never>
+        Returns: unknown
+      }
+      approve_override: {
+        Args: {
+          approver_id: string
+          pin: string
+          action: string
+          details?: Json
+          reason?: string
+        }
+        Returns: Database["public"]["Tables"]["manager_overrides"]["Row"]
+      }
+      assign_z_number: {
+        Args: Record<PropertyKey, never>
+        Returns: unknown
+      }
+      can_view_shift: {
+        Args: {
+          shift_id: string
+        }
+        Returns: boolean
+      }
+      check_shift_register: {
+        Args: {
+          shift_id: string
+          register_id: string
+        }
+        Returns: undefined
+      }
+      close_purchase_order: {
+        Args: {
+          purchase_order_id: string
+          reason: string
+        }
+        Returns: undefined
+      }
+      close_shift: {
+        Args: {
+          cash_count?: Json
+          ending_cash: number
+          notes?: string
+          shift_id: string
+        }
+        Returns: Database["public"]["Tables"]["shifts"]["Row"]
+      }
+      complete_sale: {
+        Args: {
+          discount?: Json
+          items: Json
+          payments: Json
+          register_id?: string
+        }
+        Returns: string
+      }
+      create_product: {
+        Args: {
+          sku: string
+          name: string
+          price: number
+          description?: string
+          cost?: number
+          category?: string
+          tax_class?: string
+          barcodes?: string[]
+          opening_stock?: number
+        }
+        Returns: Database["public"]["Tables"]["products"]["Row"]
+      }
+      create_purchase_order: {
+        Args: {
+          supplier_id: string
+          lines: Json
+          expected_date?: string
+          notes?: string
+        }
+        Returns: string
+      }
+      current_shift_id: {
+        Args: {
+          user_id: string
+          register_id?: string
+        }
+        Returns: string
+      }
+      discount_amount: {
+        Args: {
+          base: number
+          discount_type: string
+          discount_value: number
+        }
+        Returns: number
+      }
+      discount_limit: {
+        Args: {
+          user_id: string
+        }
+        Returns: number
+      }
+      expected_cash: {
+        Args: {
+          shift_id: string
+        }
+        Returns: number
+      }
+      expire_parked_carts: {
+        Args: Record<PropertyKey, never>
+        Returns: unknown
+      }
+      force_close_shift: {
+        Args: {
+          reason: string
+          shift_id: string
+        }
+        Returns: Database["public"]["Tables"]["shifts"]["Row"]
+      }
+      grant_role: {
+        Args: {
+          user_id: string
+          role: Database["public"]["Enums"]["app_role"]
+        }
+        Returns: undefined
+      }
+      guard_stock_quantity: {
+        Args: Record<PropertyKey, never>
+        Returns: unknown
+      }
+      has_any_role: {
+        Args: {
+          user_id: string
+          roles: Database["public"]["Enums"]["app_role"][]
+        }
+        Returns: boolean
+      }
+      has_pin: {
+        Args: Record<PropertyKey, never>
+        Returns: boolean
+      }
       has_role: {
         Args: {
           user_id: string
@@ -222,6 +1333,242 @@ export type Database = {
         }
         Returns: boolean
       }
+      list_staff: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          user_id: string
+          email: string
+          full_name: string
+          roles: Database["public"]["Enums"]["app_role"][]
+          active: boolean
+          last_sign_in_at: string
+          invited_at: string
+          created_at: string
+        }[]
+      }
+      lock_pos: {
+        Args: Record<PropertyKey, never>
+        Returns: undefined
+      }
+      open_shift: {
+        Args: {
+          register_id: string
+          starting_cash: number
+        }
+        Returns: Database["public"]["Tables"]["shifts"]["Row"]
+      }
+      override_approvers: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          user_id: string
+          full_name: string
+        }[]
+      }
+      pos_cashier_id: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      pos_cashiers: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          user_id: string
+          full_name: string
+        }[]
+      }
+      process_return: {
+        Args: {
+          items: Json
+          reason: string
+          sale_id: string
+          register_id?: string
+        }
+        Returns: string
+      }
+      promotion_discount: {
+        Args: {
+          at_time?: string
+          product_id: string
+          promotion_id: string
+          quantity: number
+          unit_price: number
+        }
+        Returns: number
+      }
+      receive_purchase_order: {
+        Args: {
+          purchase_order_id: string
+          lines: Json
+          supplier_reference?: string
+          notes?: string
+        }
+        Returns: string
+      }
+      record_supplier_cost: {
+        Args: Record<PropertyKey, never>
+        Returns: unknown
+      }
+      revoke_role: {
+        Args: {
+          user_id: string
+          role: Database["public"]["Enums"]["app_role"]
+        }
+        Returns: undefined
+      }
+      set_pin: {
+        Args: {
+          pin: string
+        }
+        Returns: undefined
+      }
+      set_sale_cashier: {
+        Args: Record<PropertyKey, never>
+        Returns: unknown
+      }
+      set_sale_register: {
+        Args: Record<PropertyKey, never>
+        Returns: unknown
+      }
+      set_staff_active: {
+        Args: {
+          user_id: string
+          active: boolean
+          reason?: string
+        }
+        Returns: undefined
+      }
+      set_stock_count: {
+        Args: {
+          product_id: string
+          counted: number
+          notes?: string
+        }
+        Returns: Database["public"]["Tables"]["stock_movements"]["Row"]
+      }
+      shift_report: {
+        Args: {
+          shift_id: string
+        }
+        Returns: Json
+      }
+      stock_adjustment_report: {
+        Args: {
+          from_date: string
+          to_date: string
+        }
+        Returns: {
+          id: string
+          product_id: string
+          product_name: string
+          sku: string
+          movement_type: string
+          reason: string
+          quantity: number
+          notes: string
+          created_by_name: string
+          created_at: string
+        }[]
+      }
+      stock_history: {
+        Args: {
+          product_id: string
+        }
+        Returns: {
+          id: string
+          movement_type: string
+          reason: string
+          quantity: number
+          balance_after: number
+          reference_id: string
+          notes: string
+          created_by: string
+          created_by_name: string
+          created_at: string
+        }[]
+      }
+      stock_valuation: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          category: string
+          products: number
+          units: number
+          at_cost: number
+          at_retail: number
+          costed_retail: number
+          uncosted: number
+        }[]
+      }
+      tax_report: {
+        Args: {
+          from_date: string
+          to_date: string
+          for_register_id?: string
+        }
+        Returns: {
+          day: string
+          tax_rate: number
+          register_id: string
+          taxable: number
+          tax: number
+          exempt: number
+        }[]
+      }
+      unlock_pos: {
+        Args: {
+          cashier_id: string
+          pin: string
+        }
+        Returns: Database["public"]["Tables"]["pos_unlocks"]["Row"]
+      }
+      update_product: {
+        Args: {
+          product_id: string
+          sku: string
+          name: string
+          price: number
+          description?: string
+          cost?: number
+          category?: string
+          tax_class?: string
+          barcodes?: string[]
+        }
+        Returns: Database["public"]["Tables"]["products"]["Row"]
+      }
+      update_product_cost: {
+        Args: Record<PropertyKey, never>
+        Returns: unknown
+      }
+      valid_override: {
+        Args: {
+          override_id: string
+          action: string
+          target: string
+          approved?: Json
+        }
+        Returns: boolean
+      }
+      verify_pin: {
+        Args: {
+          user_id: string
+          pin: string
+        }
+        Returns: boolean
+      }
+      void_sale: {
+        Args: {
+          sale_id: string
+          reason: string
+          override_id?: string
+        }
+        Returns: undefined
+      }
+      void_shift: {
+        Args: {
+          shift_id: string
+          reason: string
+          override_id?: string
+        }
+        Returns: undefined
+      }
     }
     Enums: {
       app_role: "store_owner" | "warehouse_admin" | "shopkeeper"
@@ -0,0 +1,23 @@
+let audioContext: AudioContext | null = null;
+
+/** Short audible cue for the till: a high blip on success, a low buzz on error. */
+export function beep(kind: "success" | "error" = "success") {
+  try {
+    audioContext ??= new AudioContext();
+    const oscillator = audioContext.createOscillator();
+    const gain = audioContext.createGain();
+
+    oscillator.type = kind === "success" ? "sine" : "square";
+    oscillator.frequency.value = kind === "success" ? 1200 : 220;
+    gain.gain.value = 0.1;
+
+    oscillator.connect(gain);
+    gain.connect(audioContext.destination);
+
+    const duration = kind === "success" ? 0.08 : 0.3;
+    oscillator.start();
+    oscillator.stop(audioContext.currentTime + duration);
+  } catch (error) {
+    console.error("Unable to play beep:", error);
+  }
+}
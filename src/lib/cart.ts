@@ -0,0 +1,127 @@
+export type DiscountType = "percent" | "fixed";
+
+export interface Discount {
+  type: DiscountType;
+  value: number;
+  reason: string;
+  /** Store owner approval for a discount over the cashier's limit. */
+  overrideId?: string;
+}
+
+export interface PricedLine {
+  price: number;
+  quantity: number;
+  /** Amount already taken off by an automatic promotion. */
+  promotionDiscount?: number;
+  discount?: Discount | null;
+  /** PPN rate in percent; 0 for exempt products. */
+  taxRate?: number;
+}
+
+export interface TaxSummaryLine {
+  rate: number;
+  /** Amount the tax was charged on, excluding the tax itself. */
+  taxable: number;
+  tax: number;
+}
+
+export interface CartTotals {
+  gross: number;
+  promotions: number;
+  lineDiscounts: number;
+  basketDiscount: number;
+  tax: number;
+  taxSummary: TaxSummaryLine[];
+  total: number;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/** Mirrors `public.discount_amount` so the cart shows what checkout will charge. */
+export function discountAmount(base: number, discount?: Discount | null) {
+  if (!discount || base <= 0) return 0;
+  const value = Math.max(discount.value, 0);
+  if (discount.type === "percent") {
+    return round((base * Math.min(value, 100)) / 100);
+  }
+  return Math.min(value, base);
+}
+
+export function discountPercent(base: number, amount: number) {
+  return base > 0 ? (amount / base) * 100 : 0;
+}
+
+export function lineGross(line: PricedLine) {
+  return line.quantity * line.price;
+}
+
+/** What a manual line discount is taken from: the line after its promotion. */
+export function lineDiscountBase(line: PricedLine) {
+  return lineGross(line) - (line.promotionDiscount ?? 0);
+}
+
+export function lineSubtotal(line: PricedLine) {
+  const base = lineDiscountBase(line);
+  return base - discountAmount(base, line.discount);
+}
+
+/**
+ * Totals the cart the same way `complete_sale` does: the basket discount is
+ * spread over the lines by their net (the last line takes the rounding
+ * remainder) and PPN is computed per line on what is left.
+ */
+export function cartTotals(
+  lines: PricedLine[],
+  basketDiscount?: Discount | null,
+  pricesIncludeTax = true
+): CartTotals {
+  const gross = lines.reduce((sum, line) => sum + lineGross(line), 0);
+  const promotions = lines.reduce((sum, line) => sum + (line.promotionDiscount ?? 0), 0);
+  const netBeforeBasket = lines.reduce((sum, line) => sum + lineSubtotal(line), 0);
+  const basket = discountAmount(netBeforeBasket, basketDiscount);
+
+  let basketLeft = basket;
+  let tax = 0;
+  let total = 0;
+  const byRate = new Map<number, TaxSummaryLine>();
+
+  lines.forEach((line, index) => {
+    const net = lineSubtotal(line);
+    let share = 0;
+    if (index === lines.length - 1) {
+      share = basketLeft;
+    } else if (netBeforeBasket > 0) {
+      share = round((basket * net) / netBeforeBasket);
+    }
+    basketLeft = round(basketLeft - share);
+
+    const charged = net - share;
+    const rate = line.taxRate ?? 0;
+    const lineTax = pricesIncludeTax
+      ? round((charged * rate) / (100 + rate))
+      : round((charged * rate) / 100);
+    const taxable = pricesIncludeTax ? charged - lineTax : charged;
+
+    tax += lineTax;
+    total += taxable + lineTax;
+
+    const summary = byRate.get(rate) ?? { rate, taxable: 0, tax: 0 };
+    byRate.set(rate, { rate, taxable: summary.taxable + taxable, tax: summary.tax + lineTax });
+  });
+
+  return {
+    gross,
+    promotions,
+    lineDiscounts: gross - promotions - netBeforeBasket,
+    basketDiscount: basket,
+    tax: round(tax),
+    taxSummary: [...byRate.values()].sort((a, b) => b.rate - a.rate),
+    total: round(total),
+  };
+}
+
+export function describeDiscount(discount: Discount) {
+  return discount.type === "percent"
+    ? `${discount.value}%`
+    : `Rp${discount.value.toFixed(2)}`;
+}
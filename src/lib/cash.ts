@@ -0,0 +1,45 @@
+/** Rupiah notes and coins in circulation, largest first. */
+export const DENOMINATIONS = [100000, 50000, 20000, 10000, 5000, 2000, 1000, 500, 200, 100];
+
+/** Pieces counted per denomination, keyed by the denomination's value. */
+export type CashCount = Record<string, number>;
+
+export function cashCountTotal(count: CashCount) {
+  return DENOMINATIONS.reduce((sum, value) => sum + value * (count[value] ?? 0), 0);
+}
+
+export function formatDenomination(value: number) {
+  return `Rp${value.toLocaleString("id-ID")}`;
+}
+
+/** Signed rupiah amount, e.g. "+Rp5000.00" or "-Rp5000.00". */
+export function formatSignedAmount(amount: number) {
+  if (amount === 0) return "Rp0.00";
+  return `${amount > 0 ? "+" : "-"}Rp${Math.abs(amount).toFixed(2)}`;
+}
+
+export type CashMovementType = "drop" | "pay_in" | "payout";
+
+export const CASH_MOVEMENT_TYPES: { value: CashMovementType; label: string; description: string }[] = [
+  { value: "drop", label: "Cash Drop", description: "Excess cash moved to the safe" },
+  { value: "pay_in", label: "Pay-in", description: "Cash added to the drawer, e.g. extra change" },
+  { value: "payout", label: "Payout", description: "Petty cash paid out, e.g. to a supplier" },
+];
+
+export interface CashMovement {
+  id: string;
+  movement_type: string;
+  amount: number;
+  reason: string;
+  receipt_path: string | null;
+  created_at: string;
+}
+
+export function cashMovementLabel(type: string) {
+  return CASH_MOVEMENT_TYPES.find(t => t.value === type)?.label ?? type;
+}
+
+/** Effect on the drawer: pay-ins add cash, drops and payouts take it out. */
+export function signedMovementAmount(movement: Pick<CashMovement, "movement_type" | "amount">) {
+  return movement.movement_type === "pay_in" ? movement.amount : -movement.amount;
+}
@@ -0,0 +1,28 @@
+export type CostMethod = "weighted_average" | "last_cost";
+
+export const COST_METHODS: { value: CostMethod; label: string; description: string }[] = [
+  {
+    value: "weighted_average",
+    label: "Weighted average",
+    description: "Blend each delivery's cost with the stock already on hand",
+  },
+  {
+    value: "last_cost",
+    label: "Last cost",
+    description: "Use the price paid for the most recent delivery",
+  },
+];
+
+/** Gross margin as a percentage of the selling price, or null without a cost. */
+export function marginPercent(price: number, cost: number | null) {
+  if (cost === null || price <= 0) return null;
+  return ((price - cost) / price) * 100;
+}
+
+export function formatMargin(margin: number | null) {
+  return margin === null ? "—" : `${margin.toFixed(1)}%`;
+}
+
+export function isBelowCost(price: number, cost: number | null) {
+  return cost !== null && price < cost;
+}
@@ -0,0 +1,27 @@
+import { Json } from "@/integrations/supabase/types";
+
+export type JsonObject = { [key: string]: Json | undefined };
+
+/** Narrows a JSON value from the database, failing loudly on anything but an object. */
+export function jsonObject(value: Json | undefined, what: string): JsonObject {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    throw new Error(`Unexpected ${what} data`);
+  }
+  return value;
+}
+
+export function jsonArray(value: Json | undefined, what: string): Json[] {
+  if (!Array.isArray(value)) {
+    throw new Error(`Unexpected ${what} data`);
+  }
+  return value;
+}
+
+export function jsonText(value: Json | undefined) {
+  return typeof value === "string" ? value : null;
+}
+
+/** Numeric columns can arrive as numbers or strings. */
+export function jsonNumber(value: Json | undefined) {
+  return value === null || value === undefined ? null : Number(value);
+}
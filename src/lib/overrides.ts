@@ -0,0 +1,24 @@
+export type OverrideAction = "price_override" | "discount" | "void_sale" | "void_shift" | "no_sale";
+
+export const OVERRIDE_ACTION_LABELS: Record<OverrideAction, string> = {
+  price_override: "Price override",
+  discount: "Discount over limit",
+  void_sale: "Void sale",
+  void_shift: "Void shift",
+  no_sale: "No-sale drawer open",
+};
+
+export interface ManagerOverride {
+  id: string;
+  action: string;
+  details: unknown;
+  reason: string | null;
+  requested_by: string;
+  approved_by: string;
+  created_at: string;
+}
+
+export interface OverrideApprover {
+  user_id: string;
+  full_name: string;
+}
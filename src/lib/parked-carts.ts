@@ -0,0 +1,54 @@
+import { Json, Tables } from "@/integrations/supabase/types";
+import { Discount } from "@/lib/cart";
+import { jsonArray, jsonNumber, jsonObject, jsonText } from "@/lib/json";
+
+export interface ParkedCartItem {
+  product_id: string;
+  quantity: number;
+  discount: Discount | null;
+}
+
+export interface ParkedCart {
+  id: string;
+  label: string;
+  cashier_name: string | null;
+  items: ParkedCartItem[];
+  discount: Discount | null;
+  total_amount: number;
+  created_at: string;
+}
+
+function parseDiscount(value: Json | undefined): Discount | null {
+  if (value === null || value === undefined) return null;
+  const discount = jsonObject(value, "parked cart");
+  const type = jsonText(discount.type);
+  if (type !== "percent" && type !== "fixed") {
+    throw new Error("Unexpected parked cart data");
+  }
+  return {
+    type,
+    value: jsonNumber(discount.value) ?? 0,
+    reason: jsonText(discount.reason) ?? "",
+    overrideId: jsonText(discount.overrideId) ?? undefined,
+  };
+}
+
+/** Checks the JSON columns of a `parked_carts` row before the cart is recalled. */
+export function parseParkedCart(row: Tables<"parked_carts">): ParkedCart {
+  return {
+    id: row.id,
+    label: row.label,
+    cashier_name: row.cashier_name,
+    items: jsonArray(row.items, "parked cart").map(value => {
+      const item = jsonObject(value, "parked cart");
+      return {
+        product_id: jsonText(item.product_id) ?? "",
+        quantity: jsonNumber(item.quantity) ?? 0,
+        discount: parseDiscount(item.discount),
+      };
+    }),
+    discount: parseDiscount(row.discount),
+    total_amount: row.total_amount,
+    created_at: row.created_at,
+  };
+}
@@ -0,0 +1,77 @@
+export type PaymentMethod = "cash" | "debit" | "qris" | "ewallet";
+
+export const PAYMENT_METHODS: { value: PaymentMethod; label: string }[] = [
+  { value: "cash", label: "Cash" },
+  { value: "debit", label: "Debit" },
+  { value: "qris", label: "QRIS" },
+  { value: "ewallet", label: "E-Wallet" },
+];
+
+export function paymentMethodLabel(method: string) {
+  if (method === "split") return "Split";
+  return PAYMENT_METHODS.find(m => m.value === method)?.label ?? method;
+}
+
+/** A tender as entered by the cashier: the amount the customer handed over. */
+export interface TenderInput {
+  method: PaymentMethod;
+  received: number;
+}
+
+/** A tender as recorded against the sale, in the shape `complete_sale` expects. */
+export interface SalePayment {
+  method: PaymentMethod;
+  amount: number;
+  tendered?: number;
+}
+
+export interface TenderSummary {
+  payments: SalePayment[];
+  paid: number;
+  remaining: number;
+  change: number;
+  error: string | null;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Applies the entered tenders to the sale total. Non-cash tenders are charged
+ * exactly, so only cash may exceed what is owed; the excess becomes change.
+ */
+export function summarizeTenders(total: number, tenders: TenderInput[]): TenderSummary {
+  const entered = tenders.filter(t => t.received > 0);
+  const cashReceived = entered
+    .filter(t => t.method === "cash")
+    .reduce((sum, t) => sum + t.received, 0);
+  const nonCash = entered
+    .filter(t => t.method !== "cash")
+    .reduce((sum, t) => sum + t.received, 0);
+
+  const paid = round(cashReceived + nonCash);
+  const remaining = round(Math.max(total - paid, 0));
+  const change = round(Math.max(paid - total, 0));
+
+  if (round(nonCash) > round(total)) {
+    return { payments: [], paid, remaining, change: 0, error: "Pembayaran non-tunai melebihi total" };
+  }
+
+  // Change comes out of the cash tenders, last one first.
+  let changeLeft = change;
+  const payments: SalePayment[] = [];
+  for (let i = entered.length - 1; i >= 0; i--) {
+    const tender = entered[i];
+    if (tender.method !== "cash") {
+      payments.unshift({ method: tender.method, amount: round(tender.received) });
+      continue;
+    }
+    const fromThis = Math.min(changeLeft, tender.received);
+    changeLeft = round(changeLeft - fromThis);
+    const amount = round(tender.received - fromThis);
+    if (amount > 0) {
+      payments.unshift({ method: "cash", amount, tendered: round(tender.received) });
+    }
+  }
+
+  return { payments, paid, remaining, change, error: null };
+}
@@ -0,0 +1,36 @@
+/** Same rule as `public.set_pin`. */
+export function isValidPin(pin: string) {
+  return /^[0-9]{4,6}$/.test(pin);
+}
+
+/** Who is unlocked on a shift's till; a null cashier means it is locked. */
+export interface PosUnlock {
+  shift_id: string;
+  cashier_id: string | null;
+  cashier_name: string | null;
+}
+
+export interface PosCashier {
+  user_id: string;
+  full_name: string;
+}
+
+/** Calls `onIdle` once no pointer or key input has happened for `minutes`. */
+export function watchIdle(minutes: number, onIdle: () => void) {
+  if (minutes <= 0) return () => {};
+
+  let timer: ReturnType<typeof setTimeout>;
+  const reset = () => {
+    clearTimeout(timer);
+    timer = setTimeout(onIdle, minutes * 60 * 1000);
+  };
+
+  const events = ["pointerdown", "keydown", "touchstart"];
+  events.forEach(event => window.addEventListener(event, reset));
+  reset();
+
+  return () => {
+    clearTimeout(timer);
+    events.forEach(event => window.removeEventListener(event, reset));
+  };
+}
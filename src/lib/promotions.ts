@@ -0,0 +1,140 @@
+export type PromoType = "buy_x_get_y" | "multi_buy" | "percent_off";
+
+export interface Promotion {
+  id: string;
+  name: string;
+  promo_type: string;
+  product_id: string | null;
+  category: string | null;
+  buy_quantity: number | null;
+  get_quantity: number | null;
+  bundle_quantity: number | null;
+  bundle_price: number | null;
+  percent: number | null;
+  days_of_week: number[] | null;
+  starts_at: string | null;
+  ends_at: string | null;
+  active: boolean;
+}
+
+export interface PromotableLine {
+  id: string;
+  category: string | null;
+  price: number;
+  quantity: number;
+}
+
+export interface AppliedPromotion {
+  id: string;
+  name: string;
+  amount: number;
+}
+
+export const PROMO_TYPES: { value: PromoType; label: string }[] = [
+  { value: "buy_x_get_y", label: "Buy X get Y free" },
+  { value: "multi_buy", label: "Multi-buy (N for Rp)" },
+  { value: "percent_off", label: "Percent off" },
+];
+
+export const DAYS_OF_WEEK = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+export const DEFAULT_STORE_TIME_ZONE = "Asia/Jakarta";
+
+const storeClock = (at: Date, timeZone: string) =>
+  Object.fromEntries(
+    new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      weekday: "short",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+    }).formatToParts(at).map(part => [part.type, part.value])
+  );
+
+/** Day of week (0 = Sunday) on the store's clock, as `public.promotion_discount` sees it. */
+export function storeDayOfWeek(at: Date, timeZone: string) {
+  return DAYS_OF_WEEK.indexOf(storeClock(at, timeZone).weekday);
+}
+
+/** `at` as a datetime-local value ("yyyy-MM-ddTHH:mm") on the store's clock. */
+export function toStoreLocalInput(at: Date, timeZone: string) {
+  const { year, month, day, hour, minute } = storeClock(at, timeZone);
+  return `${year}-${month}-${day}T${hour}:${minute}`;
+}
+
+/** The moment a datetime-local value names on the store's clock. */
+export function fromStoreLocalInput(value: string, timeZone: string) {
+  // Read the value as if it were UTC, then take off the store's offset from UTC.
+  const asUtc = new Date(`${value.slice(0, 16)}:00Z`);
+  const offset = new Date(`${toStoreLocalInput(asUtc, timeZone)}:00Z`).getTime() - asUtc.getTime();
+  return new Date(asUtc.getTime() - offset);
+}
+
+export function isPromotionActive(promotion: Promotion, at: Date, timeZone: string) {
+  if (!promotion.active) return false;
+  if (promotion.starts_at && at < new Date(promotion.starts_at)) return false;
+  if (promotion.ends_at && at >= new Date(promotion.ends_at)) return false;
+  if (promotion.days_of_week && !promotion.days_of_week.includes(storeDayOfWeek(at, timeZone))) return false;
+  return true;
+}
+
+export function promotionApplies(promotion: Promotion, line: PromotableLine) {
+  if (promotion.product_id) return promotion.product_id === line.id;
+  return promotion.category !== null && promotion.category === line.category;
+}
+
+/** Mirrors `public.promotion_discount`, which checkout uses to re-price the line. */
+export function promotionDiscount(promotion: Promotion, line: PromotableLine) {
+  const { quantity, price } = line;
+  switch (promotion.promo_type) {
+    case "buy_x_get_y": {
+      const groupSize = (promotion.buy_quantity ?? 0) + (promotion.get_quantity ?? 0);
+      if (groupSize <= 0) return 0;
+      return Math.floor(quantity / groupSize) * (promotion.get_quantity ?? 0) * price;
+    }
+    case "multi_buy": {
+      const bundleSize = promotion.bundle_quantity ?? 0;
+      if (bundleSize <= 0 || promotion.bundle_price === null) return 0;
+      const saving = bundleSize * price - promotion.bundle_price;
+      return Math.max(Math.floor(quantity / bundleSize) * saving, 0);
+    }
+    case "percent_off":
+      return Math.round(quantity * price * (promotion.percent ?? 0)) / 100;
+    default:
+      return 0;
+  }
+}
+
+/** The eligible promotion giving this line the largest discount, if any. */
+export function bestPromotion(
+  line: PromotableLine,
+  promotions: Promotion[],
+  timeZone: string,
+  at: Date = new Date()
+): AppliedPromotion | null {
+  let best: AppliedPromotion | null = null;
+  for (const promotion of promotions) {
+    if (!isPromotionActive(promotion, at, timeZone) || !promotionApplies(promotion, line)) continue;
+    const amount = promotionDiscount(promotion, line);
+    if (amount > 0 && (!best || amount > best.amount)) {
+      best = { id: promotion.id, name: promotion.name, amount };
+    }
+  }
+  return best;
+}
+
+export function describePromotion(promotion: Promotion) {
+  switch (promotion.promo_type) {
+    case "buy_x_get_y":
+      return `Buy ${promotion.buy_quantity} get ${promotion.get_quantity} free`;
+    case "multi_buy":
+      return `${promotion.bundle_quantity} for Rp${(promotion.bundle_price ?? 0).toFixed(2)}`;
+    case "percent_off":
+      return `${promotion.percent}% off`;
+    default:
+      return promotion.promo_type;
+  }
+}
@@ -0,0 +1,109 @@
+export type PurchaseOrderStatus =
+  | "ordered"
+  | "partially_received"
+  | "received"
+  | "closed"
+  | "cancelled";
+
+export const PURCHASE_ORDER_STATUS_LABELS: Record<PurchaseOrderStatus, string> = {
+  ordered: "Ordered",
+  partially_received: "Partially received",
+  received: "Received",
+  closed: "Closed short",
+  cancelled: "Cancelled",
+};
+
+export function purchaseOrderStatusLabel(status: string) {
+  return PURCHASE_ORDER_STATUS_LABELS[status as PurchaseOrderStatus] ?? status;
+}
+
+/** Orders that can still take deliveries. */
+export function isOpenPurchaseOrder(status: string) {
+  return status === "ordered" || status === "partially_received";
+}
+
+export interface Supplier {
+  id: string;
+  name: string;
+  contact_name: string | null;
+  phone: string | null;
+  email: string | null;
+  address: string | null;
+  payment_terms: string | null;
+  lead_time_days: number | null;
+  notes: string | null;
+  active: boolean;
+}
+
+/** A supplier's listing for one product; `last_cost` is per unit. */
+export interface ProductSupplier {
+  id: string;
+  product_id: string;
+  supplier_id: string;
+  supplier_sku: string | null;
+  pack_size: number;
+  last_cost: number | null;
+  last_cost_at: string | null;
+  preferred: boolean;
+}
+
+export function formatLeadTime(days: number | null) {
+  if (days === null) return "—";
+  return days === 1 ? "1 day" : `${days} days`;
+}
+
+export interface ProductOption {
+  id: string;
+  name: string;
+  sku: string;
+}
+
+export interface PurchaseOrderLine {
+  id: string;
+  product_id: string;
+  quantity_ordered: number;
+  quantity_received: number;
+  quantity_rejected: number;
+  unit_cost: number;
+  product: { name: string; sku: string };
+}
+
+export interface GoodsReceipt {
+  id: string;
+  received_at: string;
+  supplier_reference: string | null;
+  notes: string | null;
+  lines: {
+    id: string;
+    quantity_received: number;
+    quantity_rejected: number;
+    discrepancy_note: string | null;
+    product: { name: string };
+  }[];
+}
+
+export interface PurchaseOrder {
+  id: string;
+  po_number: number;
+  supplier_id: string;
+  status: string;
+  expected_date: string | null;
+  notes: string | null;
+  close_reason: string | null;
+  created_at: string;
+  supplier: { name: string };
+  lines: PurchaseOrderLine[];
+  receipts: GoodsReceipt[];
+}
+
+export function formatPoNumber(poNumber: number) {
+  return `PO-${poNumber}`;
+}
+
+export function outstandingQuantity(line: Pick<PurchaseOrderLine, "quantity_ordered" | "quantity_received">) {
+  return Math.max(line.quantity_ordered - line.quantity_received, 0);
+}
+
+export function purchaseOrderTotal(order: Pick<PurchaseOrder, "lines">) {
+  return order.lines.reduce((sum, line) => sum + line.quantity_ordered * line.unit_cost, 0);
+}
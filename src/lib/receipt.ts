@@ -0,0 +1,62 @@
+// Shared layout for everything printed on the thermal receipt printers.
+const thermalStyle = (widthMm: number) => `
+  body {
+    font-family: 'Courier New', monospace;
+    width: ${widthMm === 58 ? 210 : 300}px;
+    padding: 10px;
+    margin: 0;
+  }
+  .header {
+    text-align: center;
+    margin-bottom: 10px;
+  }
+  .divider {
+    border-top: 1px dashed #000;
+    margin: 10px 0;
+  }
+  .item {
+    display: flex;
+    justify-content: space-between;
+    margin: 5px 0;
+  }
+  .total {
+    font-weight: bold;
+    margin-top: 10px;
+  }
+  @media print {
+    body { width: ${widthMm}mm; }
+  }
+`;
+
+export const receiptDivider = `<div class="divider"></div>`;
+
+export function receiptLine(label: string, value: string) {
+  return `
+    <div class="item">
+      <span>${label}</span>
+      <span>${value}</span>
+    </div>
+  `;
+}
+
+/** Opens a print window with the thermal layout around `body` and prints it. */
+export function printThermal(body: string, widthMm = 80) {
+  const printWindow = window.open('', '', 'width=300,height=600');
+  if (!printWindow) return;
+
+  printWindow.document.write(`
+    <html>
+      <head>
+        <style>${thermalStyle(widthMm)}</style>
+      </head>
+      <body>
+        ${body}
+      </body>
+    </html>
+  `);
+
+  printWindow.document.close();
+  printWindow.focus();
+  printWindow.print();
+  printWindow.close();
+}
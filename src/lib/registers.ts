@@ -0,0 +1,25 @@
+export interface Register {
+  id: string;
+  name: string;
+  location: string | null;
+  receipt_header: string | null;
+  printer_width: number;
+  active: boolean;
+}
+
+export const PRINTER_WIDTHS = [58, 80];
+
+// Pairing is per browser: the till's device remembers which register it is.
+const PAIRED_REGISTER_KEY = "pos-register-id";
+
+export function getPairedRegisterId() {
+  return localStorage.getItem(PAIRED_REGISTER_KEY);
+}
+
+export function pairRegister(registerId: string) {
+  localStorage.setItem(PAIRED_REGISTER_KEY, registerId);
+}
+
+export function unpairRegister() {
+  localStorage.removeItem(PAIRED_REGISTER_KEY);
+}
@@ -0,0 +1,43 @@
+import { Enums } from "@/integrations/supabase/types";
+
+export type AppRole = Enums<"app_role">;
+
+export const ROLE_LABELS: Record<AppRole, string> = {
+  store_owner: "Store owner",
+  shopkeeper: "Shopkeeper",
+  warehouse_admin: "Warehouse admin",
+};
+
+export const APP_ROLES = Object.keys(ROLE_LABELS) as AppRole[];
+
+export type AppRoute =
+  | "pos"
+  | "sales"
+  | "shifts"
+  | "inventory"
+  | "purchasing"
+  | "promotions"
+  | "reports"
+  | "settings"
+  | "staff";
+
+/**
+ * Which roles may open each page. The route guards in `App.tsx` and the
+ * dashboard cards both read this; the RLS policies in the
+ * `role_policies` migration enforce the same split in the database.
+ */
+export const ROUTE_ROLES: Record<AppRoute, AppRole[]> = {
+  pos: ["store_owner", "shopkeeper"],
+  sales: ["store_owner", "shopkeeper"],
+  shifts: ["store_owner", "shopkeeper"],
+  inventory: ["store_owner", "warehouse_admin", "shopkeeper"],
+  purchasing: ["store_owner", "warehouse_admin"],
+  promotions: ["store_owner"],
+  reports: ["store_owner"],
+  settings: ["store_owner", "shopkeeper", "warehouse_admin"],
+  staff: ["store_owner"],
+};
+
+export function canAccess(roles: AppRole[], route: AppRoute) {
+  return roles.some(role => ROUTE_ROLES[route].includes(role));
+}
@@ -0,0 +1,123 @@
+import { format } from "date-fns";
+import { paymentMethodLabel } from "@/lib/payments";
+import { cashMovementLabel, formatSignedAmount, signedMovementAmount } from "@/lib/cash";
+import { printThermal, receiptDivider, receiptLine } from "@/lib/receipt";
+import { jsonArray, jsonNumber, jsonObject, jsonText } from "@/lib/json";
+import { Json } from "@/integrations/supabase/types";
+
+/** Shape of the JSON returned by `public.shift_report`. */
+export interface ShiftReport {
+  shift_id: string;
+  z_number: number | null;
+  status: string;
+  cashier_name: string | null;
+  register_name: string | null;
+  start_time: string;
+  end_time: string | null;
+  sales_count: number;
+  gross: number;
+  discounts: number;
+  returns_count: number;
+  returns_total: number;
+  net: number;
+  tax: number;
+  voided_count: number;
+  voided_total: number;
+  tenders: { method: string; amount: number }[];
+  movements: { movement_type: string; amount: number }[];
+  starting_cash: number;
+  expected_cash: number;
+  counted_cash: number | null;
+  cash_variance: number | null;
+}
+
+/** Checks the JSON from `public.shift_report` before it is printed. */
+export function parseShiftReport(data: Json): ShiftReport {
+  const report = jsonObject(data, "shift report");
+  const amount = (value: Json | undefined) => jsonNumber(value) ?? 0;
+
+  return {
+    shift_id: jsonText(report.shift_id) ?? "",
+    z_number: jsonNumber(report.z_number),
+    status: jsonText(report.status) ?? "",
+    cashier_name: jsonText(report.cashier_name),
+    register_name: jsonText(report.register_name),
+    start_time: jsonText(report.start_time) ?? "",
+    end_time: jsonText(report.end_time),
+    sales_count: amount(report.sales_count),
+    gross: amount(report.gross),
+    discounts: amount(report.discounts),
+    returns_count: amount(report.returns_count),
+    returns_total: amount(report.returns_total),
+    net: amount(report.net),
+    tax: amount(report.tax),
+    voided_count: amount(report.voided_count),
+    voided_total: amount(report.voided_total),
+    tenders: jsonArray(report.tenders, "shift report").map(value => {
+      const tender = jsonObject(value, "shift report");
+      return { method: jsonText(tender.method) ?? "", amount: amount(tender.amount) };
+    }),
+    movements: jsonArray(report.movements, "shift report").map(value => {
+      const movement = jsonObject(value, "shift report");
+      return { movement_type: jsonText(movement.movement_type) ?? "", amount: amount(movement.amount) };
+    }),
+    starting_cash: amount(report.starting_cash),
+    expected_cash: amount(report.expected_cash),
+    counted_cash: jsonNumber(report.counted_cash),
+    cash_variance: jsonNumber(report.cash_variance),
+  };
+}
+
+const rp = (amount: number) => `Rp${amount.toFixed(2)}`;
+
+/**
+ * X reports are a snapshot of an open shift and can be printed any number of
+ * times; Z reports close the day's figures and carry the shift's Z number.
+ */
+export function printShiftReport(report: ShiftReport, kind: "X" | "Z", widthMm?: number) {
+  const title = kind === "Z" ? `Z-Report #${report.z_number}` : "X-Report";
+
+  printThermal(`
+    <div class="header">
+      <h2>${title}</h2>
+      ${kind === "X" ? "<p>Snapshot - shift still open</p>" : ""}
+      <p>Printed: ${format(new Date(), "PPp")}</p>
+      <p>Cashier: ${report.cashier_name ?? "-"}</p>
+      ${report.register_name ? `<p>Register: ${report.register_name}</p>` : ""}
+      <p>Shift: ${format(new Date(report.start_time), "PPp")} - ${
+        report.end_time ? format(new Date(report.end_time), "PPp") : "now"
+      }</p>
+    </div>
+    ${receiptDivider}
+    ${receiptLine("Sales", `${report.sales_count}`)}
+    ${receiptLine("Gross", rp(report.gross))}
+    ${receiptLine("Discounts", `-${rp(report.discounts)}`)}
+    ${receiptLine(`Returns (${report.returns_count})`, `-${rp(report.returns_total)}`)}
+    ${receiptLine("PPN", rp(report.tax))}
+    <div class="total">
+      ${receiptLine("Net", rp(report.net))}
+    </div>
+    ${report.voided_count > 0
+      ? receiptLine(`Voided (${report.voided_count})`, rp(report.voided_total))
+      : ""}
+    ${receiptDivider}
+    ${report.tenders.map(tender => receiptLine(paymentMethodLabel(tender.method), rp(tender.amount))).join("")}
+    ${receiptDivider}
+    ${receiptLine("Starting cash", rp(report.starting_cash))}
+    ${report.movements
+      .map(movement => receiptLine(
+        cashMovementLabel(movement.movement_type),
+        formatSignedAmount(signedMovementAmount(movement))
+      ))
+      .join("")}
+    ${receiptLine("Expected cash", rp(report.expected_cash))}
+    ${report.counted_cash !== null ? receiptLine("Counted cash", rp(report.counted_cash)) : ""}
+    ${report.cash_variance !== null
+      ? `<div class="total">${receiptLine("Variance", formatSignedAmount(report.cash_variance))}</div>`
+      : ""}
+    ${receiptDivider}
+    <div class="header">
+      <p>${kind === "Z" ? "End of shift" : "Not a closing report"}</p>
+    </div>
+  `, widthMm);
+}
@@ -0,0 +1,21 @@
+import { Database } from "@/integrations/supabase/types";
+
+export type StaffMember = Database["public"]["Functions"]["list_staff"]["Returns"][number];
+
+export type StaffAuditEntry = Database["public"]["Tables"]["staff_audit_log"]["Row"];
+
+const AUDIT_ACTION_LABELS: Record<string, string> = {
+  invite: "Invited",
+  grant_role: "Role granted",
+  revoke_role: "Role revoked",
+  deactivate: "Deactivated",
+  reactivate: "Reactivated",
+};
+
+export function auditActionLabel(action: string) {
+  return AUDIT_ACTION_LABELS[action] ?? action;
+}
+
+export function staffDisplayName(member: Pick<StaffMember, "full_name" | "email">) {
+  return member.full_name || member.email;
+}
@@ -0,0 +1,59 @@
+export type StockMovementType =
+  | "sale"
+  | "return"
+  | "receipt"
+  | "adjustment"
+  | "transfer"
+  | "waste"
+  | "count";
+
+export const STOCK_MOVEMENT_LABELS: Record<StockMovementType, string> = {
+  sale: "Sale",
+  return: "Return",
+  receipt: "Goods received",
+  adjustment: "Adjustment",
+  transfer: "Transfer",
+  waste: "Waste",
+  count: "Stock count",
+};
+
+export interface StockMovement {
+  id: string;
+  movement_type: string;
+  reason: string | null;
+  quantity: number;
+  balance_after: number;
+  reference_id: string | null;
+  notes: string | null;
+  created_by: string | null;
+  created_by_name: string | null;
+  created_at: string;
+}
+
+export function stockMovementLabel(type: string) {
+  return STOCK_MOVEMENT_LABELS[type as StockMovementType] ?? type;
+}
+
+/** Signed quantity, e.g. "+12" or "-3". */
+export function formatStockChange(quantity: number) {
+  return quantity > 0 ? `+${quantity}` : `${quantity}`;
+}
+
+export type AdjustmentReason = "damaged" | "expired" | "theft" | "found" | "correction";
+
+/** Which way each reason may move stock; same rules as `public.adjust_stock`. */
+export const ADJUSTMENT_REASONS: {
+  value: AdjustmentReason;
+  label: string;
+  direction: "remove" | "add" | "either";
+}[] = [
+  { value: "damaged", label: "Damaged", direction: "remove" },
+  { value: "expired", label: "Expired", direction: "remove" },
+  { value: "theft", label: "Theft", direction: "remove" },
+  { value: "found", label: "Found", direction: "add" },
+  { value: "correction", label: "Correction", direction: "either" },
+];
+
+export function adjustmentReasonLabel(reason: string) {
+  return ADJUSTMENT_REASONS.find(r => r.value === reason)?.label ?? reason;
+}
@@ -0,0 +1,23 @@
+import { useLocation, useNavigate } from "react-router-dom";
+import { ShieldAlert } from "lucide-react";
+import { Button } from "@/components/ui/button";
+
+const AccessDenied = () => {
+  const location = useLocation();
+  const navigate = useNavigate();
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background">
+      <div className="text-center">
+        <ShieldAlert className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
+        <h1 className="text-4xl font-bold mb-4">Access denied</h1>
+        <p className="text-xl text-muted-foreground mb-6">
+          Your role does not have access to {location.pathname}
+        </p>
+        <Button onClick={() => navigate("/dashboard")}>Back to Dashboard</Button>
+      </div>
+    </div>
+  );
+};
+
+export default AccessDenied;
@@ -3,8 +3,10 @@ import { useNavigate, useLocation } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
 import { Card, CardHeader, CardTitle, CardDescription, CardContent } from "@/components/ui/card";
-import { ShoppingCart, DollarSign, Receipt, Calendar, Settings, Package } from "lucide-react";
+import { ShoppingCart, DollarSign, Receipt, Calendar, Settings, Package, Tag, BarChart3, Users, Truck } from "lucide-react";
 import { useToast } from "@/components/ui/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { AppRoute, canAccess } from "@/lib/roles";
 import { ThemeToggle } from "@/components/ui/theme-toggle";
 import { Input } from "@/components/ui/input";
 import {
@@ -20,59 +22,14 @@ export default function Dashboard() {
   const navigate = useNavigate();
   const location = useLocation();
   const { toast } = useToast();
-  const [loading, setLoading] = useState(true);
-  const [userRole, setUserRole] = useState<string | null>(null);
+  const { roles } = useAuth();
+  const userRole = roles[0] ?? null;
   const [activePage, setActivePage] = useState<string>("dashboard");
   const [searchTerm, setSearchTerm] = useState("");
   const [products, setProducts] = useState<any[]>([]);
   const [filteredProducts, setFilteredProducts] = useState<any[]>([]);
 
   useEffect(() => {
-    const checkAuth = async () => {
-      const { data: { session }, error } = await supabase.auth.getSession();
-      
-      if (error) {
-        console.error("Session error:", error);
-        navigate("/auth");
-        return;
-      }
-
-      if (!session) {
-        navigate("/auth");
-        return;
-      }
-      
-      try {
-        const { data: roles } = await supabase
-          .from("user_roles")
-          .select("role")
-          .eq("user_id", session.user.id)
-          .single();
-
-        if (roles) {
-          setUserRole(roles.role);
-        }
-      } catch (error) {
-        console.error("Role fetch error:", error);
-        toast({
-          title: "Error",
-          description: "Failed to fetch user role",
-          variant: "destructive",
-        });
-      } finally {
-        setLoading(false);
-      }
-    };
-
-    checkAuth();
-
-    // Subscribe to auth state changes
-    const { data: { subscription } } = supabase.auth.onAuthStateChange((event, session) => {
-      if (event === 'SIGNED_OUT' || !session) {
-        navigate("/auth");
-      }
-    });
-
     // Fetch products for inventory display
     const fetchProducts = async () => {
       try {
@@ -98,12 +55,7 @@ export default function Dashboard() {
     };
 
     fetchProducts();
-
-    // Cleanup subscription
-    return () => {
-      subscription.unsubscribe();
-    };
-  }, [navigate, toast]);
+  }, [toast]);
 
   useEffect(() => {
     // Extract the page from location pathname
@@ -146,41 +98,60 @@ export default function Dashboard() {
     }
   };
 
-  const operationalFeatures = [
+  const operationalFeatures: { title: string; description: string; icon: JSX.Element; path: AppRoute }[] = [
     {
       title: "Point of Sale",
       description: "Process sales and transactions",
       icon: <ShoppingCart className="h-6 w-6" />,
-      path: "pos",
-      roles: ["store_owner", "shopkeeper"]
+      path: "pos"
     },
     {
       title: "Sales History",
       description: "View and print past sales",
       icon: <Receipt className="h-6 w-6" />,
-      path: "sales",
-      roles: ["store_owner", "shopkeeper"]
+      path: "sales"
     },
     {
       title: "Shift Management",
       description: "Manage and close shifts",
       icon: <Calendar className="h-6 w-6" />,
-      path: "shifts",
-      roles: ["store_owner", "shopkeeper"]
+      path: "shifts"
     },
     {
       title: "Inventory Management",
       description: "Manage stock and products",
       icon: <Package className="h-6 w-6" />,
-      path: "inventory",
-      roles: ["store_owner", "warehouse_admin", "shopkeeper"]
+      path: "inventory"
+    },
+    {
+      title: "Purchasing",
+      description: "Order from suppliers and receive deliveries",
+      icon: <Truck className="h-6 w-6" />,
+      path: "purchasing"
+    },
+    {
+      title: "Promotions",
+      description: "Schedule deals and price rules",
+      icon: <Tag className="h-6 w-6" />,
+      path: "promotions"
+    },
+    {
+      title: "Reports",
+      description: "Tax and stock reports by period",
+      icon: <BarChart3 className="h-6 w-6" />,
+      path: "reports"
+    },
+    {
+      title: "Staff",
+      description: "Invite staff and manage their roles",
+      icon: <Users className="h-6 w-6" />,
+      path: "staff"
     }
   ];
 
-  const settingsFeature = {
+  const settingsFeature: { title: string; path: AppRoute } = {
     title: "Settings",
     path: "settings",
-    roles: ["store_owner", "shopkeeper", "warehouse_admin"]
   };
 
   const navigateToPage = (path: string) => {
@@ -191,10 +162,6 @@ export default function Dashboard() {
     navigate("/inventory");
   };
 
-  if (loading) {
-    return <div className="flex items-center justify-center min-h-screen">Loading...</div>;
-  }
-
   const totalProducts = products.length;
   const lowStockProducts = products.filter(p => p.stock_quantity <= 10).length;
   const outOfStockProducts = products.filter(p => p.stock_quantity === 0).length;
@@ -207,7 +174,7 @@ export default function Dashboard() {
           <p className="text-muted-foreground">Welcome back, {userRole}</p>
         </div>
         <div className="flex items-center gap-4">
-          {settingsFeature.roles.includes(userRole || '') && (
+          {canAccess(roles, settingsFeature.path) && (
             <Button
               variant="ghost"
               size="icon"
@@ -221,9 +188,20 @@ export default function Dashboard() {
         </div>
       </div>
 
+      {roles.length === 0 && (
+        <Card className="mb-8">
+          <CardHeader>
+            <CardTitle>Waiting for access</CardTitle>
+            <CardDescription>
+              Your account has no role yet. Ask the store owner to give you one from the Staff page.
+            </CardDescription>
+          </CardHeader>
+        </Card>
+      )}
+
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 mb-8">
         {operationalFeatures.map((feature) => (
-          feature.roles.includes(userRole || '') && (
+          canAccess(roles, feature.path) && (
             <Card 
               key={feature.path}
               className="hover:bg-accent cursor-pointer transition-colors"
@@ -244,7 +222,7 @@ export default function Dashboard() {
       </div>
 
       {/* Inventory Statistics Section - also shown to shopkeepers now */}
-      {(userRole === "store_owner" || userRole === "warehouse_admin" || userRole === "shopkeeper") && (
+      {canAccess(roles, "inventory") && (
         <div className="mt-8">
           <div className="flex justify-between items-center mb-6">
             <h2 className="text-xl font-bold">Inventory Statistics</h2>
@@ -19,7 +19,9 @@ import {
   ArrowLeft, 
   Edit, 
   Trash2, 
-  X 
+  X,
+  SlidersHorizontal,
+  Truck
 } from "lucide-react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import {
@@ -31,7 +33,21 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog";
 import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { Textarea } from "@/components/ui/textarea";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { StockHistory } from "@/components/inventory/StockHistory";
+import { AdjustStockDialog } from "@/components/inventory/AdjustStockDialog";
+import { ProductSuppliersDialog } from "@/components/inventory/ProductSuppliersDialog";
+import { useAuth } from "@/hooks/use-auth";
+import { canAccess } from "@/lib/roles";
+import { formatMargin, isBelowCost, marginPercent } from "@/lib/costing";
 
 interface Product {
   id: string;
@@ -39,8 +55,11 @@ interface Product {
   name: string;
   description: string | null;
   price: number;
+  cost: number | null;
   stock_quantity: number;
   category: string | null;
+  tax_class: string;
+  barcodes: string[];
 }
 
 interface NewProduct {
@@ -48,13 +67,28 @@ interface NewProduct {
   name: string;
   description: string;
   price: number | string;
+  cost: number | string;
   stock_quantity: number | string;
   category: string;
+  tax_class: string;
+  barcodes: string;
 }
 
+const TAX_CLASSES = [
+  { value: "standard", label: "Standard PPN" },
+  { value: "exempt", label: "Exempt (staples)" },
+];
+
+const parseBarcodes = (value: string) =>
+  [...new Set(value.split(",").map(barcode => barcode.trim()).filter(Boolean))];
+
+// A blank cost means it isn't known yet; receiving goods fills it in.
+const parseCost = (value: number | string) => (value === "" ? null : Number(value));
+
 export default function Inventory() {
   const navigate = useNavigate();
   const { toast } = useToast();
+  const { roles } = useAuth();
   const [products, setProducts] = useState<Product[]>([]);
   const [searchTerm, setSearchTerm] = useState("");
   const [loading, setLoading] = useState(true);
@@ -68,8 +102,11 @@ export default function Inventory() {
     name: "",
     description: "",
     price: "",
+    cost: "",
     stock_quantity: "",
     category: "",
+    tax_class: "standard",
+    barcodes: "",
   });
   const [isSubmitting, setIsSubmitting] = useState(false);
   
@@ -80,23 +117,20 @@ export default function Inventory() {
     name: "",
     description: "",
     price: "",
+    cost: "",
     stock_quantity: "",
     category: "",
+    tax_class: "standard",
+    barcodes: "",
   });
+  const [adjustingProduct, setAdjustingProduct] = useState<Product | null>(null);
+  const [supplierProduct, setSupplierProduct] = useState<Product | null>(null);
 
   useEffect(() => {
-    const checkAuth = async () => {
-      const { data: { session } } = await supabase.auth.getSession();
-      if (!session) {
-        navigate("/auth");
-        return;
-      }
-    };
-
     const fetchProducts = async () => {
       const { data, error } = await supabase
         .from("products")
-        .select("*")
+        .select("*, product_barcodes(barcode)")
         .order("name");
       
       if (error) {
@@ -108,7 +142,10 @@ export default function Inventory() {
         return;
       }
 
-      setProducts(data);
+      setProducts(data.map(({ product_barcodes, ...product }) => ({
+        ...product,
+        barcodes: product_barcodes.map(b => b.barcode),
+      })));
       
       const uniqueCategories = [...new Set(data.map(product => product.category).filter(Boolean))];
       setCategories(uniqueCategories as string[]);
@@ -116,9 +153,8 @@ export default function Inventory() {
       setLoading(false);
     };
 
-    checkAuth();
     fetchProducts();
-  }, [navigate, toast]);
+  }, [toast]);
 
   const handleStockFilter = (filter: string) => {
     setStockFilter(filter);
@@ -131,6 +167,7 @@ export default function Inventory() {
   const filteredProducts = products.filter(product => {
     const matchesSearch = product.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
       product.sku.toLowerCase().includes(searchTerm.toLowerCase()) ||
+      product.barcodes.some(barcode => barcode.includes(searchTerm)) ||
       (product.category && product.category.toLowerCase().includes(searchTerm.toLowerCase()));
     
     const matchesCategory = selectedCategory === null || product.category === selectedCategory;
@@ -151,8 +188,11 @@ export default function Inventory() {
       name: "",
       description: "",
       price: "",
+      cost: "",
       stock_quantity: "",
       category: "",
+      tax_class: "standard",
+      barcodes: "",
     });
     setAddProductOpen(true);
   };
@@ -166,8 +206,11 @@ export default function Inventory() {
         name: productToEdit.name,
         description: productToEdit.description || "",
         price: productToEdit.price.toString(),
+        cost: productToEdit.cost?.toString() ?? "",
         stock_quantity: productToEdit.stock_quantity.toString(),
         category: productToEdit.category || "",
+        tax_class: productToEdit.tax_class,
+        barcodes: productToEdit.barcodes.join(", "),
       });
       setEditProductOpen(true);
     }
@@ -197,10 +240,12 @@ export default function Inventory() {
       const productToSubmit = {
         ...newProduct,
         price: Number(newProduct.price),
+        cost: parseCost(newProduct.cost),
         stock_quantity: Number(newProduct.stock_quantity),
       };
 
-      if (!productToSubmit.sku || !productToSubmit.name || productToSubmit.price <= 0) {
+      if (!productToSubmit.sku || !productToSubmit.name || productToSubmit.price <= 0 ||
+          Number.isNaN(productToSubmit.cost) || (productToSubmit.cost ?? 0) < 0) {
         toast({
           title: "Validation Error",
           description: "Please fill in all required fields correctly.",
@@ -226,30 +271,29 @@ export default function Inventory() {
         return;
       }
 
-      const { data, error } = await supabase
-        .from('products')
-        .insert([
-          {
-            sku: productToSubmit.sku,
-            name: productToSubmit.name,
-            description: productToSubmit.description || null,
-            price: productToSubmit.price,
-            stock_quantity: productToSubmit.stock_quantity || 0,
-            category: productToSubmit.category || null,
-          }
-        ])
-        .select();
+      // Stock only moves through the ledger, so the product, its barcodes and
+      // its opening stock are created together on the server.
+      const barcodes = parseBarcodes(newProduct.barcodes);
+      const { data, error } = await supabase.rpc("create_product", {
+        sku: productToSubmit.sku,
+        name: productToSubmit.name,
+        description: productToSubmit.description || undefined,
+        price: productToSubmit.price,
+        cost: productToSubmit.cost ?? undefined,
+        category: productToSubmit.category || undefined,
+        tax_class: productToSubmit.tax_class,
+        barcodes,
+        opening_stock: productToSubmit.stock_quantity > 0 ? productToSubmit.stock_quantity : 0,
+      });
 
       if (error) {
         throw error;
       }
 
-      if (data && data.length > 0) {
-        setProducts([...products, data[0]]);
-        
-        if (productToSubmit.category && !categories.includes(productToSubmit.category)) {
-          setCategories([...categories, productToSubmit.category]);
-        }
+      setProducts([...products, { ...data, barcodes }]);
+
+      if (productToSubmit.category && !categories.includes(productToSubmit.category)) {
+        setCategories([...categories, productToSubmit.category]);
       }
 
       toast({
@@ -277,10 +321,11 @@ export default function Inventory() {
       const productToSubmit = {
         ...editingProduct,
         price: Number(editingProduct.price),
-        stock_quantity: Number(editingProduct.stock_quantity),
+        cost: parseCost(editingProduct.cost),
       };
 
-      if (!productToSubmit.sku || !productToSubmit.name || productToSubmit.price <= 0) {
+      if (!productToSubmit.sku || !productToSubmit.name || productToSubmit.price <= 0 ||
+          Number.isNaN(productToSubmit.cost) || (productToSubmit.cost ?? 0) < 0) {
         toast({
           title: "Validation Error",
           description: "Please fill in all required fields correctly.",
@@ -307,29 +352,29 @@ export default function Inventory() {
         return;
       }
 
-      const { data, error } = await supabase
-        .from('products')
-        .update({
-          sku: productToSubmit.sku,
-          name: productToSubmit.name,
-          description: productToSubmit.description || null,
-          price: productToSubmit.price,
-          stock_quantity: productToSubmit.stock_quantity || 0,
-          category: productToSubmit.category || null,
-        })
-        .eq('id', productToSubmit.id)
-        .select();
+      // The details and the barcode list are saved together, so a barcode
+      // already on another product leaves this one as it was.
+      const barcodes = parseBarcodes(editingProduct.barcodes);
+      const { data, error } = await supabase.rpc("update_product", {
+        product_id: productToSubmit.id,
+        sku: productToSubmit.sku,
+        name: productToSubmit.name,
+        description: productToSubmit.description || undefined,
+        price: productToSubmit.price,
+        cost: productToSubmit.cost ?? undefined,
+        category: productToSubmit.category || undefined,
+        tax_class: productToSubmit.tax_class,
+        barcodes,
+      });
 
       if (error) {
         throw error;
       }
 
-      if (data && data.length > 0) {
-        setProducts(products.map(p => p.id === productToSubmit.id ? data[0] : p));
-        
-        if (productToSubmit.category && !categories.includes(productToSubmit.category)) {
-          setCategories([...categories, productToSubmit.category]);
-        }
+      setProducts(products.map(p => p.id === productToSubmit.id ? { ...data, barcodes } : p));
+
+      if (productToSubmit.category && !categories.includes(productToSubmit.category)) {
+        setCategories([...categories, productToSubmit.category]);
       }
 
       toast({
@@ -478,6 +523,8 @@ export default function Inventory() {
               <TableHead>Name</TableHead>
               <TableHead>Category</TableHead>
               <TableHead className="text-right">Price</TableHead>
+              <TableHead className="text-right">Cost</TableHead>
+              <TableHead className="text-right">Margin</TableHead>
               <TableHead className="text-right">Stock</TableHead>
               <TableHead className="text-right">Actions</TableHead>
             </TableRow>
@@ -490,11 +537,35 @@ export default function Inventory() {
                   <TableCell>{product.name}</TableCell>
                   <TableCell>{product.category || "—"}</TableCell>
                   <TableCell className="text-right">Rp{product.price.toFixed(2)}</TableCell>
+                  <TableCell className="text-right">
+                    {product.cost !== null ? `Rp${Number(product.cost).toFixed(2)}` : "—"}
+                  </TableCell>
+                  <TableCell className={`text-right ${isBelowCost(product.price, product.cost) ? "text-red-500 font-bold" : ""}`}>
+                    {formatMargin(marginPercent(product.price, product.cost))}
+                  </TableCell>
                   <TableCell className={`text-right ${product.stock_quantity <= 10 ? "text-orange-500" : ""} ${product.stock_quantity === 0 ? "text-red-500 font-bold" : ""}`}>
                     {product.stock_quantity}
                   </TableCell>
                   <TableCell className="text-right">
                     <div className="flex justify-end gap-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        title="Adjust stock"
+                        onClick={() => setAdjustingProduct(product)}
+                      >
+                        <SlidersHorizontal className="h-4 w-4" />
+                      </Button>
+                      {canAccess(roles, "purchasing") && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          title="Suppliers"
+                          onClick={() => setSupplierProduct(product)}
+                        >
+                          <Truck className="h-4 w-4" />
+                        </Button>
+                      )}
                       <Button 
                         variant="outline" 
                         size="sm"
@@ -515,7 +586,7 @@ export default function Inventory() {
               ))
             ) : (
               <TableRow>
-                <TableCell colSpan={6} className="h-24 text-center">
+                <TableCell colSpan={8} className="h-24 text-center">
                   No products found.
                 </TableCell>
               </TableRow>
@@ -562,6 +633,18 @@ export default function Inventory() {
                   />
                 </div>
               </div>
+              <div className="space-y-2">
+                <Label htmlFor="barcodes">
+                  Barcodes
+                </Label>
+                <Input
+                  id="barcodes"
+                  name="barcodes"
+                  placeholder="Comma-separated, e.g. 8991234567890, 8991234567891"
+                  value={newProduct.barcodes}
+                  onChange={handleInputChange}
+                />
+              </div>
               <div className="space-y-2">
                 <Label htmlFor="description">
                   Description
@@ -575,7 +658,7 @@ export default function Inventory() {
                   rows={3}
                 />
               </div>
-              <div className="grid grid-cols-2 gap-4">
+              <div className="grid grid-cols-3 gap-4">
                 <div className="space-y-2">
                   <Label htmlFor="price" className="text-right">
                     Price (Rp) <span className="text-red-500">*</span>
@@ -592,6 +675,21 @@ export default function Inventory() {
                     required
                   />
                 </div>
+                <div className="space-y-2">
+                  <Label htmlFor="cost" className="text-right">
+                    Cost (Rp)
+                  </Label>
+                  <Input
+                    id="cost"
+                    name="cost"
+                    type="number"
+                    placeholder="0.00"
+                    min="0"
+                    step="0.01"
+                    value={newProduct.cost}
+                    onChange={handleInputChange}
+                  />
+                </div>
                 <div className="space-y-2">
                   <Label htmlFor="stock_quantity" className="text-right">
                     Stock Quantity
@@ -608,6 +706,11 @@ export default function Inventory() {
                   />
                 </div>
               </div>
+              {newProduct.price !== "" && isBelowCost(Number(newProduct.price), parseCost(newProduct.cost)) && (
+                <p className="text-sm text-orange-500">
+                  Price is below cost (Rp{Number(newProduct.cost).toFixed(2)}), so every sale loses money.
+                </p>
+              )}
               <div className="space-y-2">
                 <Label htmlFor="category">
                   Category
@@ -626,6 +729,26 @@ export default function Inventory() {
                   ))}
                 </datalist>
               </div>
+              <div className="space-y-2">
+                <Label htmlFor="tax_class">
+                  Tax Class
+                </Label>
+                <Select
+                  value={newProduct.tax_class}
+                  onValueChange={(value) => setNewProduct({ ...newProduct, tax_class: value })}
+                >
+                  <SelectTrigger id="tax_class">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {TAX_CLASSES.map((taxClass) => (
+                      <SelectItem key={taxClass.value} value={taxClass.value}>
+                        {taxClass.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
             </div>
             <DialogFooter>
               <Button variant="outline" type="button" onClick={() => setAddProductOpen(false)}>
@@ -640,119 +763,200 @@ export default function Inventory() {
       </Dialog>
 
       <Dialog open={editProductOpen} onOpenChange={setEditProductOpen}>
-        <DialogContent className="sm:max-w-[600px]">
+        <DialogContent className="sm:max-w-[700px]">
           <DialogHeader>
             <DialogTitle>Edit Product</DialogTitle>
             <DialogDescription>
               Update the details of your product.
             </DialogDescription>
           </DialogHeader>
-          <form onSubmit={handleSubmitEditProduct}>
-            <div className="grid gap-4 py-4">
-              <div className="grid grid-cols-2 gap-4">
-                <div className="space-y-2">
-                  <Label htmlFor="edit-sku" className="text-right">
-                    SKU <span className="text-red-500">*</span>
-                  </Label>
-                  <Input
-                    id="edit-sku"
-                    name="sku"
-                    placeholder="Product SKU"
-                    value={editingProduct.sku}
-                    onChange={(e) => handleInputChange(e, true)}
-                    required
-                  />
-                </div>
-                <div className="space-y-2">
-                  <Label htmlFor="edit-name" className="text-right">
-                    Name <span className="text-red-500">*</span>
-                  </Label>
-                  <Input
-                    id="edit-name"
-                    name="name" 
-                    placeholder="Product Name"
-                    value={editingProduct.name}
-                    onChange={(e) => handleInputChange(e, true)}
-                    required
-                  />
-                </div>
-              </div>
-              <div className="space-y-2">
-                <Label htmlFor="edit-description">
-                  Description
-                </Label>
-                <Textarea
-                  id="edit-description"
-                  name="description"
-                  placeholder="Product description"
-                  value={editingProduct.description}
-                  onChange={(e) => handleInputChange(e, true)}
-                  rows={3}
-                />
-              </div>
-              <div className="grid grid-cols-2 gap-4">
-                <div className="space-y-2">
-                  <Label htmlFor="edit-price" className="text-right">
-                    Price (Rp) <span className="text-red-500">*</span>
-                  </Label>
-                  <Input
-                    id="edit-price"
-                    name="price"
-                    type="number"
-                    placeholder="0.00"
-                    min="0"
-                    step="0.01"
-                    value={editingProduct.price}
-                    onChange={(e) => handleInputChange(e, true)}
-                    required
-                  />
-                </div>
-                <div className="space-y-2">
-                  <Label htmlFor="edit-stock_quantity" className="text-right">
-                    Stock Quantity
-                  </Label>
-                  <Input
-                    id="edit-stock_quantity"
-                    name="stock_quantity"
-                    type="number"
-                    placeholder="0"
-                    min="0"
-                    step="1"
-                    value={editingProduct.stock_quantity}
-                    onChange={(e) => handleInputChange(e, true)}
-                  />
+          <Tabs defaultValue="details">
+            <TabsList>
+              <TabsTrigger value="details">Details</TabsTrigger>
+              <TabsTrigger value="history">Stock History</TabsTrigger>
+            </TabsList>
+            <TabsContent value="details">
+              <form onSubmit={handleSubmitEditProduct}>
+                <div className="grid gap-4 py-4">
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="edit-sku" className="text-right">
+                        SKU <span className="text-red-500">*</span>
+                      </Label>
+                      <Input
+                        id="edit-sku"
+                        name="sku"
+                        placeholder="Product SKU"
+                        value={editingProduct.sku}
+                        onChange={(e) => handleInputChange(e, true)}
+                        required
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="edit-name" className="text-right">
+                        Name <span className="text-red-500">*</span>
+                      </Label>
+                      <Input
+                        id="edit-name"
+                        name="name" 
+                        placeholder="Product Name"
+                        value={editingProduct.name}
+                        onChange={(e) => handleInputChange(e, true)}
+                        required
+                      />
+                    </div>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="edit-barcodes">
+                      Barcodes
+                    </Label>
+                    <Input
+                      id="edit-barcodes"
+                      name="barcodes"
+                      placeholder="Comma-separated, e.g. 8991234567890, 8991234567891"
+                      value={editingProduct.barcodes}
+                      onChange={(e) => handleInputChange(e, true)}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="edit-description">
+                      Description
+                    </Label>
+                    <Textarea
+                      id="edit-description"
+                      name="description"
+                      placeholder="Product description"
+                      value={editingProduct.description}
+                      onChange={(e) => handleInputChange(e, true)}
+                      rows={3}
+                    />
+                  </div>
+                  <div className="grid grid-cols-3 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="edit-price" className="text-right">
+                        Price (Rp) <span className="text-red-500">*</span>
+                      </Label>
+                      <Input
+                        id="edit-price"
+                        name="price"
+                        type="number"
+                        placeholder="0.00"
+                        min="0"
+                        step="0.01"
+                        value={editingProduct.price}
+                        onChange={(e) => handleInputChange(e, true)}
+                        required
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="edit-cost" className="text-right">
+                        Cost (Rp)
+                      </Label>
+                      <Input
+                        id="edit-cost"
+                        name="cost"
+                        type="number"
+                        placeholder="0.00"
+                        min="0"
+                        step="0.01"
+                        value={editingProduct.cost}
+                        onChange={(e) => handleInputChange(e, true)}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="edit-stock_quantity" className="text-right">
+                        Stock Quantity
+                      </Label>
+                      <Input
+                        id="edit-stock_quantity"
+                        name="stock_quantity"
+                        type="number"
+                        value={editingProduct.stock_quantity}
+                        readOnly
+                        disabled
+                      />
+                      <p className="text-xs text-muted-foreground">
+                        Use Adjust stock to change the quantity.
+                      </p>
+                    </div>
+                  </div>
+                  {editingProduct.price !== "" && isBelowCost(Number(editingProduct.price), parseCost(editingProduct.cost)) && (
+                    <p className="text-sm text-orange-500">
+                      Price is below cost (Rp{Number(editingProduct.cost).toFixed(2)}), so every sale loses money.
+                    </p>
+                  )}
+                  <div className="space-y-2">
+                    <Label htmlFor="edit-category">
+                      Category
+                    </Label>
+                    <Input
+                      id="edit-category"
+                      name="category"
+                      placeholder="Product Category"
+                      value={editingProduct.category}
+                      onChange={(e) => handleInputChange(e, true)}
+                      list="edit-categories"
+                    />
+                    <datalist id="edit-categories">
+                      {categories.map((category, index) => (
+                        <option key={index} value={category} />
+                      ))}
+                    </datalist>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="edit-tax_class">
+                      Tax Class
+                    </Label>
+                    <Select
+                      value={editingProduct.tax_class}
+                      onValueChange={(value) => setEditingProduct({ ...editingProduct, tax_class: value })}
+                    >
+                      <SelectTrigger id="edit-tax_class">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {TAX_CLASSES.map((taxClass) => (
+                          <SelectItem key={taxClass.value} value={taxClass.value}>
+                            {taxClass.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
                 </div>
-              </div>
-              <div className="space-y-2">
-                <Label htmlFor="edit-category">
-                  Category
-                </Label>
-                <Input
-                  id="edit-category"
-                  name="category"
-                  placeholder="Product Category"
-                  value={editingProduct.category}
-                  onChange={(e) => handleInputChange(e, true)}
-                  list="edit-categories"
-                />
-                <datalist id="edit-categories">
-                  {categories.map((category, index) => (
-                    <option key={index} value={category} />
-                  ))}
-                </datalist>
-              </div>
-            </div>
-            <DialogFooter>
-              <Button variant="outline" type="button" onClick={() => setEditProductOpen(false)}>
-                Cancel
-              </Button>
-              <Button type="submit" disabled={isSubmitting}>
-                {isSubmitting ? "Updating..." : "Update Product"}
-              </Button>
-            </DialogFooter>
-          </form>
+                <DialogFooter>
+                  <Button variant="outline" type="button" onClick={() => setEditProductOpen(false)}>
+                    Cancel
+                  </Button>
+                  <Button type="submit" disabled={isSubmitting}>
+                    {isSubmitting ? "Updating..." : "Update Product"}
+                  </Button>
+                </DialogFooter>
+              </form>
+            </TabsContent>
+            <TabsContent value="history">
+              {editProductOpen && <StockHistory productId={editingProduct.id} />}
+            </TabsContent>
+          </Tabs>
         </DialogContent>
       </Dialog>
+
+      <AdjustStockDialog
+        open={adjustingProduct !== null}
+        onOpenChange={(open) => !open && setAdjustingProduct(null)}
+        product={adjustingProduct}
+        onAdjusted={(stock_quantity) =>
+          setProducts(prev => prev.map(p =>
+            p.id === adjustingProduct?.id ? { ...p, stock_quantity } : p
+          ))
+        }
+      />
+
+      <ProductSuppliersDialog
+        open={supplierProduct !== null}
+        onOpenChange={(open) => !open && setSupplierProduct(null)}
+        product={supplierProduct}
+      />
     </div>
   );
 }
@@ -1,12 +1,36 @@
-import { useState, useEffect, useRef } from "react";
+import { useState, useEffect, useRef, useCallback } from "react";
 import { useNavigate } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
 import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
-import { ShoppingCart, Plus, Minus, Printer, X } from "lucide-react";
+import { ShoppingCart, Plus, Minus, Printer, X, ScanBarcode, Percent, PauseCircle, History, Lock, Pencil, Banknote } from "lucide-react";
 import { useToast } from "@/components/ui/use-toast";
 import { format } from "date-fns";
+import { PaymentDialog } from "@/components/pos/PaymentDialog";
+import { DiscountDialog } from "@/components/pos/DiscountDialog";
+import { ParkCartDialog } from "@/components/pos/ParkCartDialog";
+import { ParkedCartsDialog } from "@/components/pos/ParkedCartsDialog";
+import { LockScreen } from "@/components/pos/LockScreen";
+import { OverrideDialog } from "@/components/auth/OverrideDialog";
+import { ParkedCart } from "@/lib/parked-carts";
+import { SalePayment, paymentMethodLabel } from "@/lib/payments";
+import { useBarcodeScanner } from "@/hooks/use-barcode-scanner";
+import { beep } from "@/lib/beep";
+import { printThermal, receiptDivider, receiptLine } from "@/lib/receipt";
+import { Register, getPairedRegisterId } from "@/lib/registers";
+import { useAuth } from "@/hooks/use-auth";
+import { PosUnlock, watchIdle } from "@/lib/pin";
+import {
+  Discount,
+  cartTotals,
+  describeDiscount,
+  lineDiscountBase,
+  lineGross,
+  lineSubtotal,
+} from "@/lib/cart";
+import { AppliedPromotion, DEFAULT_STORE_TIME_ZONE, Promotion, bestPromotion } from "@/lib/promotions";
 
 interface Product {
   id: string;
@@ -15,16 +39,50 @@ interface Product {
   sku: string;
   stock_quantity: number;
   category: string;
+  tax_class: string;
+  barcodes: string[];
 }
 
 interface CartItem extends Product {
   quantity: number;
+  discount?: Discount | null;
+  /** Store owner approval for a `price` other than the shelf price. */
+  priceOverrideId?: string | null;
+}
+
+interface PricedCartItem extends CartItem {
+  promotion: AppliedPromotion | null;
+  promotionDiscount: number;
   subtotal: number;
 }
 
+// Promotions are re-evaluated on every render so quantity changes and
+// time-boxed rules are always reflected in the cart.
+const priceCart = (
+  items: CartItem[],
+  promotions: Promotion[],
+  ppnRate: number,
+  timeZone: string
+): PricedCartItem[] => {
+  const now = new Date();
+  return items.map(item => {
+    const promotion = bestPromotion(item, promotions, timeZone, now);
+    const priced = {
+      ...item,
+      promotion,
+      promotionDiscount: promotion?.amount ?? 0,
+      taxRate: item.tax_class === "standard" ? ppnRate : 0,
+    };
+    return { ...priced, subtotal: lineSubtotal(priced) };
+  });
+};
+
 export default function POS() {
   const navigate = useNavigate();
   const { toast } = useToast();
+  const { user } = useAuth();
+  const userId = user?.id;
+  const userEmail = user?.email;
   const [products, setProducts] = useState<Product[]>([]);
   const [categories, setCategories] = useState<string[]>([]);
   const [selectedCategory, setSelectedCategory] = useState<string | null>(null);
@@ -32,65 +90,267 @@ export default function POS() {
   const [searchTerm, setSearchTerm] = useState("");
   const [loading, setLoading] = useState(true);
   const [cashierName, setCashierName] = useState("");
+  const [allowBackorders, setAllowBackorders] = useState(false);
+  const [pricesIncludeTax, setPricesIncludeTax] = useState(true);
+  const [ppnRate, setPpnRate] = useState(11);
+  const [storeTimeZone, setStoreTimeZone] = useState(DEFAULT_STORE_TIME_ZONE);
+  const [paymentOpen, setPaymentOpen] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [unknownCode, setUnknownCode] = useState<string | null>(null);
+  const [basketDiscount, setBasketDiscount] = useState<Discount | null>(null);
+  const [maxDiscount, setMaxDiscount] = useState(0);
+  // Cart line id whose discount is being edited, or "basket".
+  const [discountTarget, setDiscountTarget] = useState<string | null>(null);
+  const [promotions, setPromotions] = useState<Promotion[]>([]);
+  const [parkOpen, setParkOpen] = useState(false);
+  // Open shift of the logged-in cashier; checkout is refused without one.
+  const [shiftId, setShiftId] = useState<string | null>(null);
+  const [register, setRegister] = useState<Register | null>(null);
+  const [parkedCartsOpen, setParkedCartsOpen] = useState(false);
+  // Set once the till has been locked or unlocked with a PIN during this shift.
+  const [unlock, setUnlock] = useState<PosUnlock | null>(null);
+  const [autoLockMinutes, setAutoLockMinutes] = useState(0);
+  // Pending store owner approvals.
+  const [discountApproval, setDiscountApproval] = useState<{ target: string; discount: Discount } | null>(null);
+  const [priceOverrideTarget, setPriceOverrideTarget] = useState<string | null>(null);
+  const [overridePrice, setOverridePrice] = useState("");
+  const [noSaleOpen, setNoSaleOpen] = useState(false);
+  const [noSaleReason, setNoSaleReason] = useState("");
   const receiptRef = useRef<HTMLDivElement>(null);
 
+  const fetchProducts = useCallback(async () => {
+    const { data, error } = await supabase
+      .from("products")
+      .select("*, product_barcodes(barcode)")
+      .order("name");
+    
+    if (error) {
+      toast({
+        title: "Error mengambil produk",
+        description: error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setProducts(data.map(({ product_barcodes, ...product }) => ({
+      ...product,
+      barcodes: product_barcodes.map(b => b.barcode),
+    })));
+    // Checkout only accepts the shelf price, so lines without an approved
+    // override follow price changes.
+    setCart(current => current.map(item => {
+      if (item.priceOverrideId) return item;
+      const product = data.find(p => p.id === item.id);
+      return product ? { ...item, price: product.price } : item;
+    }));
+    const uniqueCategories = [...new Set(data.map(product => product.category))];
+    setCategories(uniqueCategories.filter(Boolean) as string[]);
+    setLoading(false);
+  }, [toast]);
+
   useEffect(() => {
-    const checkAuth = async () => {
-      const { data: { session } } = await supabase.auth.getSession();
-      if (!session) {
-        navigate("/auth");
-        return;
-      }
+    const loadCashier = async () => {
+      if (!userId) return;
       const { data: profile } = await supabase
         .from("profiles")
         .select("full_name")
-        .eq("id", session.user.id)
+        .eq("id", userId)
         .single();
       
       if (profile) {
-        setCashierName(profile.full_name || session.user.email || "");
+        setCashierName(profile.full_name || userEmail || "");
       }
+
+      // Only a shift on this device's register can take its sales.
+      const { data: currentShift } = await supabase.rpc("current_shift_id", {
+        user_id: userId,
+        register_id: getPairedRegisterId() ?? undefined,
+      });
+      setShiftId(currentShift ?? null);
+    };
+
+    const fetchStoreSettings = async () => {
+      const { data } = await supabase
+        .from("store_settings")
+        .select("allow_backorders, prices_include_tax, ppn_rate, pos_auto_lock_minutes, timezone")
+        .maybeSingle();
+
+      setAllowBackorders(data?.allow_backorders ?? false);
+      setPricesIncludeTax(data?.prices_include_tax ?? true);
+      setPpnRate(data?.ppn_rate ?? 11);
+      setStoreTimeZone(data?.timezone ?? DEFAULT_STORE_TIME_ZONE);
+      setAutoLockMinutes(data?.pos_auto_lock_minutes ?? 0);
+    };
+
+    const fetchRegister = async () => {
+      const pairedRegisterId = getPairedRegisterId();
+      if (!pairedRegisterId) return;
+
+      const { data } = await supabase
+        .from("registers")
+        .select("*")
+        .eq("id", pairedRegisterId)
+        .maybeSingle();
+
+      setRegister(data);
     };
 
-    const fetchProducts = async () => {
+    const fetchPromotions = async () => {
       const { data, error } = await supabase
-        .from("products")
+        .from("promotions")
         .select("*")
-        .order("name");
-      
+        .eq("active", true);
+
       if (error) {
         toast({
-          title: "Error mengambil produk",
+          title: "Error mengambil promosi",
           description: error.message,
           variant: "destructive",
         });
         return;
       }
 
-      setProducts(data);
-      const uniqueCategories = [...new Set(data.map(product => product.category))];
-      setCategories(uniqueCategories.filter(Boolean) as string[]);
-      setLoading(false);
+      setPromotions(data);
     };
 
-    checkAuth();
+    loadCashier();
+    fetchStoreSettings();
+    fetchRegister();
+    fetchPromotions();
     fetchProducts();
-  }, [navigate, toast]);
+  }, [toast, fetchProducts, userId, userEmail]);
+
+  useEffect(() => {
+    if (!shiftId) {
+      setUnlock(null);
+      return;
+    }
+
+    const fetchUnlock = async () => {
+      const { data } = await supabase
+        .from("pos_unlocks")
+        .select("shift_id, cashier_id, cashier_name")
+        .eq("shift_id", shiftId)
+        .maybeSingle();
+
+      setUnlock(data);
+    };
+
+    fetchUnlock();
+  }, [shiftId]);
+
+  const locked = unlock !== null && unlock.cashier_id === null;
+  // Until someone unlocks with a PIN, the signed-in user is at the till.
+  const activeCashierName = unlock?.cashier_name ?? cashierName;
+  const activeCashierId = unlock ? unlock.cashier_id : userId;
+
+  // Discounts are capped by the limit of whoever is at the till.
+  useEffect(() => {
+    if (!activeCashierId) {
+      setMaxDiscount(0);
+      return;
+    }
+
+    const fetchDiscountLimit = async () => {
+      const { data } = await supabase.rpc("discount_limit", {
+        user_id: activeCashierId,
+      });
+      setMaxDiscount(data ?? 0);
+    };
+
+    fetchDiscountLimit();
+  }, [activeCashierId]);
+
+  const lockTill = useCallback(async () => {
+    if (!shiftId) return;
+
+    const { error } = await supabase.rpc("lock_pos");
+    if (error) {
+      toast({
+        title: "Error mengunci kasir",
+        description: error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setUnlock({ shift_id: shiftId, cashier_id: null, cashier_name: null });
+    setPaymentOpen(false);
+    setDiscountTarget(null);
+    setParkOpen(false);
+    setParkedCartsOpen(false);
+    setDiscountApproval(null);
+    setPriceOverrideTarget(null);
+    setNoSaleOpen(false);
+  }, [shiftId, toast]);
+
+  useEffect(() => {
+    if (!shiftId || locked) return;
+    return watchIdle(autoLockMinutes, lockTill);
+  }, [shiftId, locked, autoLockMinutes, lockTill]);
+
+  const handleSignOut = async () => {
+    await supabase.auth.signOut({ scope: "local" });
+    navigate("/auth");
+  };
+
+  const pricedCart = priceCart(cart, promotions, ppnRate, storeTimeZone);
+
+  const availableStock = (productId: string) =>
+    products.find(product => product.id === productId)?.stock_quantity ?? 0;
 
   const addToCart = (product: Product) => {
+    const inCart = cart.find(item => item.id === product.id)?.quantity ?? 0;
+    if (!allowBackorders && inCart + 1 > availableStock(product.id)) {
+      toast({
+        title: "Stok tidak cukup",
+        description: `Stok ${product.name} tersisa ${Math.max(availableStock(product.id), 0)}.`,
+        variant: "destructive",
+      });
+      return;
+    }
+
     setCart(currentCart => {
       const existingItem = currentCart.find(item => item.id === product.id);
       if (existingItem) {
         return currentCart.map(item =>
           item.id === product.id
-            ? { ...item, quantity: item.quantity + 1, subtotal: (item.quantity + 1) * item.price }
+            ? { ...item, quantity: item.quantity + 1 }
             : item
         );
       }
-      return [...currentCart, { ...product, quantity: 1, subtotal: product.price }];
+      return [...currentCart, { ...product, quantity: 1 }];
     });
   };
 
+  const handleScan = (code: string) => {
+    // The scanner may have typed into the search box before the Enter arrived.
+    setSearchTerm(term => (term.endsWith(code) ? term.slice(0, -code.length) : term));
+
+    const product = products.find(p => p.sku === code || p.barcodes.includes(code));
+    if (!product) {
+      beep("error");
+      setUnknownCode(code);
+      toast({
+        title: "Kode tidak dikenal",
+        description: `Tidak ada produk dengan barcode atau SKU ${code}.`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    beep("success");
+    setUnknownCode(null);
+    addToCart(product);
+  };
+
+  useBarcodeScanner(
+    handleScan,
+    !paymentOpen && discountTarget === null && !parkOpen && !parkedCartsOpen && !locked &&
+      discountApproval === null && priceOverrideTarget === null && !noSaleOpen
+  );
+
   const removeFromCart = (productId: string) => {
     setCart(currentCart => currentCart.filter(item => item.id !== productId));
   };
@@ -99,16 +359,76 @@ export default function POS() {
     setCart(currentCart =>
       currentCart.map(item => {
         if (item.id === productId) {
-          const newQuantity = Math.max(1, item.quantity + delta);
-          return { ...item, quantity: newQuantity, subtotal: newQuantity * item.price };
+          const maxQuantity = allowBackorders ? Infinity : availableStock(item.id);
+          const newQuantity = Math.max(1, Math.min(item.quantity + delta, maxQuantity));
+          return { ...item, quantity: newQuantity };
         }
         return item;
       })
     );
   };
 
-  const completeSale = async () => {
+  const setDiscountFor = (target: string, discount: Discount | null) => {
+    if (target === "basket") {
+      setBasketDiscount(discount);
+    } else {
+      setCart(currentCart =>
+        currentCart.map(item =>
+          item.id === target ? { ...item, discount } : item
+        )
+      );
+    }
+  };
+
+  const applyDiscount = (discount: Discount | null) => {
+    if (discountTarget) setDiscountFor(discountTarget, discount);
+    setDiscountTarget(null);
+  };
+
+  const requestDiscountApproval = (discount: Discount) => {
+    if (!discountTarget) return;
+    setDiscountApproval({ target: discountTarget, discount });
+    setDiscountTarget(null);
+  };
+
+  const openPriceOverride = (item: CartItem) => {
+    setOverridePrice(item.price.toString());
+    setPriceOverrideTarget(item.id);
+  };
+
+  const applyPriceOverride = (overrideId: string) => {
+    setCart(currentCart =>
+      currentCart.map(item =>
+        item.id === priceOverrideTarget
+          ? { ...item, price: Number(overridePrice), priceOverrideId: overrideId }
+          : item
+      )
+    );
+    setPriceOverrideTarget(null);
+  };
+
+  const openNoSale = () => {
+    setNoSaleReason("");
+    setNoSaleOpen(true);
+  };
+
+  // Printing kicks the cash drawer open; the slip keeps a paper trail.
+  const printNoSale = () => {
+    printThermal(`
+      <div class="header">
+        <h2>NO SALE</h2>
+        <p>Tanggal: ${format(new Date(), "PPp")}</p>
+        <p>Kasir: ${activeCashierName}</p>
+        ${register ? `<p>Mesin kasir: ${register.name}</p>` : ""}
+      </div>
+      ${receiptDivider}
+      ${receiptLine("Alasan:", noSaleReason.trim())}
+    `, register?.printer_width);
+  };
+
+  const completeSale = async (payments: SalePayment[], change: number) => {
     if (cart.length === 0) return;
+    setIsSubmitting(true);
 
     try {
       const { data: { user } } = await supabase.auth.getUser();
@@ -121,142 +441,282 @@ export default function POS() {
         return;
       }
 
-      const total = cart.reduce((sum, item) => sum + item.subtotal, 0);
+      const { error } = await supabase.rpc("complete_sale", {
+        items: pricedCart.map(item => ({
+          product_id: item.id,
+          quantity: item.quantity,
+          unit_price: item.price,
+          promotion_id: item.promotion?.id ?? null,
+          discount_type: item.discount?.type ?? null,
+          discount_value: item.discount?.value ?? 0,
+          discount_reason: item.discount?.reason ?? null,
+          discount_override_id: item.discount?.overrideId ?? null,
+          price_override_id: item.priceOverrideId ?? null,
+        })),
+        discount: basketDiscount
+          ? { ...basketDiscount, override_id: basketDiscount.overrideId ?? null }
+          : null,
+        payments: payments.map(payment => ({
+          method: payment.method,
+          amount: payment.amount,
+          tendered: payment.tendered ?? null,
+        })),
+        register_id: getPairedRegisterId() ?? undefined,
+      });
+
+      if (error) throw error;
 
-      const { data: sale, error: saleError } = await supabase
-        .from("sales")
-        .insert({
-          cashier_id: user.id,
-          total_amount: total,
-          payment_method: "cash",
-          status: "completed"
+      setProducts(currentProducts =>
+        currentProducts.map(product => {
+          const soldItem = cart.find(item => item.id === product.id);
+          return soldItem
+            ? { ...product, stock_quantity: product.stock_quantity - soldItem.quantity }
+            : product;
         })
-        .select()
-        .single();
+      );
 
-      if (saleError) throw saleError;
+      toast({
+        title: "Penjualan selesai",
+        description: "Transaksi berhasil dicatat.",
+      });
 
-      const saleItems = cart.map(item => ({
-        sale_id: sale.id,
-        product_id: item.id,
-        quantity: item.quantity,
-        unit_price: item.price,
-        subtotal: item.subtotal
-      }));
+      printReceipt(payments, change);
 
-      const { error: itemsError } = await supabase
-        .from("sale_items")
-        .insert(saleItems);
+      setCart([]);
+      setBasketDiscount(null);
+      setPaymentOpen(false);
+    } catch (error: any) {
+      toast({
+        title: "Error menyelesaikan penjualan",
+        description: error.message,
+        variant: "destructive",
+      });
 
-      if (itemsError) throw itemsError;
+      // Stock or prices changed since the product list was loaded; show current ones.
+      if (error.hint === "stock_changed" || error.hint === "price_changed") {
+        fetchProducts();
+      }
+      // The shift was closed, or is open on another register, since this page was opened.
+      if (error.hint === "shift_required" || error.hint === "register_mismatch") {
+        setShiftId(null);
+        setPaymentOpen(false);
+      }
+      // Another tab or the auto-lock locked the till mid-checkout.
+      if (error.hint === "pos_locked") {
+        setUnlock(current => current && { ...current, cashier_id: null, cashier_name: null });
+        setPaymentOpen(false);
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
 
-      for (const item of cart) {
-        const { error: updateError } = await supabase
-          .from("products")
-          .update({ stock_quantity: item.stock_quantity - item.quantity })
-          .eq("id", item.id);
+  const parkCart = async (label: string) => {
+    if (cart.length === 0) return;
+    setIsSubmitting(true);
 
-        if (updateError) throw updateError;
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) {
+        toast({
+          title: "Error",
+          description: "Anda harus login untuk menahan keranjang",
+          variant: "destructive",
+        });
+        return;
       }
 
-      toast({
-        title: "Penjualan selesai",
-        description: "Transaksi berhasil dicatat.",
+      const { error } = await supabase.from("parked_carts").insert({
+        label,
+        cashier_id: user.id,
+        cashier_name: activeCashierName || null,
+        // Parked carts expire when this shift is closed.
+        shift_id: shiftId,
+        items: cart.map(item => ({
+          product_id: item.id,
+          quantity: item.quantity,
+          discount: item.discount ? { ...item.discount } : null,
+        })),
+        discount: basketDiscount ? { ...basketDiscount } : null,
+        total_amount: total,
       });
 
-      printReceipt();
+      if (error) throw error;
+
+      toast({
+        title: "Keranjang ditahan",
+        description: `"${label}" bisa dipanggil kembali dari daftar keranjang tertahan.`,
+      });
 
       setCart([]);
+      setBasketDiscount(null);
+      setParkOpen(false);
     } catch (error: any) {
       toast({
-        title: "Error menyelesaikan penjualan",
+        title: "Error menahan keranjang",
         description: error.message,
         variant: "destructive",
       });
+    } finally {
+      setIsSubmitting(false);
     }
   };
 
-  const printReceipt = () => {
+  const recallCart = async (parked: ParkedCart) => {
+    // Deleting claims the cart; if another terminal got there first nothing is returned.
+    const { data, error } = await supabase
+      .from("parked_carts")
+      .delete()
+      .eq("id", parked.id)
+      .select("id");
+
+    if (error || data.length === 0) {
+      toast({
+        title: "Error memanggil keranjang",
+        description: error?.message ?? "Keranjang sudah dipanggil di kasir lain.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    // Prices and stock are taken from the current product list, not the parked snapshot.
+    const shortages: string[] = [];
+    const recalled: CartItem[] = [];
+    for (const item of parked.items) {
+      const product = products.find(p => p.id === item.product_id);
+      if (!product) continue;
+      const quantity = allowBackorders
+        ? item.quantity
+        : Math.min(item.quantity, product.stock_quantity);
+      if (quantity < item.quantity) shortages.push(product.name);
+      if (quantity > 0) recalled.push({ ...product, quantity, discount: item.discount });
+    }
+
+    setCart(recalled);
+    setBasketDiscount(parked.discount);
+    setParkedCartsOpen(false);
+
+    if (recalled.length < parked.items.length || shortages.length > 0) {
+      toast({
+        title: "Keranjang dipanggil sebagian",
+        description: "Beberapa produk tidak tersedia lagi atau stoknya berkurang. Periksa keranjang.",
+        variant: "destructive",
+      });
+    } else {
+      toast({
+        title: "Keranjang dipanggil",
+        description: parked.label,
+      });
+    }
+  };
+
+  const printReceipt = (payments: SalePayment[] = [], change = 0) => {
     if (!receiptRef.current) return;
 
-    const printWindow = window.open('', '', 'width=300,height=600');
-    if (!printWindow) return;
-
-    const total = cart.reduce((sum, item) => sum + item.subtotal, 0);
-
-    printWindow.document.write(`
-      <html>
-        <head>
-          <style>
-            body {
-              font-family: 'Courier New', monospace;
-              width: 300px;
-              padding: 10px;
-              margin: 0;
-            }
-            .header {
-              text-align: center;
-              margin-bottom: 10px;
-            }
-            .divider {
-              border-top: 1px dashed #000;
-              margin: 10px 0;
-            }
-            .item {
-              display: flex;
-              justify-content: space-between;
-              margin: 5px 0;
-            }
-            .total {
-              font-weight: bold;
-              margin-top: 10px;
-            }
-            @media print {
-              body { width: 80mm; }
-            }
-          </style>
-        </head>
-        <body>
-          <div class="header">
-            <h2>Struk Pembayaran</h2>
-            <p>Tanggal: ${format(new Date(), "PPp")}</p>
-            <p>Kasir: ${cashierName}</p>
+    const totals = cartTotals(pricedCart, basketDiscount, pricesIncludeTax);
+
+    printThermal(`
+      <div class="header">
+        ${register?.receipt_header
+          ? `<p>${register.receipt_header.split("\n").join("<br>")}</p>`
+          : ""}
+        <h2>Struk Pembayaran</h2>
+        <p>Tanggal: ${format(new Date(), "PPp")}</p>
+        <p>Kasir: ${activeCashierName}</p>
+        ${register ? `<p>Mesin kasir: ${register.name}</p>` : ""}
+      </div>
+      <div class="divider"></div>
+      ${pricedCart.map(item => `
+        <div class="item">
+          <span>${item.name} x${item.quantity}</span>
+          <span>Rp${lineGross(item).toFixed(2)}</span>
+        </div>
+        ${item.promotion ? `
+          <div class="item">
+            <span>&nbsp;&nbsp;Promo ${item.promotion.name}</span>
+            <span>-Rp${item.promotionDiscount.toFixed(2)}</span>
           </div>
-          <div class="divider"></div>
-          ${cart.map(item => `
-            <div class="item">
-              <span>${item.name} x${item.quantity}</span>
-              <span>Rp${item.subtotal.toFixed(2)}</span>
-            </div>
-          `).join('')}
-          <div class="divider"></div>
-          <div class="total">
-            <div class="item">
-              <span>Total:</span>
-              <span>Rp${total.toFixed(2)}</span>
-            </div>
+        ` : ''}
+        ${item.discount ? `
+          <div class="item">
+            <span>&nbsp;&nbsp;Diskon ${describeDiscount(item.discount)}</span>
+            <span>-Rp${(lineDiscountBase(item) - item.subtotal).toFixed(2)}</span>
           </div>
-          <div class="divider"></div>
-          <div class="header">
-            <p>Terima kasih atas kunjungan Anda!</p>
+        ` : ''}
+      `).join('')}
+      <div class="divider"></div>
+      <div class="item">
+        <span>Subtotal:</span>
+        <span>Rp${totals.gross.toFixed(2)}</span>
+      </div>
+      ${basketDiscount ? `
+        <div class="item">
+          <span>Diskon ${describeDiscount(basketDiscount)}:</span>
+          <span>-Rp${totals.basketDiscount.toFixed(2)}</span>
+        </div>
+      ` : ''}
+      ${totals.gross - totals.total > 0 ? `
+        <div class="item">
+          <span>Total Hemat:</span>
+          <span>-Rp${(totals.gross - totals.total).toFixed(2)}</span>
+        </div>
+      ` : ''}
+      ${!pricesIncludeTax ? `
+        <div class="item">
+          <span>PPN:</span>
+          <span>Rp${totals.tax.toFixed(2)}</span>
+        </div>
+      ` : ''}
+      <div class="total">
+        <div class="item">
+          <span>Total:</span>
+          <span>Rp${totals.total.toFixed(2)}</span>
+        </div>
+      </div>
+      <div class="divider"></div>
+      <p>${pricesIncludeTax ? 'Harga sudah termasuk PPN' : 'Harga belum termasuk PPN'}</p>
+      ${totals.taxSummary.map(line => `
+        <div class="item">
+          <span>${line.rate > 0 ? `DPP ${line.rate}%` : 'Bebas PPN'}</span>
+          <span>Rp${line.taxable.toFixed(2)}</span>
+        </div>
+        ${line.rate > 0 ? `
+          <div class="item">
+            <span>PPN ${line.rate}%</span>
+            <span>Rp${line.tax.toFixed(2)}</span>
+          </div>
+        ` : ''}
+      `).join('')}
+      ${payments.length > 0 ? `
+        <div class="divider"></div>
+        ${payments.map(payment => `
+          <div class="item">
+            <span>${paymentMethodLabel(payment.method)}</span>
+            <span>Rp${(payment.tendered ?? payment.amount).toFixed(2)}</span>
           </div>
-        </body>
-      </html>
-    `);
-
-    printWindow.document.close();
-    printWindow.focus();
-    printWindow.print();
-    printWindow.close();
+        `).join('')}
+        <div class="item">
+          <span>Kembalian:</span>
+          <span>Rp${change.toFixed(2)}</span>
+        </div>
+      ` : ''}
+      <div class="divider"></div>
+      <div class="header">
+        <p>Terima kasih atas kunjungan Anda!</p>
+      </div>
+    `, register?.printer_width);
   };
 
   const filteredProducts = products.filter(product =>
     (!selectedCategory || product.category === selectedCategory) &&
     (product.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-     product.sku.toLowerCase().includes(searchTerm.toLowerCase()))
+     product.sku.toLowerCase().includes(searchTerm.toLowerCase()) ||
+     product.barcodes.some(barcode => barcode.includes(searchTerm)))
   );
 
-  const total = cart.reduce((sum, item) => sum + item.subtotal, 0);
+  const totals = cartTotals(pricedCart, basketDiscount, pricesIncludeTax);
+  const total = totals.total;
+  const discountItem = pricedCart.find(item => item.id === discountTarget);
 
   if (loading) {
     return <div className="flex items-center justify-center min-h-screen">Memuat...</div>;
@@ -276,8 +736,49 @@ export default function POS() {
             <Button variant="outline" onClick={() => navigate("/dashboard")}>
               Back
             </Button>
+            <Button variant="outline" onClick={() => setParkedCartsOpen(true)}>
+              <History className="h-4 w-4 mr-2" />
+              Keranjang Tertahan
+            </Button>
+            {shiftId && (
+              <Button variant="outline" onClick={openNoSale}>
+                <Banknote className="h-4 w-4 mr-2" />
+                Buka Laci
+              </Button>
+            )}
+            {shiftId && (
+              <Button variant="outline" onClick={lockTill}>
+                <Lock className="h-4 w-4 mr-2" />
+                Kunci
+              </Button>
+            )}
+            <span className="flex items-center gap-1 text-sm text-muted-foreground">
+              <ScanBarcode className="h-4 w-4" />
+              Scanner siap
+            </span>
+            {activeCashierName && (
+              <span className="text-sm text-muted-foreground">Kasir: {activeCashierName}</span>
+            )}
           </div>
 
+          {!shiftId && (
+            <div className="flex items-center justify-between rounded-lg border border-red-500 p-2 text-sm text-red-500">
+              <span>Belum ada shift yang dibuka. Buka shift sebelum menyelesaikan penjualan.</span>
+              <Button variant="outline" size="sm" onClick={() => navigate("/shifts")}>
+                Buka Shift
+              </Button>
+            </div>
+          )}
+
+          {unknownCode && (
+            <div className="flex items-center justify-between rounded-lg border border-red-500 p-2 text-sm text-red-500">
+              <span>Kode tidak dikenal: {unknownCode}</span>
+              <Button variant="ghost" size="icon" onClick={() => setUnknownCode(null)}>
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          )}
+
           <div className="flex gap-2 overflow-x-auto pb-2">
             <Button
               variant={selectedCategory === null ? "default" : "outline"}
@@ -297,19 +798,28 @@ export default function POS() {
           </div>
 
           <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
-            {filteredProducts.map((product) => (
-              <Card
-                key={product.id}
-                className="cursor-pointer hover:bg-accent transition-colors"
-                onClick={() => addToCart(product)}
-              >
-                <CardHeader>
-                  <CardTitle className="text-sm">{product.name}</CardTitle>
-                  <p className="text-sm text-muted-foreground">SKU: {product.sku}</p>
-                  <p className="text-lg font-bold">Rp{product.price.toFixed(2)}</p>
-                </CardHeader>
-              </Card>
-            ))}
+            {filteredProducts.map((product) => {
+              const outOfStock = !allowBackorders && product.stock_quantity <= 0;
+              return (
+                <Card
+                  key={product.id}
+                  aria-disabled={outOfStock}
+                  className={outOfStock
+                    ? "opacity-50 cursor-not-allowed"
+                    : "cursor-pointer hover:bg-accent transition-colors"}
+                  onClick={() => !outOfStock && addToCart(product)}
+                >
+                  <CardHeader>
+                    <CardTitle className="text-sm">{product.name}</CardTitle>
+                    <p className="text-sm text-muted-foreground">SKU: {product.sku}</p>
+                    <p className="text-lg font-bold">Rp{product.price.toFixed(2)}</p>
+                    <p className={`text-sm ${product.stock_quantity <= 0 ? "text-red-500 font-medium" : "text-muted-foreground"}`}>
+                      {product.stock_quantity <= 0 ? "Stok habis" : `Stok: ${product.stock_quantity}`}
+                    </p>
+                  </CardHeader>
+                </Card>
+              );
+            })}
           </div>
         </div>
 
@@ -323,13 +833,42 @@ export default function POS() {
             </CardHeader>
             <CardContent>
               <div className="space-y-4">
-                {cart.map((item) => (
+                {pricedCart.map((item) => (
                   <div key={item.id} className="flex items-center justify-between gap-2 p-2 border rounded-lg">
                     <div className="flex-1">
                       <p className="font-medium">{item.name}</p>
-                      <p className="text-sm text-muted-foreground">Rp{item.price.toFixed(2)} per item</p>
+                      <p className="text-sm text-muted-foreground">
+                        Rp{item.price.toFixed(2)} per item
+                        {item.priceOverrideId && " (harga diubah)"}
+                      </p>
+                      {item.promotion && (
+                        <p className="text-sm text-green-600">
+                          Promo {item.promotion.name}: -Rp{item.promotionDiscount.toFixed(2)}
+                        </p>
+                      )}
+                      {item.discount && (
+                        <p className="text-sm text-green-600">
+                          Diskon {describeDiscount(item.discount)}: -Rp{(lineDiscountBase(item) - item.subtotal).toFixed(2)}
+                          <span className="text-muted-foreground"> ({item.discount.reason})</span>
+                        </p>
+                      )}
                     </div>
                     <div className="flex items-center gap-2">
+                      <Button
+                        variant={item.priceOverrideId ? "secondary" : "outline"}
+                        size="icon"
+                        title="Ubah harga"
+                        onClick={() => openPriceOverride(item)}
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant={item.discount ? "secondary" : "outline"}
+                        size="icon"
+                        onClick={() => setDiscountTarget(item.id)}
+                      >
+                        <Percent className="h-4 w-4" />
+                      </Button>
                       <Button
                         variant="outline"
                         size="icon"
@@ -341,6 +880,7 @@ export default function POS() {
                       <Button
                         variant="outline"
                         size="icon"
+                        disabled={!allowBackorders && item.quantity >= availableStock(item.id)}
                         onClick={() => updateQuantity(item.id, 1)}
                       >
                         <Plus className="h-4 w-4" />
@@ -360,7 +900,44 @@ export default function POS() {
                   <p className="text-center text-muted-foreground">Keranjang kosong</p>
                 )}
 
-                <div className="pt-4 border-t">
+                <div className="pt-4 border-t space-y-1">
+                  <div className="flex justify-between text-sm">
+                    <span>Subtotal</span>
+                    <span>Rp{totals.gross.toFixed(2)}</span>
+                  </div>
+                  {totals.promotions > 0 && (
+                    <div className="flex justify-between text-sm text-green-600">
+                      <span>Promo</span>
+                      <span>-Rp{totals.promotions.toFixed(2)}</span>
+                    </div>
+                  )}
+                  {totals.lineDiscounts > 0 && (
+                    <div className="flex justify-between text-sm text-green-600">
+                      <span>Diskon item</span>
+                      <span>-Rp{totals.lineDiscounts.toFixed(2)}</span>
+                    </div>
+                  )}
+                  <div className="flex justify-between items-center text-sm">
+                    <Button
+                      variant="link"
+                      className="h-auto p-0"
+                      disabled={cart.length === 0}
+                      onClick={() => setDiscountTarget("basket")}
+                    >
+                      {basketDiscount
+                        ? `Diskon keranjang ${describeDiscount(basketDiscount)}`
+                        : "Tambah diskon keranjang"}
+                    </Button>
+                    {basketDiscount && (
+                      <span className="text-green-600">-Rp{totals.basketDiscount.toFixed(2)}</span>
+                    )}
+                  </div>
+                  {totals.tax > 0 && (
+                    <div className="flex justify-between text-sm text-muted-foreground">
+                      <span>{pricesIncludeTax ? "Termasuk PPN" : "PPN"}</span>
+                      <span>Rp{totals.tax.toFixed(2)}</span>
+                    </div>
+                  )}
                   <div className="flex justify-between text-lg font-bold">
                     <span>Total</span>
                     <span>Rp{total.toFixed(2)}</span>
@@ -372,15 +949,24 @@ export default function POS() {
                     variant="outline"
                     className="w-full"
                     disabled={cart.length === 0}
-                    onClick={printReceipt}
+                    onClick={() => printReceipt()}
                   >
                     <Printer className="h-4 w-4 mr-2" />
                     Cetak
                   </Button>
                   <Button
+                    variant="outline"
                     className="w-full"
                     disabled={cart.length === 0}
-                    onClick={completeSale}
+                    onClick={() => setParkOpen(true)}
+                  >
+                    <PauseCircle className="h-4 w-4 mr-2" />
+                    Tahan
+                  </Button>
+                  <Button
+                    className="w-full col-span-2"
+                    disabled={cart.length === 0 || !shiftId}
+                    onClick={() => setPaymentOpen(true)}
                   >
                     Selesaikan Penjualan
                   </Button>
@@ -391,6 +977,119 @@ export default function POS() {
         </div>
       </div>
 
+      <DiscountDialog
+        open={discountTarget !== null}
+        onOpenChange={(open) => !open && setDiscountTarget(null)}
+        title={discountTarget === "basket" ? "Diskon Keranjang" : `Diskon ${discountItem?.name ?? ""}`}
+        base={discountTarget === "basket"
+          ? totals.gross - totals.promotions - totals.lineDiscounts
+          : discountItem ? lineDiscountBase(discountItem) : 0}
+        discount={discountTarget === "basket" ? basketDiscount : discountItem?.discount}
+        maxPercent={maxDiscount}
+        onApply={applyDiscount}
+        onRequestApproval={requestDiscountApproval}
+      />
+
+      {discountApproval && (
+        <OverrideDialog
+          open
+          onOpenChange={(open) => !open && setDiscountApproval(null)}
+          action="discount"
+          details={{
+            target: discountApproval.target,
+            type: discountApproval.discount.type,
+            value: discountApproval.discount.value,
+          }}
+          reason={discountApproval.discount.reason}
+          description={`Diskon ${describeDiscount(discountApproval.discount)} untuk ${
+            discountApproval.target === "basket"
+              ? "keranjang"
+              : pricedCart.find(item => item.id === discountApproval.target)?.name ?? ""
+          }: ${discountApproval.discount.reason}`}
+          onApproved={(approval) =>
+            setDiscountFor(discountApproval.target, { ...discountApproval.discount, overrideId: approval.id })
+          }
+        />
+      )}
+
+      {priceOverrideTarget && (
+        <OverrideDialog
+          open
+          onOpenChange={(open) => !open && setPriceOverrideTarget(null)}
+          action="price_override"
+          details={{ target: priceOverrideTarget, price: Number(overridePrice) }}
+          description={`Harga rak ${cart.find(item => item.id === priceOverrideTarget)?.name ?? ""}: Rp${
+            (products.find(product => product.id === priceOverrideTarget)?.price ?? 0).toFixed(2)
+          }`}
+          canSubmit={overridePrice !== "" && Number(overridePrice) >= 0}
+          onApproved={(approval) => applyPriceOverride(approval.id)}
+        >
+          <div className="space-y-2">
+            <Label htmlFor="override-price">Harga baru (Rp)</Label>
+            <Input
+              id="override-price"
+              type="number"
+              min="0"
+              step="0.01"
+              value={overridePrice}
+              onChange={(e) => setOverridePrice(e.target.value)}
+            />
+          </div>
+        </OverrideDialog>
+      )}
+
+      <OverrideDialog
+        open={noSaleOpen}
+        onOpenChange={setNoSaleOpen}
+        action="no_sale"
+        details={{ target: shiftId ?? "" }}
+        reason={noSaleReason.trim()}
+        description="Buka laci kas tanpa transaksi."
+        canSubmit={noSaleReason.trim() !== ""}
+        onApproved={printNoSale}
+      >
+        <div className="space-y-2">
+          <Label htmlFor="no-sale-reason">
+            Alasan <span className="text-red-500">*</span>
+          </Label>
+          <Input
+            id="no-sale-reason"
+            placeholder="mis. tukar uang kecil"
+            value={noSaleReason}
+            onChange={(e) => setNoSaleReason(e.target.value)}
+          />
+        </div>
+      </OverrideDialog>
+
+      <PaymentDialog
+        open={paymentOpen}
+        onOpenChange={setPaymentOpen}
+        total={total}
+        submitting={isSubmitting}
+        onConfirm={completeSale}
+      />
+
+      <ParkCartDialog
+        open={parkOpen}
+        onOpenChange={setParkOpen}
+        total={total}
+        submitting={isSubmitting}
+        onPark={parkCart}
+      />
+
+      <ParkedCartsDialog
+        open={parkedCartsOpen}
+        onOpenChange={setParkedCartsOpen}
+        cartEmpty={cart.length === 0}
+        onRecall={recallCart}
+      />
+
+      <LockScreen
+        open={locked}
+        onUnlocked={setUnlock}
+        onSignOut={handleSignOut}
+      />
+
       <div className="hidden" ref={receiptRef} />
     </div>
   );
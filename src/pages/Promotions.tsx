@@ -0,0 +1,662 @@
+import { useState, useEffect } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/components/ui/use-toast";
+import { ArrowLeft, Edit, Plus, Tag, Trash2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { format } from "date-fns";
+import {
+  DAYS_OF_WEEK,
+  DEFAULT_STORE_TIME_ZONE,
+  PROMO_TYPES,
+  PromoType,
+  Promotion,
+  describePromotion,
+  fromStoreLocalInput,
+  isPromotionActive,
+  toStoreLocalInput,
+} from "@/lib/promotions";
+
+interface ProductOption {
+  id: string;
+  name: string;
+  sku: string;
+  category: string | null;
+}
+
+interface PromotionForm {
+  id: string | null;
+  name: string;
+  promo_type: PromoType;
+  scope: "product" | "category";
+  product_id: string;
+  category: string;
+  buy_quantity: string;
+  get_quantity: string;
+  bundle_quantity: string;
+  bundle_price: string;
+  percent: string;
+  days_of_week: number[];
+  starts_at: string;
+  ends_at: string;
+  active: boolean;
+}
+
+const emptyForm: PromotionForm = {
+  id: null,
+  name: "",
+  promo_type: "buy_x_get_y",
+  scope: "product",
+  product_id: "",
+  category: "",
+  buy_quantity: "2",
+  get_quantity: "1",
+  bundle_quantity: "3",
+  bundle_price: "",
+  percent: "",
+  days_of_week: [],
+  starts_at: "",
+  ends_at: "",
+  active: true,
+};
+
+// datetime-local inputs have no zone; they are read and shown on the store's clock.
+const toLocalInput = (value: string | null, timeZone: string) =>
+  value ? toStoreLocalInput(new Date(value), timeZone) : "";
+
+const fromLocalInput = (value: string, timeZone: string) =>
+  value ? fromStoreLocalInput(value, timeZone).toISOString() : null;
+
+const formatStoreTime = (value: string, timeZone: string) =>
+  format(new Date(toStoreLocalInput(new Date(value), timeZone)), "PPp");
+
+const promotionStatus = (promotion: Promotion, timeZone: string) => {
+  const now = new Date();
+  if (!promotion.active) return "Inactive";
+  if (promotion.ends_at && now >= new Date(promotion.ends_at)) return "Expired";
+  if (promotion.starts_at && now < new Date(promotion.starts_at)) return "Scheduled";
+  return isPromotionActive(promotion, now, timeZone) ? "Running" : "Waiting for day";
+};
+
+export default function Promotions() {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [promotions, setPromotions] = useState<Promotion[]>([]);
+  const [products, setProducts] = useState<ProductOption[]>([]);
+  const [categories, setCategories] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [formOpen, setFormOpen] = useState(false);
+  const [form, setForm] = useState<PromotionForm>(emptyForm);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [promotionToDelete, setPromotionToDelete] = useState<Promotion | null>(null);
+  const [storeTimeZone, setStoreTimeZone] = useState(DEFAULT_STORE_TIME_ZONE);
+
+  useEffect(() => {
+    const fetchData = async () => {
+      try {
+        const [promotionsResult, productsResult, settingsResult] = await Promise.all([
+          supabase.from("promotions").select("*").order("created_at", { ascending: false }),
+          supabase.from("products").select("id, name, sku, category").order("name"),
+          supabase.from("store_settings").select("timezone").maybeSingle(),
+        ]);
+
+        if (promotionsResult.error) throw promotionsResult.error;
+        if (productsResult.error) throw productsResult.error;
+        if (settingsResult.error) throw settingsResult.error;
+
+        setPromotions(promotionsResult.data);
+        setProducts(productsResult.data);
+        setStoreTimeZone(settingsResult.data?.timezone ?? DEFAULT_STORE_TIME_ZONE);
+        const uniqueCategories = [...new Set(productsResult.data.map(p => p.category).filter(Boolean))];
+        setCategories(uniqueCategories as string[]);
+      } catch (error: any) {
+        toast({
+          title: "Error fetching promotions",
+          description: error.message,
+          variant: "destructive",
+        });
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchData();
+  }, [toast]);
+
+  const productName = (id: string | null) => products.find(p => p.id === id)?.name ?? "Unknown product";
+
+  const handleAddPromotion = () => {
+    setForm(emptyForm);
+    setFormOpen(true);
+  };
+
+  const handleEditPromotion = (promotion: Promotion) => {
+    setForm({
+      id: promotion.id,
+      name: promotion.name,
+      promo_type: promotion.promo_type as PromoType,
+      scope: promotion.product_id ? "product" : "category",
+      product_id: promotion.product_id ?? "",
+      category: promotion.category ?? "",
+      buy_quantity: promotion.buy_quantity?.toString() ?? "",
+      get_quantity: promotion.get_quantity?.toString() ?? "",
+      bundle_quantity: promotion.bundle_quantity?.toString() ?? "",
+      bundle_price: promotion.bundle_price?.toString() ?? "",
+      percent: promotion.percent?.toString() ?? "",
+      days_of_week: promotion.days_of_week ?? [],
+      starts_at: toLocalInput(promotion.starts_at, storeTimeZone),
+      ends_at: toLocalInput(promotion.ends_at, storeTimeZone),
+      active: promotion.active,
+    });
+    setFormOpen(true);
+  };
+
+  const toggleDay = (day: number, checked: boolean) => {
+    setForm(current => ({
+      ...current,
+      days_of_week: checked
+        ? [...current.days_of_week, day].sort()
+        : current.days_of_week.filter(d => d !== day),
+    }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+
+    try {
+      const target = form.scope === "product" ? form.product_id : form.category;
+      if (!form.name.trim() || !target) {
+        throw new Error("Please enter a name and choose a product or category.");
+      }
+      if (form.starts_at && form.ends_at && new Date(form.ends_at) <= new Date(form.starts_at)) {
+        throw new Error("The end date must be after the start date.");
+      }
+
+      const values = {
+        name: form.name.trim(),
+        promo_type: form.promo_type,
+        product_id: form.scope === "product" ? form.product_id : null,
+        category: form.scope === "category" ? form.category : null,
+        buy_quantity: form.promo_type === "buy_x_get_y" ? Number(form.buy_quantity) : null,
+        get_quantity: form.promo_type === "buy_x_get_y" ? Number(form.get_quantity) : null,
+        bundle_quantity: form.promo_type === "multi_buy" ? Number(form.bundle_quantity) : null,
+        bundle_price: form.promo_type === "multi_buy" ? Number(form.bundle_price) : null,
+        percent: form.promo_type === "percent_off" ? Number(form.percent) : null,
+        days_of_week: form.days_of_week.length > 0 ? form.days_of_week : null,
+        starts_at: fromLocalInput(form.starts_at, storeTimeZone),
+        ends_at: fromLocalInput(form.ends_at, storeTimeZone),
+        active: form.active,
+        updated_at: new Date().toISOString(),
+      };
+
+      if (form.id) {
+        const { data, error } = await supabase
+          .from("promotions")
+          .update(values)
+          .eq("id", form.id)
+          .select()
+          .single();
+
+        if (error) throw error;
+        setPromotions(promotions.map(p => (p.id === data.id ? data : p)));
+      } else {
+        const { data: { user } } = await supabase.auth.getUser();
+        const { data, error } = await supabase
+          .from("promotions")
+          .insert({ ...values, created_by: user?.id ?? null })
+          .select()
+          .single();
+
+        if (error) throw error;
+        setPromotions([data, ...promotions]);
+      }
+
+      toast({
+        title: form.id ? "Promotion Updated" : "Promotion Added",
+        description: `${values.name} has been saved.`,
+      });
+      setFormOpen(false);
+    } catch (error: any) {
+      toast({
+        title: "Error Saving Promotion",
+        description: error.message || "An error occurred while saving the promotion.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleToggleActive = async (promotion: Promotion, active: boolean) => {
+    const { data, error } = await supabase
+      .from("promotions")
+      .update({ active, updated_at: new Date().toISOString() })
+      .eq("id", promotion.id)
+      .select()
+      .single();
+
+    if (error) {
+      toast({
+        title: "Error updating promotion",
+        description: error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setPromotions(promotions.map(p => (p.id === data.id ? data : p)));
+  };
+
+  const confirmDelete = async () => {
+    if (!promotionToDelete) return;
+
+    try {
+      const { error } = await supabase
+        .from("promotions")
+        .delete()
+        .eq("id", promotionToDelete.id);
+
+      if (error) throw error;
+
+      setPromotions(promotions.filter(p => p.id !== promotionToDelete.id));
+      toast({
+        title: "Promotion deleted",
+        description: `${promotionToDelete.name} has been removed.`,
+      });
+    } catch (error: any) {
+      toast({
+        title: "Error deleting promotion",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setPromotionToDelete(null);
+    }
+  };
+
+  if (loading) {
+    return <div className="flex items-center justify-center min-h-screen">Loading...</div>;
+  }
+
+  return (
+    <div className="min-h-screen bg-background p-6">
+      <div className="flex justify-between items-center mb-6">
+        <div className="flex items-center gap-2">
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() => navigate("/dashboard")}
+            className="mr-2"
+          >
+            <ArrowLeft className="h-4 w-4" />
+          </Button>
+          <Tag className="h-6 w-6 mr-2" />
+          <h1 className="text-2xl font-bold">Promotions</h1>
+        </div>
+        <Button onClick={handleAddPromotion}>
+          <Plus className="mr-2 h-4 w-4" /> Add Promotion
+        </Button>
+      </div>
+
+      <div className="border rounded-lg overflow-hidden">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Name</TableHead>
+              <TableHead>Rule</TableHead>
+              <TableHead>Applies To</TableHead>
+              <TableHead>Schedule</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {promotions.length > 0 ? (
+              promotions.map((promotion) => (
+                <TableRow key={promotion.id}>
+                  <TableCell className="font-medium">{promotion.name}</TableCell>
+                  <TableCell>{describePromotion(promotion)}</TableCell>
+                  <TableCell>
+                    {promotion.product_id
+                      ? productName(promotion.product_id)
+                      : `Category: ${promotion.category}`}
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    <p>
+                      {promotion.starts_at ? formatStoreTime(promotion.starts_at, storeTimeZone) : "Any time"}
+                      {" – "}
+                      {promotion.ends_at ? formatStoreTime(promotion.ends_at, storeTimeZone) : "No end"}
+                    </p>
+                    {promotion.days_of_week && (
+                      <p className="text-muted-foreground">
+                        {promotion.days_of_week.map(d => DAYS_OF_WEEK[d]).join(", ")}
+                      </p>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex items-center gap-2">
+                      <Switch
+                        checked={promotion.active}
+                        onCheckedChange={(checked) => handleToggleActive(promotion, checked)}
+                      />
+                      <span className="text-sm">{promotionStatus(promotion, storeTimeZone)}</span>
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <div className="flex justify-end gap-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleEditPromotion(promotion)}
+                      >
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="destructive"
+                        size="sm"
+                        onClick={() => setPromotionToDelete(promotion)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))
+            ) : (
+              <TableRow>
+                <TableCell colSpan={6} className="h-24 text-center">
+                  No promotions yet.
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      <Dialog open={formOpen} onOpenChange={setFormOpen}>
+        <DialogContent className="sm:max-w-[600px]">
+          <DialogHeader>
+            <DialogTitle>{form.id ? "Edit Promotion" : "Add Promotion"}</DialogTitle>
+            <DialogDescription>
+              The POS applies the best running promotion to each cart line.
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleSubmit}>
+            <div className="grid gap-4 py-4">
+              <div className="space-y-2">
+                <Label htmlFor="promo-name">
+                  Name <span className="text-red-500">*</span>
+                </Label>
+                <Input
+                  id="promo-name"
+                  placeholder="e.g. Weekend dairy deal"
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  required
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Rule</Label>
+                  <Select
+                    value={form.promo_type}
+                    onValueChange={(value) => setForm({ ...form, promo_type: value as PromoType })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {PROMO_TYPES.map(type => (
+                        <SelectItem key={type.value} value={type.value}>
+                          {type.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Applies To</Label>
+                  <Select
+                    value={form.scope}
+                    onValueChange={(value) => setForm({ ...form, scope: value as PromotionForm["scope"] })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="product">A product</SelectItem>
+                      <SelectItem value="category">A category</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              {form.scope === "product" ? (
+                <div className="space-y-2">
+                  <Label>Product <span className="text-red-500">*</span></Label>
+                  <Select
+                    value={form.product_id}
+                    onValueChange={(value) => setForm({ ...form, product_id: value })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Choose a product" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {products.map(product => (
+                        <SelectItem key={product.id} value={product.id}>
+                          {product.name} ({product.sku})
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  <Label>Category <span className="text-red-500">*</span></Label>
+                  <Select
+                    value={form.category}
+                    onValueChange={(value) => setForm({ ...form, category: value })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Choose a category" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {categories.map(category => (
+                        <SelectItem key={category} value={category}>
+                          {category}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
+              {form.promo_type === "buy_x_get_y" && (
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="buy_quantity">Buy</Label>
+                    <Input
+                      id="buy_quantity"
+                      type="number"
+                      min="1"
+                      step="1"
+                      value={form.buy_quantity}
+                      onChange={(e) => setForm({ ...form, buy_quantity: e.target.value })}
+                      required
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="get_quantity">Get Free</Label>
+                    <Input
+                      id="get_quantity"
+                      type="number"
+                      min="1"
+                      step="1"
+                      value={form.get_quantity}
+                      onChange={(e) => setForm({ ...form, get_quantity: e.target.value })}
+                      required
+                    />
+                  </div>
+                </div>
+              )}
+
+              {form.promo_type === "multi_buy" && (
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="bundle_quantity">Quantity</Label>
+                    <Input
+                      id="bundle_quantity"
+                      type="number"
+                      min="2"
+                      step="1"
+                      value={form.bundle_quantity}
+                      onChange={(e) => setForm({ ...form, bundle_quantity: e.target.value })}
+                      required
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="bundle_price">For (Rp)</Label>
+                    <Input
+                      id="bundle_price"
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      placeholder="10000"
+                      value={form.bundle_price}
+                      onChange={(e) => setForm({ ...form, bundle_price: e.target.value })}
+                      required
+                    />
+                  </div>
+                </div>
+              )}
+
+              {form.promo_type === "percent_off" && (
+                <div className="space-y-2">
+                  <Label htmlFor="percent">Percent Off (%)</Label>
+                  <Input
+                    id="percent"
+                    type="number"
+                    min="0.01"
+                    max="100"
+                    step="0.01"
+                    value={form.percent}
+                    onChange={(e) => setForm({ ...form, percent: e.target.value })}
+                    required
+                  />
+                </div>
+              )}
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="starts_at">Starts</Label>
+                  <Input
+                    id="starts_at"
+                    type="datetime-local"
+                    value={form.starts_at}
+                    onChange={(e) => setForm({ ...form, starts_at: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="ends_at">Ends</Label>
+                  <Input
+                    id="ends_at"
+                    type="datetime-local"
+                    value={form.ends_at}
+                    onChange={(e) => setForm({ ...form, ends_at: e.target.value })}
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Only On</Label>
+                <div className="flex flex-wrap gap-4">
+                  {DAYS_OF_WEEK.map((day, index) => (
+                    <label key={day} className="flex items-center gap-2 text-sm">
+                      <Checkbox
+                        checked={form.days_of_week.includes(index)}
+                        onCheckedChange={(checked) => toggleDay(index, checked === true)}
+                      />
+                      {day}
+                    </label>
+                  ))}
+                </div>
+                <p className="text-sm text-muted-foreground">Leave empty to run every day.</p>
+              </div>
+
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="promo-active"
+                  checked={form.active}
+                  onCheckedChange={(checked) => setForm({ ...form, active: checked })}
+                />
+                <Label htmlFor="promo-active">Active</Label>
+              </div>
+            </div>
+            <DialogFooter>
+              <Button variant="outline" type="button" onClick={() => setFormOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSubmitting}>
+                {isSubmitting ? "Saving..." : "Save Promotion"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={promotionToDelete !== null} onOpenChange={(open) => !open && setPromotionToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete promotion?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Past sales keep their recorded discount. To pause a promotion instead, switch it off.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={confirmDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
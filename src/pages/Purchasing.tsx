@@ -0,0 +1,454 @@
+import { useState, useEffect, useCallback } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useToast } from "@/components/ui/use-toast";
+import { ArrowLeft, Edit, Eye, PackageCheck, Plus, Truck } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import { PurchaseOrderDialog } from "@/components/purchasing/PurchaseOrderDialog";
+import { ReceiveGoodsDialog } from "@/components/purchasing/ReceiveGoodsDialog";
+import { SupplierDialog } from "@/components/purchasing/SupplierDialog";
+import {
+  ProductOption,
+  PurchaseOrder,
+  Supplier,
+  formatLeadTime,
+  formatPoNumber,
+  isOpenPurchaseOrder,
+  purchaseOrderStatusLabel,
+  purchaseOrderTotal,
+} from "@/lib/purchasing";
+
+export default function Purchasing() {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [orders, setOrders] = useState<PurchaseOrder[]>([]);
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [products, setProducts] = useState<ProductOption[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [orderFormOpen, setOrderFormOpen] = useState(false);
+  const [orderToReceive, setOrderToReceive] = useState<PurchaseOrder | null>(null);
+  const [orderToView, setOrderToView] = useState<PurchaseOrder | null>(null);
+  const [orderToClose, setOrderToClose] = useState<PurchaseOrder | null>(null);
+  const [closeReason, setCloseReason] = useState("");
+  const [supplierFormOpen, setSupplierFormOpen] = useState(false);
+  const [supplierToEdit, setSupplierToEdit] = useState<Supplier | null>(null);
+
+  const fetchOrders = useCallback(async () => {
+    const { data, error } = await supabase
+      .from("purchase_orders")
+      .select(`
+        *,
+        supplier:suppliers(name),
+        lines:purchase_order_lines(*, product:products(name, sku)),
+        receipts:goods_receipts(
+          id, received_at, supplier_reference, notes,
+          lines:goods_receipt_lines(id, quantity_received, quantity_rejected, discrepancy_note, product:products(name))
+        )
+      `)
+      .order("created_at", { ascending: false });
+
+    if (error) {
+      toast({
+        title: "Error fetching purchase orders",
+        description: error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setOrders(data);
+  }, [toast]);
+
+  useEffect(() => {
+    const fetchData = async () => {
+      try {
+        const [suppliersResult, productsResult] = await Promise.all([
+          supabase.from("suppliers").select("*").order("name"),
+          supabase.from("products").select("id, name, sku").order("name"),
+        ]);
+
+        if (suppliersResult.error) throw suppliersResult.error;
+        if (productsResult.error) throw productsResult.error;
+
+        setSuppliers(suppliersResult.data);
+        setProducts(productsResult.data);
+        await fetchOrders();
+      } catch (error: any) {
+        toast({
+          title: "Error fetching purchasing data",
+          description: error.message,
+          variant: "destructive",
+        });
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchData();
+  }, [fetchOrders, toast]);
+
+  const confirmClose = async () => {
+    if (!orderToClose) return;
+
+    try {
+      const { error } = await supabase.rpc("close_purchase_order", {
+        purchase_order_id: orderToClose.id,
+        reason: closeReason.trim(),
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "Purchase order closed",
+        description: `${formatPoNumber(orderToClose.po_number)} will not take more deliveries`,
+      });
+      await fetchOrders();
+    } catch (error: any) {
+      toast({
+        title: "Error closing purchase order",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setOrderToClose(null);
+    }
+  };
+
+  const saveSupplier = (supplier: Supplier) => {
+    setSuppliers(current =>
+      current.some(s => s.id === supplier.id)
+        ? current.map(s => (s.id === supplier.id ? supplier : s))
+        : [...current, supplier].sort((a, b) => a.name.localeCompare(b.name))
+    );
+  };
+
+  if (loading) {
+    return <div className="flex items-center justify-center min-h-screen">Loading...</div>;
+  }
+
+  return (
+    <div className="min-h-screen bg-background p-6">
+      <div className="flex items-center gap-2 mb-6">
+        <Button
+          variant="outline"
+          size="icon"
+          onClick={() => navigate("/dashboard")}
+          className="mr-2"
+        >
+          <ArrowLeft className="h-4 w-4" />
+        </Button>
+        <Truck className="h-6 w-6 mr-2" />
+        <h1 className="text-2xl font-bold">Purchasing</h1>
+      </div>
+
+      <Tabs defaultValue="orders">
+        <TabsList>
+          <TabsTrigger value="orders">Purchase Orders</TabsTrigger>
+          <TabsTrigger value="suppliers">Suppliers</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="orders" className="mt-6 space-y-4">
+          <div className="flex justify-end">
+            <Button onClick={() => setOrderFormOpen(true)}>
+              <Plus className="mr-2 h-4 w-4" /> New Purchase Order
+            </Button>
+          </div>
+          <div className="border rounded-lg overflow-hidden">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>PO</TableHead>
+                  <TableHead>Supplier</TableHead>
+                  <TableHead>Ordered</TableHead>
+                  <TableHead>Expected</TableHead>
+                  <TableHead className="text-right">Received</TableHead>
+                  <TableHead className="text-right">Total</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {orders.length > 0 ? (
+                  orders.map((order) => {
+                    const ordered = order.lines.reduce((sum, line) => sum + line.quantity_ordered, 0);
+                    const received = order.lines.reduce((sum, line) => sum + line.quantity_received, 0);
+                    const rejected = order.lines.reduce((sum, line) => sum + line.quantity_rejected, 0);
+                    return (
+                      <TableRow key={order.id}>
+                        <TableCell className="font-medium">{formatPoNumber(order.po_number)}</TableCell>
+                        <TableCell>{order.supplier.name}</TableCell>
+                        <TableCell>{format(new Date(order.created_at), "PP")}</TableCell>
+                        <TableCell>{order.expected_date ? format(parseISO(order.expected_date), "PP") : "—"}</TableCell>
+                        <TableCell className="text-right">
+                          {received} / {ordered}
+                          {rejected > 0 && (
+                            <span className="block text-xs text-red-500">{rejected} rejected</span>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right">Rp{purchaseOrderTotal(order).toFixed(2)}</TableCell>
+                        <TableCell>
+                          <Badge variant={isOpenPurchaseOrder(order.status) ? "secondary" : "outline"}>
+                            {purchaseOrderStatusLabel(order.status)}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <div className="flex justify-end gap-2">
+                            <Button variant="outline" size="sm" title="Details" onClick={() => setOrderToView(order)}>
+                              <Eye className="h-4 w-4" />
+                            </Button>
+                            {isOpenPurchaseOrder(order.status) && (
+                              <>
+                                <Button size="sm" onClick={() => setOrderToReceive(order)}>
+                                  <PackageCheck className="h-4 w-4 mr-2" /> Receive
+                                </Button>
+                                <Button
+                                  variant="outline"
+                                  size="sm"
+                                  onClick={() => {
+                                    setCloseReason("");
+                                    setOrderToClose(order);
+                                  }}
+                                >
+                                  Close
+                                </Button>
+                              </>
+                            )}
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })
+                ) : (
+                  <TableRow>
+                    <TableCell colSpan={8} className="h-24 text-center">
+                      No purchase orders yet.
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </TabsContent>
+
+        <TabsContent value="suppliers" className="mt-6 space-y-4">
+          <div className="flex justify-end">
+            <Button
+              onClick={() => {
+                setSupplierToEdit(null);
+                setSupplierFormOpen(true);
+              }}
+            >
+              <Plus className="mr-2 h-4 w-4" /> Add Supplier
+            </Button>
+          </div>
+          <div className="border rounded-lg overflow-hidden">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Contact</TableHead>
+                  <TableHead>Payment Terms</TableHead>
+                  <TableHead>Lead Time</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {suppliers.length > 0 ? (
+                  suppliers.map((supplier) => (
+                    <TableRow key={supplier.id}>
+                      <TableCell className="font-medium">{supplier.name}</TableCell>
+                      <TableCell>
+                        {supplier.contact_name || "—"}
+                        {(supplier.phone || supplier.email) && (
+                          <span className="block text-xs text-muted-foreground">
+                            {[supplier.phone, supplier.email].filter(Boolean).join(" · ")}
+                          </span>
+                        )}
+                      </TableCell>
+                      <TableCell>{supplier.payment_terms || "—"}</TableCell>
+                      <TableCell>{formatLeadTime(supplier.lead_time_days)}</TableCell>
+                      <TableCell>
+                        <Badge variant={supplier.active ? "secondary" : "outline"}>
+                          {supplier.active ? "Active" : "Inactive"}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => {
+                            setSupplierToEdit(supplier);
+                            setSupplierFormOpen(true);
+                          }}
+                        >
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                ) : (
+                  <TableRow>
+                    <TableCell colSpan={6} className="h-24 text-center">
+                      No suppliers yet.
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </TabsContent>
+      </Tabs>
+
+      <PurchaseOrderDialog
+        open={orderFormOpen}
+        onOpenChange={setOrderFormOpen}
+        suppliers={suppliers}
+        products={products}
+        onCreated={fetchOrders}
+      />
+
+      <ReceiveGoodsDialog
+        open={orderToReceive !== null}
+        onOpenChange={(open) => !open && setOrderToReceive(null)}
+        order={orderToReceive}
+        onReceived={fetchOrders}
+      />
+
+      <SupplierDialog
+        open={supplierFormOpen}
+        onOpenChange={setSupplierFormOpen}
+        supplier={supplierToEdit}
+        onSaved={saveSupplier}
+      />
+
+      <Dialog open={orderToView !== null} onOpenChange={(open) => !open && setOrderToView(null)}>
+        <DialogContent className="sm:max-w-[700px]">
+          {orderToView && (
+            <>
+              <DialogHeader>
+                <DialogTitle>
+                  {formatPoNumber(orderToView.po_number)} · {orderToView.supplier.name}
+                </DialogTitle>
+                <DialogDescription>
+                  {purchaseOrderStatusLabel(orderToView.status)}
+                  {orderToView.close_reason && `: ${orderToView.close_reason}`}
+                </DialogDescription>
+              </DialogHeader>
+              <div className="space-y-4 max-h-[60vh] overflow-y-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Product</TableHead>
+                      <TableHead className="text-right">Unit Cost</TableHead>
+                      <TableHead className="text-right">Ordered</TableHead>
+                      <TableHead className="text-right">Received</TableHead>
+                      <TableHead className="text-right">Rejected</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {orderToView.lines.map((line) => (
+                      <TableRow key={line.id}>
+                        <TableCell>{line.product.name}</TableCell>
+                        <TableCell className="text-right">Rp{line.unit_cost.toFixed(2)}</TableCell>
+                        <TableCell className="text-right">{line.quantity_ordered}</TableCell>
+                        <TableCell className="text-right">{line.quantity_received}</TableCell>
+                        <TableCell className="text-right">{line.quantity_rejected}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+                {orderToView.notes && <p className="text-sm text-muted-foreground">{orderToView.notes}</p>}
+
+                <div className="space-y-2">
+                  <Label>Deliveries</Label>
+                  {orderToView.receipts.length > 0 ? (
+                    orderToView.receipts.map((receipt) => (
+                      <div key={receipt.id} className="rounded-lg border p-3 text-sm space-y-1">
+                        <p className="font-medium">
+                          {format(new Date(receipt.received_at), "PPp")}
+                          {receipt.supplier_reference && ` · ${receipt.supplier_reference}`}
+                        </p>
+                        {receipt.lines.map((line) => (
+                          <p key={line.id}>
+                            {line.product.name}: {line.quantity_received} received
+                            {line.quantity_rejected > 0 && `, ${line.quantity_rejected} rejected`}
+                            {line.discrepancy_note && (
+                              <span className="text-muted-foreground"> ({line.discrepancy_note})</span>
+                            )}
+                          </p>
+                        ))}
+                        {receipt.notes && <p className="text-muted-foreground">{receipt.notes}</p>}
+                      </div>
+                    ))
+                  ) : (
+                    <p className="text-sm text-muted-foreground">Nothing received yet.</p>
+                  )}
+                </div>
+              </div>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={orderToClose !== null} onOpenChange={(open) => !open && setOrderToClose(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Close {orderToClose && formatPoNumber(orderToClose.po_number)}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Outstanding quantities will no longer be expected. An order with no deliveries is cancelled.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="close-reason">
+              Reason <span className="text-red-500">*</span>
+            </Label>
+            <Textarea
+              id="close-reason"
+              value={closeReason}
+              onChange={(e) => setCloseReason(e.target.value)}
+              placeholder="e.g. Supplier out of stock"
+              rows={2}
+            />
+          </div>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={confirmClose} disabled={!closeReason.trim()}>
+              Close Order
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
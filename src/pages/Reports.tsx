@@ -0,0 +1,45 @@
+import { useNavigate } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ArrowLeft, BarChart3 } from "lucide-react";
+import { TaxReport } from "@/components/reports/TaxReport";
+import { AdjustmentReport } from "@/components/reports/AdjustmentReport";
+import { ValuationReport } from "@/components/reports/ValuationReport";
+
+export default function Reports() {
+  const navigate = useNavigate();
+
+  return (
+    <div className="min-h-screen bg-background p-6">
+      <div className="flex items-center gap-2 mb-6">
+        <Button
+          variant="outline"
+          size="icon"
+          onClick={() => navigate("/dashboard")}
+          className="mr-2"
+        >
+          <ArrowLeft className="h-4 w-4" />
+        </Button>
+        <BarChart3 className="h-6 w-6 mr-2" />
+        <h1 className="text-2xl font-bold">Reports</h1>
+      </div>
+
+      <Tabs defaultValue="tax">
+        <TabsList>
+          <TabsTrigger value="tax">Tax (PPN)</TabsTrigger>
+          <TabsTrigger value="adjustments">Stock Adjustments</TabsTrigger>
+          <TabsTrigger value="valuation">Inventory Valuation</TabsTrigger>
+        </TabsList>
+        <TabsContent value="tax" className="mt-6">
+          <TaxReport />
+        </TabsContent>
+        <TabsContent value="adjustments" className="mt-6">
+          <AdjustmentReport />
+        </TabsContent>
+        <TabsContent value="valuation" className="mt-6">
+          <ValuationReport />
+        </TabsContent>
+      </Tabs>
+    </div>
+  );
+}
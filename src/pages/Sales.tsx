@@ -30,14 +30,41 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
-import { Trash2 } from "lucide-react";
+import { Ban, Undo2 } from "lucide-react";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { paymentMethodLabel } from "@/lib/payments";
+import { ReturnDialog } from "@/components/sales/ReturnDialog";
+import { OverrideDialog } from "@/components/auth/OverrideDialog";
+import { useAuth } from "@/hooks/use-auth";
+import { Register } from "@/lib/registers";
 
 interface Sale {
   id: string;
   created_at: string;
+  gross_amount: number;
+  discount_amount: number;
+  discount_type: string | null;
+  discount_value: number;
+  discount_reason: string | null;
+  tax_amount: number;
+  prices_include_tax: boolean;
   total_amount: number;
   payment_method: string;
   status: string;
+  sale_type: string;
+  register_id: string | null;
+  original_sale_id: string | null;
+  return_reason: string | null;
+  voided_at: string | null;
+  void_reason: string | null;
 }
 
 interface SaleItem {
@@ -46,33 +73,48 @@ interface SaleItem {
   quantity: number;
   unit_price: number;
   subtotal: number;
+  discount_amount: number;
+  discount_reason: string | null;
+  promotion_discount: number;
   product: {
     name: string;
     sku: string;
   }
 }
 
+// Returns are stored with negative amounts.
+const formatAmount = (amount: number) =>
+  amount < 0 ? `-Rp${(-amount).toFixed(2)}` : `Rp${amount.toFixed(2)}`;
+
+interface SalePayment {
+  id: string;
+  method: string;
+  amount: number;
+  tendered: number | null;
+  change_due: number;
+}
+
 export default function Sales() {
   const navigate = useNavigate();
   const { toast } = useToast();
+  const { hasRole } = useAuth();
+  const isOwner = hasRole("store_owner");
   const [sales, setSales] = useState<Sale[]>([]);
   const [loading, setLoading] = useState(true);
   const [selectedSale, setSelectedSale] = useState<Sale | null>(null);
   const [saleItems, setSaleItems] = useState<SaleItem[]>([]);
+  const [salePayments, setSalePayments] = useState<SalePayment[]>([]);
   const [detailsOpen, setDetailsOpen] = useState(false);
-  const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
-  const [saleToDelete, setSaleToDelete] = useState<Sale | null>(null);
-  const [isDeleting, setIsDeleting] = useState(false);
+  const [voidDialogOpen, setVoidDialogOpen] = useState(false);
+  const [saleToVoid, setSaleToVoid] = useState<Sale | null>(null);
+  const [voidReason, setVoidReason] = useState("");
+  const [isVoiding, setIsVoiding] = useState(false);
+  const [returnOpen, setReturnOpen] = useState(false);
+  const [overrideOpen, setOverrideOpen] = useState(false);
+  const [registers, setRegisters] = useState<Pick<Register, "id" | "name">[]>([]);
+  const [registerFilter, setRegisterFilter] = useState("all");
 
   useEffect(() => {
-    const checkAuth = async () => {
-      const { data: { session } } = await supabase.auth.getSession();
-      if (!session) {
-        navigate("/auth");
-        return;
-      }
-    };
-
     const fetchSales = async () => {
       setLoading(true);
       try {
@@ -97,9 +139,21 @@ export default function Sales() {
       }
     };
 
-    checkAuth();
+    const fetchRegisters = async () => {
+      const { data } = await supabase.from("registers").select("id, name").order("name");
+      setRegisters(data ?? []);
+    };
+
     fetchSales();
-  }, [navigate, toast]);
+    fetchRegisters();
+  }, [toast]);
+
+  const registerName = (id: string | null) =>
+    registers.find(register => register.id === id)?.name ?? "—";
+
+  const filteredSales = registerFilter === "all"
+    ? sales
+    : sales.filter(sale => sale.register_id === registerFilter);
 
   const viewSaleDetails = async (sale: Sale) => {
     try {
@@ -116,8 +170,17 @@ export default function Sales() {
 
       if (error) throw error;
 
+      const { data: payments, error: paymentsError } = await supabase
+        .from("sale_payments")
+        .select("id, method, amount, tendered, change_due")
+        .eq("sale_id", sale.id)
+        .order("created_at");
+
+      if (paymentsError) throw paymentsError;
+
       setSelectedSale(sale);
       setSaleItems(data || []);
+      setSalePayments(payments || []);
       setDetailsOpen(true);
     } catch (error: any) {
       toast({
@@ -128,80 +191,75 @@ export default function Sales() {
     }
   };
 
-  const handleDeleteSale = (sale: Sale) => {
-    setSaleToDelete(sale);
-    setDeleteDialogOpen(true);
+  const handleReturned = async (returnSaleId: string) => {
+    setDetailsOpen(false);
+
+    const { data, error } = await supabase
+      .from("sales")
+      .select("*")
+      .eq("id", returnSaleId)
+      .single();
+
+    if (error) {
+      toast({
+        title: "Error fetching return",
+        description: error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSales(prevSales => [data, ...prevSales]);
+  };
+
+  const handleVoidSale = (sale: Sale) => {
+    setSaleToVoid(sale);
+    setVoidReason("");
+    setVoidDialogOpen(true);
   };
 
-  const confirmDelete = async () => {
-    if (!saleToDelete) return;
-    setIsDeleting(true);
+  const confirmVoid = async (overrideId?: string) => {
+    if (!saleToVoid) return;
+    // Shopkeepers can void with a store owner's approval.
+    if (!isOwner && !overrideId) {
+      setOverrideOpen(true);
+      return;
+    }
+    setIsVoiding(true);
 
     try {
-      console.log("Starting delete operation for sale ID:", saleToDelete.id);
-      
-      // First check if there are any sale items
-      const { data: itemsData, error: checkError } = await supabase
-        .from("sale_items")
-        .select("id")
-        .eq("sale_id", saleToDelete.id);
-        
-      if (checkError) {
-        console.error("Error checking sale items:", checkError);
-        throw checkError;
-      }
-      
-      console.log(`Found ${itemsData?.length || 0} sale items to delete`);
-      
-      // Only attempt to delete items if there are any
-      if (itemsData && itemsData.length > 0) {
-        console.log("Deleting sale items for sale ID:", saleToDelete.id);
-        const { error: itemsError } = await supabase
-          .from("sale_items")
-          .delete()
-          .eq("sale_id", saleToDelete.id);
-
-        if (itemsError) {
-          console.error("Error deleting sale items:", itemsError);
-          throw itemsError;
-        }
-        console.log("Sale items successfully deleted");
-      }
+      const { error } = await supabase.rpc("void_sale", {
+        sale_id: saleToVoid.id,
+        reason: voidReason.trim(),
+        override_id: overrideId,
+      });
 
-      console.log("Now deleting sale with ID:", saleToDelete.id);
-      // Then delete the sale
-      const { error: saleError } = await supabase
+      if (error) throw error;
+
+      const { data: voidedSale, error: fetchError } = await supabase
         .from("sales")
-        .delete()
-        .eq("id", saleToDelete.id);
+        .select("*")
+        .eq("id", saleToVoid.id)
+        .single();
 
-      if (saleError) {
-        console.error("Error deleting sale:", saleError);
-        throw saleError;
-      }
+      if (fetchError) throw fetchError;
 
-      console.log("Sale successfully deleted from database");
-      
-      // Update the local state to remove the deleted sale
-      setSales(prevSales => prevSales.filter(s => s.id !== saleToDelete.id));
-      
-      // Close the dialog and reset state AFTER successful deletion
-      setDeleteDialogOpen(false);
-      setSaleToDelete(null);
+      setSales(prevSales => prevSales.map(s => (s.id === voidedSale.id ? voidedSale : s)));
+      setVoidDialogOpen(false);
+      setSaleToVoid(null);
 
       toast({
-        title: "Sale deleted",
-        description: "The sale has been permanently deleted",
+        title: "Sale voided",
+        description: "The sale was voided and its stock restored",
       });
     } catch (error: any) {
-      console.error("Delete operation failed:", error);
       toast({
-        title: "Error deleting sale",
+        title: "Error voiding sale",
         description: error.message,
         variant: "destructive",
       });
     } finally {
-      setIsDeleting(false);
+      setIsVoiding(false);
     }
   };
 
@@ -213,9 +271,24 @@ export default function Sales() {
     <div className="min-h-screen bg-background p-8">
       <div className="flex justify-between items-center mb-6">
         <h1 className="text-2xl font-bold">Sales History</h1>
-        <Button variant="outline" onClick={() => navigate("/dashboard")}>
-          Back
-        </Button>
+        <div className="flex items-center gap-2">
+          <Select value={registerFilter} onValueChange={setRegisterFilter}>
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All registers</SelectItem>
+              {registers.map((register) => (
+                <SelectItem key={register.id} value={register.id}>
+                  {register.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" onClick={() => navigate("/dashboard")}>
+            Back
+          </Button>
+        </div>
       </div>
 
       <div className="border rounded-lg">
@@ -224,21 +297,34 @@ export default function Sales() {
             <TableRow>
               <TableHead>Date</TableHead>
               <TableHead>Receipt ID</TableHead>
+              <TableHead>Register</TableHead>
               <TableHead>Payment Method</TableHead>
               <TableHead>Status</TableHead>
-              <TableHead className="text-right">Amount</TableHead>
+              <TableHead className="text-right">Gross</TableHead>
+              <TableHead className="text-right">Discount</TableHead>
+              <TableHead className="text-right">Net</TableHead>
               <TableHead className="text-right">Actions</TableHead>
             </TableRow>
           </TableHeader>
           <TableBody>
-            {sales.length > 0 ? (
-              sales.map((sale) => (
-                <TableRow key={sale.id}>
+            {filteredSales.length > 0 ? (
+              filteredSales.map((sale) => (
+                <TableRow
+                  key={sale.id}
+                  className={sale.status === "voided" ? "line-through text-muted-foreground" : undefined}
+                >
                   <TableCell>{format(new Date(sale.created_at), "PPp")}</TableCell>
                   <TableCell className="font-medium">{sale.id.slice(0, 8)}</TableCell>
-                  <TableCell className="capitalize">{sale.payment_method}</TableCell>
-                  <TableCell className="capitalize">{sale.status}</TableCell>
-                  <TableCell className="text-right">Rp{sale.total_amount.toFixed(2)}</TableCell>
+                  <TableCell>{registerName(sale.register_id)}</TableCell>
+                  <TableCell>{paymentMethodLabel(sale.payment_method)}</TableCell>
+                  <TableCell className="capitalize">
+                    {sale.status === "voided" ? "Voided" : sale.sale_type === "return" ? "Return" : sale.status}
+                  </TableCell>
+                  <TableCell className="text-right">{formatAmount(sale.gross_amount)}</TableCell>
+                  <TableCell className="text-right">
+                    {sale.discount_amount > 0 ? `-Rp${sale.discount_amount.toFixed(2)}` : "—"}
+                  </TableCell>
+                  <TableCell className="text-right">{formatAmount(sale.total_amount)}</TableCell>
                   <TableCell className="text-right">
                     <div className="flex justify-end gap-2">
                       <Button 
@@ -248,21 +334,24 @@ export default function Sales() {
                       >
                         View Details
                       </Button>
-                      <Button
-                        variant="destructive"
-                        size="sm"
-                        onClick={() => handleDeleteSale(sale)}
-                        disabled={isDeleting && saleToDelete?.id === sale.id}
-                      >
-                        <Trash2 className="h-4 w-4" />
-                      </Button>
+                      {sale.status !== "voided" && (
+                        <Button
+                          variant="destructive"
+                          size="sm"
+                          title="Void sale"
+                          onClick={() => handleVoidSale(sale)}
+                          disabled={isVoiding && saleToVoid?.id === sale.id}
+                        >
+                          <Ban className="h-4 w-4" />
+                        </Button>
+                      )}
                     </div>
                   </TableCell>
                 </TableRow>
               ))
             ) : (
               <TableRow>
-                <TableCell colSpan={6} className="h-24 text-center">
+                <TableCell colSpan={9} className="h-24 text-center">
                   No sales records found.
                 </TableCell>
               </TableRow>
@@ -292,6 +381,22 @@ export default function Sales() {
                     {format(new Date(selectedSale.created_at), "PPp")}
                   </p>
                 </div>
+                {selectedSale.voided_at && (
+                  <div className="col-span-2">
+                    <p className="text-sm text-red-500">
+                      Voided {format(new Date(selectedSale.voided_at), "PPp")}
+                    </p>
+                    <p className="font-medium">{selectedSale.void_reason}</p>
+                  </div>
+                )}
+                {selectedSale.sale_type === "return" && (
+                  <div className="col-span-2">
+                    <p className="text-sm text-muted-foreground">
+                      Return of {selectedSale.original_sale_id?.slice(0, 8)}
+                    </p>
+                    <p className="font-medium">{selectedSale.return_reason}</p>
+                  </div>
+                )}
               </div>
 
               <Table>
@@ -301,6 +406,7 @@ export default function Sales() {
                     <TableHead>SKU</TableHead>
                     <TableHead className="text-right">Quantity</TableHead>
                     <TableHead className="text-right">Unit Price</TableHead>
+                    <TableHead className="text-right">Discount</TableHead>
                     <TableHead className="text-right">Subtotal</TableHead>
                   </TableRow>
                 </TableHeader>
@@ -312,12 +418,22 @@ export default function Sales() {
                         <TableCell>{item.product.sku}</TableCell>
                         <TableCell className="text-right">{item.quantity}</TableCell>
                         <TableCell className="text-right">Rp{item.unit_price.toFixed(2)}</TableCell>
-                        <TableCell className="text-right">Rp{item.subtotal.toFixed(2)}</TableCell>
+                        <TableCell className="text-right">
+                          {item.discount_amount + item.promotion_discount > 0 ? (
+                            <span title={[
+                              item.promotion_discount > 0 ? "Promotion" : null,
+                              item.discount_reason,
+                            ].filter(Boolean).join(", ")}>
+                              -Rp{(item.discount_amount + item.promotion_discount).toFixed(2)}
+                            </span>
+                          ) : "—"}
+                        </TableCell>
+                        <TableCell className="text-right">{formatAmount(item.subtotal)}</TableCell>
                       </TableRow>
                     ))
                   ) : (
                     <TableRow>
-                      <TableCell colSpan={5} className="h-24 text-center">
+                      <TableCell colSpan={6} className="h-24 text-center">
                         No items found for this sale.
                       </TableCell>
                     </TableRow>
@@ -325,41 +441,112 @@ export default function Sales() {
                 </TableBody>
               </Table>
 
-              <div className="flex justify-end">
-                <div className="text-right">
-                  <p className="text-sm text-muted-foreground">Total Amount</p>
-                  <p className="text-lg font-bold">Rp{selectedSale.total_amount.toFixed(2)}</p>
+              <div className="flex justify-between gap-8">
+                <div className="space-y-1">
+                  <p className="text-sm text-muted-foreground">Payments</p>
+                  {salePayments.map((payment) => (
+                    <p key={payment.id} className="text-sm">
+                      {paymentMethodLabel(payment.method)}: {formatAmount(payment.amount)}
+                      {payment.change_due > 0 &&
+                        ` (tendered Rp${(payment.tendered ?? payment.amount).toFixed(2)}, change Rp${payment.change_due.toFixed(2)})`}
+                    </p>
+                  ))}
+                </div>
+                <div className="text-right space-y-1">
+                  <p className="text-sm">
+                    <span className="text-muted-foreground">Gross: </span>
+                    {formatAmount(selectedSale.gross_amount)}
+                  </p>
+                  {selectedSale.discount_amount > 0 && (
+                    <p className="text-sm">
+                      <span className="text-muted-foreground">Discount: </span>
+                      -Rp{selectedSale.discount_amount.toFixed(2)}
+                    </p>
+                  )}
+                  {selectedSale.discount_reason && (
+                    <p className="text-sm text-muted-foreground">
+                      Basket discount reason: {selectedSale.discount_reason}
+                    </p>
+                  )}
+                  {selectedSale.tax_amount !== 0 && (
+                    <p className="text-sm">
+                      <span className="text-muted-foreground">
+                        {selectedSale.prices_include_tax ? "PPN (included): " : "PPN: "}
+                      </span>
+                      {formatAmount(selectedSale.tax_amount)}
+                    </p>
+                  )}
+                  <p className="text-sm text-muted-foreground">Net Amount</p>
+                  <p className="text-lg font-bold">{formatAmount(selectedSale.total_amount)}</p>
                 </div>
               </div>
+
+              {selectedSale.sale_type === "sale" && selectedSale.status !== "voided" && (
+                <div className="flex justify-end">
+                  <Button variant="outline" onClick={() => setReturnOpen(true)}>
+                    <Undo2 className="h-4 w-4 mr-2" />
+                    Return Items
+                  </Button>
+                </div>
+              )}
             </div>
           )}
         </DialogContent>
       </Dialog>
 
-      <AlertDialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
+      <ReturnDialog
+        open={returnOpen}
+        onOpenChange={setReturnOpen}
+        saleId={selectedSale?.id ?? null}
+        onReturned={handleReturned}
+      />
+
+      <AlertDialog open={voidDialogOpen} onOpenChange={setVoidDialogOpen}>
         <AlertDialogContent>
           <AlertDialogHeader>
-            <AlertDialogTitle>Are you sure?</AlertDialogTitle>
+            <AlertDialogTitle>Void this sale?</AlertDialogTitle>
             <AlertDialogDescription>
-              This action cannot be undone. This will permanently delete the sale record
-              and all associated items from the database.
+              The sale stays in the history, struck through and excluded from totals.
+              Its items are returned to stock.
             </AlertDialogDescription>
           </AlertDialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="void-reason">
+              Reason <span className="text-red-500">*</span>
+            </Label>
+            <Textarea
+              id="void-reason"
+              value={voidReason}
+              onChange={(e) => setVoidReason(e.target.value)}
+            />
+          </div>
           <AlertDialogFooter>
-            <AlertDialogCancel disabled={isDeleting}>Cancel</AlertDialogCancel>
+            <AlertDialogCancel disabled={isVoiding}>Cancel</AlertDialogCancel>
             <AlertDialogAction 
               onClick={(e) => {
                 // Prevent default to avoid closing the dialog automatically
                 e.preventDefault();
-                confirmDelete();
+                confirmVoid();
               }} 
-              disabled={isDeleting}
+              disabled={isVoiding || !voidReason.trim()}
             >
-              {isDeleting ? "Deleting..." : "Delete"}
+              {isVoiding ? "Voiding..." : "Void Sale"}
             </AlertDialogAction>
           </AlertDialogFooter>
         </AlertDialogContent>
       </AlertDialog>
+
+      {saleToVoid && (
+        <OverrideDialog
+          open={overrideOpen}
+          onOpenChange={setOverrideOpen}
+          action="void_sale"
+          details={{ target: saleToVoid.id }}
+          reason={voidReason.trim()}
+          description={`Void sale ${saleToVoid.id.slice(0, 8)} (${formatAmount(saleToVoid.total_amount)}): ${voidReason.trim()}`}
+          onApproved={(approval) => confirmVoid(approval.id)}
+        />
+      )}
     </div>
   );
 }
@@ -8,6 +8,7 @@ import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { useToast } from "@/components/ui/use-toast";
 import { User } from "lucide-react";
+import { Switch } from "@/components/ui/switch";
 import {
   Select,
   SelectContent,
@@ -15,6 +16,11 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
+import { RegistersCard } from "@/components/settings/RegistersCard";
+import { PinCard } from "@/components/settings/PinCard";
+import { useAuth } from "@/hooks/use-auth";
+import { AppRole, ROLE_LABELS, canAccess } from "@/lib/roles";
+import { COST_METHODS, CostMethod } from "@/lib/costing";
 
 interface Profile {
   id: string;
@@ -25,6 +31,32 @@ interface Profile {
   language: string;
 }
 
+interface StoreSettings {
+  allow_backorders: boolean;
+  prices_include_tax: boolean;
+  ppn_rate: number | string;
+  cash_variance_threshold: number | string;
+  pos_auto_lock_minutes: number | string;
+  cost_method: CostMethod;
+  timezone: string;
+}
+
+interface DiscountLimit {
+  role: AppRole;
+  max_percent: number | string;
+}
+
+interface AdjustmentLimit {
+  role: DiscountLimit["role"];
+  max_units: number | string;
+}
+
+const timeZones = [
+  { value: "Asia/Jakarta", label: "WIB (Jakarta)" },
+  { value: "Asia/Makassar", label: "WITA (Makassar)" },
+  { value: "Asia/Jayapura", label: "WIT (Jayapura)" },
+];
+
 const languages = [
   { value: "en", label: "English" },
   { value: "id", label: "Indonesian" },
@@ -36,6 +68,10 @@ const languages = [
 export default function Settings() {
   const navigate = useNavigate();
   const { toast } = useToast();
+  const { user, roles, hasRole } = useAuth();
+  const userId = user?.id;
+  const userEmail = user?.email;
+  const isOwner = hasRole("store_owner");
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [profile, setProfile] = useState<Profile>({
@@ -46,36 +82,63 @@ export default function Settings() {
     address: "",
     language: "en",
   });
+  const [storeSettings, setStoreSettings] = useState<StoreSettings>({
+    allow_backorders: false,
+    prices_include_tax: true,
+    ppn_rate: 11,
+    cash_variance_threshold: 10000,
+    pos_auto_lock_minutes: 5,
+    cost_method: "weighted_average",
+    timezone: "Asia/Jakarta",
+  });
+  const [savingStoreSettings, setSavingStoreSettings] = useState(false);
+  const [discountLimits, setDiscountLimits] = useState<DiscountLimit[]>([]);
+  const [adjustmentLimits, setAdjustmentLimits] = useState<AdjustmentLimit[]>([]);
 
   useEffect(() => {
-    const checkAuth = async () => {
-      const { data: { session } } = await supabase.auth.getSession();
-      if (!session) {
-        navigate("/auth");
-        return;
-      }
-      return session;
-    };
-
     const loadProfile = async () => {
+      if (!userId) return;
       try {
-        const session = await checkAuth();
-        if (!session) return;
-
         const { data, error } = await supabase
           .from("profiles")
           .select("*")
-          .eq("id", session.user.id)
+          .eq("id", userId)
           .single();
 
         if (error) throw error;
 
         setProfile({
           ...data,
-          email: session.user.email,
+          email: userEmail,
         });
 
         document.documentElement.lang = data.language || "en";
+
+        if (isOwner) {
+          const { data: settings, error: settingsError } = await supabase
+            .from("store_settings")
+            .select("allow_backorders, prices_include_tax, ppn_rate, cash_variance_threshold, pos_auto_lock_minutes, cost_method, timezone")
+            .maybeSingle();
+
+          if (settingsError) throw settingsError;
+          if (settings) setStoreSettings({ ...settings, cost_method: settings.cost_method as CostMethod });
+
+          const { data: limits, error: limitsError } = await supabase
+            .from("role_discount_limits")
+            .select("role, max_percent")
+            .order("max_percent", { ascending: false });
+
+          if (limitsError) throw limitsError;
+          setDiscountLimits(limits || []);
+
+          const { data: adjustments, error: adjustmentsError } = await supabase
+            .from("role_adjustment_limits")
+            .select("role, max_units")
+            .order("max_units", { ascending: false });
+
+          if (adjustmentsError) throw adjustmentsError;
+          setAdjustmentLimits(adjustments || []);
+        }
       } catch (error: any) {
         toast({
           title: "Error loading profile",
@@ -88,7 +151,7 @@ export default function Settings() {
     };
 
     loadProfile();
-  }, [navigate, toast]);
+  }, [toast, userId, userEmail, isOwner]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -139,6 +202,89 @@ export default function Settings() {
     }));
   };
 
+  const handleStoreSettingsSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSavingStoreSettings(true);
+
+    try {
+      const ppnRate = Number(storeSettings.ppn_rate);
+      if (storeSettings.ppn_rate === "" || isNaN(ppnRate) || ppnRate < 0 || ppnRate >= 100) {
+        throw new Error("PPN rate must be between 0 and 100");
+      }
+
+      const varianceThreshold = Number(storeSettings.cash_variance_threshold);
+      if (storeSettings.cash_variance_threshold === "" || isNaN(varianceThreshold) || varianceThreshold < 0) {
+        throw new Error("Cash variance threshold must be zero or more");
+      }
+
+      const autoLockMinutes = Number(storeSettings.pos_auto_lock_minutes);
+      if (storeSettings.pos_auto_lock_minutes === "" || !Number.isInteger(autoLockMinutes) || autoLockMinutes < 0) {
+        throw new Error("Auto-lock must be a whole number of minutes, or 0 to turn it off");
+      }
+
+      const invalidLimit = discountLimits.find(limit => {
+        const value = Number(limit.max_percent);
+        return limit.max_percent === "" || isNaN(value) || value < 0 || value > 100;
+      });
+      if (invalidLimit) {
+        throw new Error(`Discount limit for ${ROLE_LABELS[invalidLimit.role]} must be between 0 and 100`);
+      }
+
+      const invalidAdjustment = adjustmentLimits.find(limit => {
+        const value = Number(limit.max_units);
+        return limit.max_units === "" || !Number.isInteger(value) || value < 0;
+      });
+      if (invalidAdjustment) {
+        throw new Error(`Stock adjustment limit for ${ROLE_LABELS[invalidAdjustment.role]} must be a whole number of units`);
+      }
+
+      const { error } = await supabase
+        .from("store_settings")
+        .update({
+          ...storeSettings,
+          ppn_rate: ppnRate,
+          cash_variance_threshold: varianceThreshold,
+          pos_auto_lock_minutes: autoLockMinutes,
+          updated_at: new Date().toISOString(),
+          updated_by: profile.id,
+        })
+        .eq("id", true);
+
+      if (error) throw error;
+
+      const { error: limitsError } = await supabase
+        .from("role_discount_limits")
+        .upsert(discountLimits.map(limit => ({
+          role: limit.role,
+          max_percent: Number(limit.max_percent),
+        })));
+
+      if (limitsError) throw limitsError;
+
+      const { error: adjustmentsError } = await supabase
+        .from("role_adjustment_limits")
+        .upsert(adjustmentLimits.map(limit => ({
+          role: limit.role,
+          max_units: Number(limit.max_units),
+        })));
+
+      if (adjustmentsError) throw adjustmentsError;
+
+      toast({
+        title: "Success",
+        description: "Store settings have been updated",
+      });
+    } catch (error: any) {
+      toast({
+        title: "Error updating store settings",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setSavingStoreSettings(false);
+    }
+  };
+
   const handleSignOut = async () => {
     try {
       await supabase.auth.signOut({ scope: 'local' });
@@ -255,6 +401,227 @@ export default function Settings() {
             </form>
           </CardContent>
         </Card>
+
+        {isOwner && (
+          <Card className="mt-6">
+            <CardHeader>
+              <CardTitle>Store Settings</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <form onSubmit={handleStoreSettingsSubmit} className="space-y-4">
+                <div className="flex items-center justify-between gap-4">
+                  <div className="space-y-1">
+                    <Label htmlFor="allow_backorders">Allow backorders</Label>
+                    <p className="text-sm text-muted-foreground">
+                      Let the POS sell products beyond the stock on hand
+                    </p>
+                  </div>
+                  <Switch
+                    id="allow_backorders"
+                    checked={storeSettings.allow_backorders}
+                    onCheckedChange={(checked) =>
+                      setStoreSettings(prev => ({ ...prev, allow_backorders: checked }))
+                    }
+                  />
+                </div>
+
+                <div className="flex items-center justify-between gap-4">
+                  <div className="space-y-1">
+                    <Label htmlFor="prices_include_tax">Shelf prices include PPN</Label>
+                    <p className="text-sm text-muted-foreground">
+                      When off, PPN is added on top of product prices at checkout
+                    </p>
+                  </div>
+                  <Switch
+                    id="prices_include_tax"
+                    checked={storeSettings.prices_include_tax}
+                    onCheckedChange={(checked) =>
+                      setStoreSettings(prev => ({ ...prev, prices_include_tax: checked }))
+                    }
+                  />
+                </div>
+
+                <div className="flex items-center justify-between gap-4">
+                  <div className="space-y-1">
+                    <Label htmlFor="ppn_rate">PPN rate (%)</Label>
+                    <p className="text-sm text-muted-foreground">
+                      Applied to products with the standard tax class
+                    </p>
+                  </div>
+                  <Input
+                    id="ppn_rate"
+                    type="number"
+                    min="0"
+                    max="99"
+                    step="0.01"
+                    className="w-28"
+                    value={storeSettings.ppn_rate}
+                    onChange={(e) =>
+                      setStoreSettings(prev => ({ ...prev, ppn_rate: e.target.value }))
+                    }
+                  />
+                </div>
+
+                <div className="flex items-center justify-between gap-4">
+                  <div className="space-y-1">
+                    <Label htmlFor="cash_variance_threshold">Cash variance threshold (Rp)</Label>
+                    <p className="text-sm text-muted-foreground">
+                      Drawers over or short by more than this need a note at shift close
+                    </p>
+                  </div>
+                  <Input
+                    id="cash_variance_threshold"
+                    type="number"
+                    min="0"
+                    step="100"
+                    className="w-28"
+                    value={storeSettings.cash_variance_threshold}
+                    onChange={(e) =>
+                      setStoreSettings(prev => ({ ...prev, cash_variance_threshold: e.target.value }))
+                    }
+                  />
+                </div>
+
+                <div className="flex items-center justify-between gap-4">
+                  <div className="space-y-1">
+                    <Label htmlFor="pos_auto_lock_minutes">POS auto-lock (minutes)</Label>
+                    <p className="text-sm text-muted-foreground">
+                      Lock the till after this long without activity; 0 turns it off
+                    </p>
+                  </div>
+                  <Input
+                    id="pos_auto_lock_minutes"
+                    type="number"
+                    min="0"
+                    step="1"
+                    className="w-28"
+                    value={storeSettings.pos_auto_lock_minutes}
+                    onChange={(e) =>
+                      setStoreSettings(prev => ({ ...prev, pos_auto_lock_minutes: e.target.value }))
+                    }
+                  />
+                </div>
+
+                <div className="flex items-center justify-between gap-4">
+                  <div className="space-y-1">
+                    <Label htmlFor="timezone">Store time zone</Label>
+                    <p className="text-sm text-muted-foreground">
+                      Decides which day it is for weekday promotions
+                    </p>
+                  </div>
+                  <Select
+                    value={storeSettings.timezone}
+                    onValueChange={(value) =>
+                      setStoreSettings(prev => ({ ...prev, timezone: value }))
+                    }
+                  >
+                    <SelectTrigger id="timezone" className="w-44">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {timeZones.map((zone) => (
+                        <SelectItem key={zone.value} value={zone.value}>
+                          {zone.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="flex items-center justify-between gap-4">
+                  <div className="space-y-1">
+                    <Label htmlFor="cost_method">Costing method</Label>
+                    <p className="text-sm text-muted-foreground">
+                      {COST_METHODS.find(m => m.value === storeSettings.cost_method)?.description}
+                    </p>
+                  </div>
+                  <Select
+                    value={storeSettings.cost_method}
+                    onValueChange={(value) =>
+                      setStoreSettings(prev => ({ ...prev, cost_method: value as CostMethod }))
+                    }
+                  >
+                    <SelectTrigger id="cost_method" className="w-44">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {COST_METHODS.map((method) => (
+                        <SelectItem key={method.value} value={method.value}>
+                          {method.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Maximum discount by role (%)</Label>
+                  <p className="text-sm text-muted-foreground">
+                    Larger discounts need a store owner's approval at the till
+                  </p>
+                  {discountLimits.map((limit) => (
+                    <div key={limit.role} className="flex items-center justify-between gap-4">
+                      <Label htmlFor={`discount-limit-${limit.role}`} className="font-normal">
+                        {ROLE_LABELS[limit.role]}
+                      </Label>
+                      <Input
+                        id={`discount-limit-${limit.role}`}
+                        type="number"
+                        min="0"
+                        max="100"
+                        step="0.5"
+                        className="w-28"
+                        value={limit.max_percent}
+                        onChange={(e) =>
+                          setDiscountLimits(prev => prev.map(l =>
+                            l.role === limit.role ? { ...l, max_percent: e.target.value } : l
+                          ))
+                        }
+                      />
+                    </div>
+                  ))}
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Maximum stock adjustment by role (units)</Label>
+                  <p className="text-sm text-muted-foreground">
+                    The most units one adjustment or stock count may add or remove; 0 means the role cannot adjust stock
+                  </p>
+                  {adjustmentLimits.map((limit) => (
+                    <div key={limit.role} className="flex items-center justify-between gap-4">
+                      <Label htmlFor={`adjustment-limit-${limit.role}`} className="font-normal">
+                        {ROLE_LABELS[limit.role]}
+                      </Label>
+                      <Input
+                        id={`adjustment-limit-${limit.role}`}
+                        type="number"
+                        min="0"
+                        step="1"
+                        className="w-28"
+                        value={limit.max_units}
+                        onChange={(e) =>
+                          setAdjustmentLimits(prev => prev.map(l =>
+                            l.role === limit.role ? { ...l, max_units: e.target.value } : l
+                          ))
+                        }
+                      />
+                    </div>
+                  ))}
+                </div>
+
+                <div className="flex justify-end">
+                  <Button type="submit" disabled={savingStoreSettings}>
+                    {savingStoreSettings ? "Saving..." : "Save Store Settings"}
+                  </Button>
+                </div>
+              </form>
+            </CardContent>
+          </Card>
+        )}
+
+        {canAccess(roles, "pos") && <PinCard />}
+
+        <RegistersCard canManage={isOwner} />
       </div>
     </div>
   );
@@ -27,10 +27,36 @@ import {
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
-import { Trash2 } from "lucide-react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Ban, Printer } from "lucide-react";
+import { paymentMethodLabel } from "@/lib/payments";
+import { CashCountForm } from "@/components/shifts/CashCountForm";
+import { CashMovementDialog } from "@/components/shifts/CashMovementDialog";
+import { CashMovementsList } from "@/components/shifts/CashMovementsList";
+import { CashCount, CashMovement, cashCountTotal, formatSignedAmount } from "@/lib/cash";
+import { parseShiftReport, printShiftReport } from "@/lib/shift-report";
+import { Register, getPairedRegisterId } from "@/lib/registers";
+import { useAuth } from "@/hooks/use-auth";
+import { OverrideDialog } from "@/components/auth/OverrideDialog";
 
 interface Shift {
   id: string;
+  cashier_id: string;
+  register_id: string;
   start_time: string;
   end_time: string | null;
   starting_cash: number;
@@ -38,11 +64,24 @@ interface Shift {
   total_sales: number | null;
   status: string;
   notes: string | null;
+  voided_at: string | null;
+  void_reason: string | null;
+  expected_cash: number | null;
+  cash_variance: number | null;
+  z_number: number | null;
+}
+
+interface PaymentTotal {
+  method: string;
+  amount: number;
 }
 
 export default function Shifts() {
   const navigate = useNavigate();
   const { toast } = useToast();
+  const { user, hasRole } = useAuth();
+  const isOwner = hasRole("store_owner");
+  const currentUserId = user?.id ?? null;
   const [shifts, setShifts] = useState<Shift[]>([]);
   const [activeShift, setActiveShift] = useState<Shift | null>(null);
   const [loading, setLoading] = useState(true);
@@ -51,20 +90,26 @@ export default function Shifts() {
   const [viewShiftOpen, setViewShiftOpen] = useState(false);
   const [selectedShift, setSelectedShift] = useState<Shift | null>(null);
   const [startingCash, setStartingCash] = useState("");
-  const [endingCash, setEndingCash] = useState("");
+  const [cashCount, setCashCount] = useState<CashCount>({});
+  const [expectedCash, setExpectedCash] = useState<number | null>(null);
+  const [varianceThreshold, setVarianceThreshold] = useState(0);
   const [shiftNotes, setShiftNotes] = useState("");
-  const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
-  const [shiftToDelete, setShiftToDelete] = useState<Shift | null>(null);
+  const [voidDialogOpen, setVoidDialogOpen] = useState(false);
+  const [shiftToVoid, setShiftToVoid] = useState<Shift | null>(null);
+  const [overrideOpen, setOverrideOpen] = useState(false);
+  const [voidReason, setVoidReason] = useState("");
+  const [paymentTotals, setPaymentTotals] = useState<PaymentTotal[]>([]);
+  const [cashMovements, setCashMovements] = useState<CashMovement[]>([]);
+  const [movementOpen, setMovementOpen] = useState(false);
+  const [registers, setRegisters] = useState<Register[]>([]);
+  // Shifts started on this device go to the register it is paired with.
+  const pairedRegisterId = getPairedRegisterId();
+  const [registerId, setRegisterId] = useState(pairedRegisterId ?? "");
+  const [registerFilter, setRegisterFilter] = useState("all");
+  const [shiftToForceClose, setShiftToForceClose] = useState<Shift | null>(null);
+  const [forceCloseReason, setForceCloseReason] = useState("");
 
   useEffect(() => {
-    const checkAuth = async () => {
-      const { data: { session } } = await supabase.auth.getSession();
-      if (!session) {
-        navigate("/auth");
-        return;
-      }
-    };
-
     const fetchShifts = async () => {
       const { data, error } = await supabase
         .from("shifts")
@@ -80,15 +125,49 @@ export default function Shifts() {
         return;
       }
 
+      // Other cashiers may have shifts open on other tills at the same time, and
+      // this cashier's open shift may be on another till; only this till's counts.
       setShifts(data);
-      const active = data.find(shift => shift.status === "open");
+      const active = data.find(shift =>
+        shift.status === "open" &&
+        shift.cashier_id === currentUserId &&
+        (!pairedRegisterId || shift.register_id === pairedRegisterId)
+      );
       if (active) setActiveShift(active);
       setLoading(false);
     };
 
-    checkAuth();
+    const fetchRegisters = async () => {
+      const { data, error } = await supabase
+        .from("registers")
+        .select("*")
+        .order("name");
+
+      if (error) {
+        toast({
+          title: "Error fetching registers",
+          description: error.message,
+          variant: "destructive",
+        });
+        return;
+      }
+
+      setRegisters(data);
+    };
+
+    const fetchStoreSettings = async () => {
+      const { data } = await supabase
+        .from("store_settings")
+        .select("cash_variance_threshold")
+        .maybeSingle();
+
+      setVarianceThreshold(data?.cash_variance_threshold ?? 0);
+    };
+
     fetchShifts();
-  }, [navigate, toast]);
+    fetchRegisters();
+    fetchStoreSettings();
+  }, [toast, currentUserId, pairedRegisterId]);
 
   const startShift = async () => {
     try {
@@ -102,26 +181,20 @@ export default function Shifts() {
         return;
       }
 
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) {
+      if (!registerId) {
         toast({
-          title: "Error",
-          description: "You must be logged in to start a shift",
+          title: "No register selected",
+          description: "Choose the register this shift's drawer belongs to",
           variant: "destructive",
         });
         return;
       }
 
-      const { data: newShift, error } = await supabase
-        .from("shifts")
-        .insert({
-          cashier_id: user.id,
-          start_time: new Date().toISOString(),
-          starting_cash: cashAmount,
-          status: "open"
-        })
-        .select()
-        .single();
+      // The server refuses a second open shift for this cashier or register.
+      const { data: newShift, error } = await supabase.rpc("open_shift", {
+        register_id: registerId,
+        starting_cash: cashAmount,
+      });
 
       if (error) throw error;
 
@@ -143,43 +216,113 @@ export default function Shifts() {
     }
   };
 
+  const fetchPaymentTotals = async (shift: Shift) => {
+    try {
+      const { data, error } = await supabase
+        .from("shift_payment_totals")
+        .select("method, amount")
+        .eq("shift_id", shift.id);
+
+      if (error) throw error;
+
+      setPaymentTotals(data.map(total => ({
+        method: total.method ?? "",
+        amount: total.amount ?? 0,
+      })));
+    } catch (error: any) {
+      setPaymentTotals([]);
+      toast({
+        title: "Error fetching payment totals",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const printReport = async (shift: Shift, kind: "X" | "Z") => {
+    try {
+      const { data, error } = await supabase.rpc("shift_report", { shift_id: shift.id });
+      if (error) throw error;
+
+      const register = registers.find(r => r.id === shift.register_id);
+      printShiftReport(parseShiftReport(data), kind, register?.printer_width);
+    } catch (error: any) {
+      toast({
+        title: `Error printing ${kind}-report`,
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const fetchCashMovements = async (shift: Shift) => {
+    const { data, error } = await supabase
+      .from("cash_movements")
+      .select("*")
+      .eq("shift_id", shift.id)
+      .order("created_at");
+
+    if (error) {
+      setCashMovements([]);
+      toast({
+        title: "Error fetching cash movements",
+        description: error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setCashMovements(data);
+  };
+
+  const fetchExpectedCash = async (shift: Shift) => {
+    const { data, error } = await supabase.rpc("expected_cash", { shift_id: shift.id });
+    if (error) {
+      toast({
+        title: "Error calculating expected cash",
+        description: error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+    setExpectedCash(data);
+  };
+
+  const openEndShift = () => {
+    if (!activeShift) return;
+    setPaymentTotals([]);
+    setExpectedCash(null);
+    setCashCount({});
+    setEndShiftOpen(true);
+    fetchPaymentTotals(activeShift);
+    fetchCashMovements(activeShift);
+    fetchExpectedCash(activeShift);
+  };
+
+  const countedCash = cashCountTotal(cashCount);
+  const variance = expectedCash === null ? 0 : countedCash - expectedCash;
+  const varianceNoteRequired = Math.abs(variance) > varianceThreshold && !shiftNotes.trim();
+
   const endShift = async () => {
     try {
       if (!activeShift) return;
 
-      const endingCashAmount = parseFloat(endingCash);
-      if (isNaN(endingCashAmount) || endingCashAmount < 0) {
+      if (varianceNoteRequired) {
         toast({
-          title: "Invalid amount",
-          description: "Please enter a valid ending cash amount",
+          title: "Note required",
+          description: "Explain why the drawer is over or short before ending the shift",
           variant: "destructive",
         });
         return;
       }
 
-      // Calculate total sales by summing all sales during the shift
-      const { data: shiftSales, error: salesError } = await supabase
-        .from("sales")
-        .select("total_amount")
-        .gte("created_at", activeShift.start_time)
-        .lte("created_at", new Date().toISOString());
-
-      if (salesError) throw salesError;
-
-      const totalSales = shiftSales.reduce((sum, sale) => sum + sale.total_amount, 0);
-
-      const { data: updatedShift, error: updateError } = await supabase
-        .from("shifts")
-        .update({
-          end_time: new Date().toISOString(),
-          ending_cash: endingCashAmount,
-          total_sales: totalSales,
-          notes: shiftNotes || null,
-          status: "closed"
-        })
-        .eq("id", activeShift.id)
-        .select()
-        .single();
+      // Totals and the variance are computed server-side from this shift's own sales.
+      const { data: updatedShift, error: updateError } = await supabase.rpc("close_shift", {
+        shift_id: activeShift.id,
+        ending_cash: countedCash,
+        notes: shiftNotes || undefined,
+        cash_count: { ...cashCount },
+      });
 
       if (updateError) throw updateError;
 
@@ -190,13 +333,15 @@ export default function Shifts() {
         )
       );
       setEndShiftOpen(false);
-      setEndingCash("");
+      setCashCount({});
       setShiftNotes("");
 
       toast({
         title: "Shift ended",
-        description: "Your shift has been ended successfully",
+        description: `Z-Report #${updatedShift.z_number} is printing`,
       });
+
+      printReport(updatedShift, "Z");
     } catch (error: any) {
       toast({
         title: "Error ending shift",
@@ -208,42 +353,107 @@ export default function Shifts() {
 
   const handleViewDetails = (shift: Shift) => {
     setSelectedShift(shift);
+    setPaymentTotals([]);
+    setCashMovements([]);
     setViewShiftOpen(true);
+    fetchPaymentTotals(shift);
+    fetchCashMovements(shift);
   };
 
-  const handleDeleteShift = async (shift: Shift) => {
-    setShiftToDelete(shift);
-    setDeleteDialogOpen(true);
+  const registerName = (id: string) =>
+    registers.find(register => register.id === id)?.name ?? "Unknown register";
+
+  const confirmForceClose = async () => {
+    if (!shiftToForceClose) return;
+
+    try {
+      const { data: closedShift, error } = await supabase.rpc("force_close_shift", {
+        shift_id: shiftToForceClose.id,
+        reason: forceCloseReason.trim(),
+      });
+
+      if (error) throw error;
+
+      setShifts(current => current.map(s => (s.id === closedShift.id ? closedShift : s)));
+      setShiftToForceClose(null);
+
+      toast({
+        title: "Shift force closed",
+        description: `${registerName(closedShift.register_id)} is free for a new shift`,
+      });
+    } catch (error: any) {
+      toast({
+        title: "Error closing shift",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
   };
 
-  const confirmDelete = async () => {
-    if (!shiftToDelete) return;
+  const handleVoidShift = (shift: Shift) => {
+    setShiftToVoid(shift);
+    setVoidReason("");
+    setVoidDialogOpen(true);
+  };
+
+  const confirmVoid = async (overrideId?: string) => {
+    if (!shiftToVoid) return;
+    // Shopkeepers can void with a store owner's approval.
+    if (!isOwner && !overrideId) {
+      setOverrideOpen(true);
+      return;
+    }
 
     try {
-      const { error } = await supabase
-        .from("shifts")
-        .delete()
-        .eq("id", shiftToDelete.id);
+      const { error } = await supabase.rpc("void_shift", {
+        shift_id: shiftToVoid.id,
+        reason: voidReason.trim(),
+        override_id: overrideId,
+      });
 
       if (error) throw error;
 
-      setShifts(shifts.filter(s => s.id !== shiftToDelete.id));
-      setDeleteDialogOpen(false);
-      setShiftToDelete(null);
+      const { data: voidedShift, error: fetchError } = await supabase
+        .from("shifts")
+        .select("*")
+        .eq("id", shiftToVoid.id)
+        .single();
+
+      if (fetchError) throw fetchError;
+
+      setShifts(shifts.map(s => (s.id === voidedShift.id ? voidedShift : s)));
+      if (activeShift?.id === voidedShift.id) setActiveShift(null);
+      setVoidDialogOpen(false);
+      setShiftToVoid(null);
 
       toast({
-        title: "Shift deleted",
-        description: "The shift has been successfully deleted",
+        title: "Shift voided",
+        description: "The shift was voided and kept for the record",
       });
     } catch (error: any) {
       toast({
-        title: "Error deleting shift",
+        title: "Error voiding shift",
         description: error.message,
         variant: "destructive",
       });
     }
   };
 
+  const openShifts = shifts.filter(shift => shift.status === "open");
+  const otherOpenShifts = openShifts.filter(shift => shift.cashier_id !== currentUserId);
+  // This cashier's shift on another register, when this device is paired with a different one.
+  const shiftElsewhere = activeShift
+    ? undefined
+    : openShifts.find(shift => shift.cashier_id === currentUserId);
+
+  const filteredShifts = registerFilter === "all"
+    ? shifts
+    : shifts.filter(shift => shift.register_id === registerFilter);
+
+  const reconciledShifts = filteredShifts.filter(
+    shift => shift.status === "closed" && shift.cash_variance !== null
+  );
+
   if (loading) {
     return <div className="flex items-center justify-center min-h-screen">Loading...</div>;
   }
@@ -263,19 +473,42 @@ export default function Shifts() {
             <CardTitle>Active Shift</CardTitle>
           </CardHeader>
           <CardContent>
-            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="grid grid-cols-1 md:grid-cols-6 gap-4">
               <div>
                 <p className="text-sm text-muted-foreground">Started</p>
                 <p className="font-medium">{format(new Date(activeShift.start_time), "PPp")}</p>
               </div>
+              <div>
+                <p className="text-sm text-muted-foreground">Register</p>
+                <p className="font-medium">{registerName(activeShift.register_id)}</p>
+              </div>
               <div>
                 <p className="text-sm text-muted-foreground">Starting Cash</p>
                 <p className="font-medium">Rp{activeShift.starting_cash.toFixed(2)}</p>
               </div>
+              <div>
+                <Button
+                  variant="outline"
+                  className="w-full"
+                  onClick={() => setMovementOpen(true)}
+                >
+                  Cash Movement
+                </Button>
+              </div>
+              <div>
+                <Button
+                  variant="outline"
+                  className="w-full"
+                  onClick={() => printReport(activeShift, "X")}
+                >
+                  <Printer className="h-4 w-4 mr-2" />
+                  X-Report
+                </Button>
+              </div>
               <div>
                 <Button 
                   className="w-full"
-                  onClick={() => setEndShiftOpen(true)}
+                  onClick={openEndShift}
                 >
                   End Shift
                 </Button>
@@ -283,6 +516,19 @@ export default function Shifts() {
             </div>
           </CardContent>
         </Card>
+      ) : shiftElsewhere ? (
+        <Card className="mb-8">
+          <CardHeader>
+            <CardTitle>Shift Open on Another Register</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-sm text-muted-foreground">
+              Your shift is open on {registerName(shiftElsewhere.register_id)} since{" "}
+              {format(new Date(shiftElsewhere.start_time), "PPp")}. Sell from that register, or end
+              the shift there before starting one on this device.
+            </p>
+          </CardContent>
+        </Card>
       ) : (
         <Card className="mb-8">
           <CardHeader>
@@ -308,6 +554,37 @@ export default function Shifts() {
             </DialogDescription>
           </DialogHeader>
           <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Register</Label>
+              <Select
+                value={registerId}
+                onValueChange={setRegisterId}
+                disabled={pairedRegisterId !== null}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a register" />
+                </SelectTrigger>
+                <SelectContent>
+                  {registers
+                    .filter(register => register.active)
+                    .map(register => (
+                      <SelectItem
+                        key={register.id}
+                        value={register.id}
+                        disabled={openShifts.some(shift => shift.register_id === register.id)}
+                      >
+                        {register.name}
+                        {openShifts.some(shift => shift.register_id === register.id) && " (in use)"}
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+              <p className="text-sm text-muted-foreground">
+                {pairedRegisterId
+                  ? "This device is paired with this register."
+                  : "Pair this device with its register in Settings to skip this step."}
+              </p>
+            </div>
             <div className="space-y-2">
               <Label htmlFor="startingCash">Starting Cash Amount (Rp)</Label>
               <Input
@@ -327,29 +604,51 @@ export default function Shifts() {
         </DialogContent>
       </Dialog>
 
+      {activeShift && (
+        <CashMovementDialog
+          open={movementOpen}
+          onOpenChange={setMovementOpen}
+          shiftId={activeShift.id}
+          onRecorded={(movement) => setCashMovements(current => [...current, movement])}
+        />
+      )}
+
       <Dialog open={endShiftOpen} onOpenChange={setEndShiftOpen}>
-        <DialogContent>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle>End Shift</DialogTitle>
             <DialogDescription>
-              Enter the ending cash amount and any notes for this shift.
+              Count the drawer by denomination and add any notes for this shift.
             </DialogDescription>
           </DialogHeader>
           <div className="space-y-4">
-            <div className="space-y-2">
-              <Label htmlFor="endingCash">Ending Cash Amount (Rp)</Label>
-              <Input
-                id="endingCash"
-                type="number"
-                step="0.01"
-                min="0"
-                value={endingCash}
-                onChange={(e) => setEndingCash(e.target.value)}
-                placeholder="0.00"
-              />
+            <PaymentTotalsList totals={paymentTotals} />
+            <CashMovementsList movements={cashMovements} />
+            <CashCountForm count={cashCount} onChange={setCashCount} />
+            <div className="rounded-lg border p-4 space-y-1">
+              <div className="flex justify-between text-sm">
+                <span>Expected in drawer</span>
+                <span>{expectedCash === null ? "…" : `Rp${expectedCash.toFixed(2)}`}</span>
+              </div>
+              <div className="flex justify-between text-sm">
+                <span>Counted</span>
+                <span>Rp{countedCash.toFixed(2)}</span>
+              </div>
+              <div className="flex justify-between text-sm font-medium pt-1 border-t">
+                <span>{variance > 0 ? "Over" : variance < 0 ? "Short" : "Variance"}</span>
+                <span className={Math.abs(variance) > varianceThreshold ? "text-red-500" : ""}>
+                  {formatSignedAmount(variance)}
+                </span>
+              </div>
             </div>
             <div className="space-y-2">
-              <Label htmlFor="notes">Shift Notes (Optional)</Label>
+              <Label htmlFor="notes">
+                {Math.abs(variance) > varianceThreshold ? (
+                  <>Shift Notes <span className="text-red-500">*</span></>
+                ) : (
+                  "Shift Notes (Optional)"
+                )}
+              </Label>
               <Textarea
                 id="notes"
                 value={shiftNotes}
@@ -357,7 +656,16 @@ export default function Shifts() {
                 placeholder="Enter any notes about this shift..."
               />
             </div>
-            <Button className="w-full" onClick={endShift}>
+            {varianceNoteRequired && (
+              <p className="text-sm text-red-500">
+                The drawer is off by more than Rp{varianceThreshold.toFixed(2)}. Explain the difference in the notes.
+              </p>
+            )}
+            <Button
+              className="w-full"
+              disabled={expectedCash === null || varianceNoteRequired}
+              onClick={endShift}
+            >
               End Shift
             </Button>
           </div>
@@ -403,6 +711,22 @@ export default function Shifts() {
                       : "N/A"}
                   </p>
                 </div>
+                <div>
+                  <Label>Expected Cash</Label>
+                  <p className="text-sm mt-1">
+                    {selectedShift.expected_cash !== null
+                      ? `Rp${selectedShift.expected_cash.toFixed(2)}`
+                      : "N/A"}
+                  </p>
+                </div>
+                <div>
+                  <Label>Cash Variance</Label>
+                  <p className="text-sm mt-1">
+                    {selectedShift.cash_variance !== null
+                      ? formatSignedAmount(selectedShift.cash_variance)
+                      : "N/A"}
+                  </p>
+                </div>
                 <div>
                   <Label>Total Sales</Label>
                   <p className="text-sm mt-1">
@@ -416,6 +740,20 @@ export default function Shifts() {
                   <p className="text-sm mt-1 capitalize">{selectedShift.status}</p>
                 </div>
               </div>
+              {selectedShift.voided_at && (
+                <div>
+                  <Label>Voided {format(new Date(selectedShift.voided_at), "PPp")}</Label>
+                  <p className="text-sm mt-1">{selectedShift.void_reason}</p>
+                </div>
+              )}
+              <PaymentTotalsList totals={paymentTotals} />
+              <CashMovementsList movements={cashMovements} />
+              {selectedShift.z_number !== null && (
+                <Button variant="outline" onClick={() => printReport(selectedShift, "Z")}>
+                  <Printer className="h-4 w-4 mr-2" />
+                  Print Z-Report #{selectedShift.z_number}
+                </Button>
+              )}
               {selectedShift.notes && (
                 <div>
                   <Label>Notes</Label>
@@ -429,30 +767,176 @@ export default function Shifts() {
         </DialogContent>
       </Dialog>
 
-      <AlertDialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
+      <AlertDialog open={voidDialogOpen} onOpenChange={setVoidDialogOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Void this shift?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The shift stays on record, struck through, with the reason you give. Void its sales
+              first; a shift with active sales cannot be voided.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="void-reason">
+              Reason <span className="text-red-500">*</span>
+            </Label>
+            <Textarea
+              id="void-reason"
+              value={voidReason}
+              onChange={(e) => setVoidReason(e.target.value)}
+            />
+          </div>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => confirmVoid()} disabled={!voidReason.trim()}>
+              Void Shift
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      {shiftToVoid && (
+        <OverrideDialog
+          open={overrideOpen}
+          onOpenChange={setOverrideOpen}
+          action="void_shift"
+          details={{ target: shiftToVoid.id }}
+          reason={voidReason.trim()}
+          description={`Void the shift started ${format(new Date(shiftToVoid.start_time), "PPp")}: ${voidReason.trim()}`}
+          onApproved={(approval) => confirmVoid(approval.id)}
+        />
+      )}
+
+      {isOwner && otherOpenShifts.length > 0 && (
+        <Card className="mb-8">
+          <CardHeader>
+            <CardTitle>Other Open Shifts</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {otherOpenShifts.map((shift) => (
+              <div key={shift.id} className="flex items-center justify-between gap-4 p-2 border rounded-lg">
+                <div>
+                  <p className="font-medium">{registerName(shift.register_id)}</p>
+                  <p className="text-sm text-muted-foreground">
+                    Open since {format(new Date(shift.start_time), "PPp")}
+                  </p>
+                </div>
+                <Button
+                  variant="destructive"
+                  onClick={() => {
+                    setShiftToForceClose(shift);
+                    setForceCloseReason("");
+                  }}
+                >
+                  Force Close
+                </Button>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      <AlertDialog
+        open={shiftToForceClose !== null}
+        onOpenChange={(open) => !open && setShiftToForceClose(null)}
+      >
         <AlertDialogContent>
           <AlertDialogHeader>
-            <AlertDialogTitle>Are you sure?</AlertDialogTitle>
+            <AlertDialogTitle>Force close this shift?</AlertDialogTitle>
             <AlertDialogDescription>
-              This action cannot be undone. This will permanently delete the shift record
-              and all associated data.
+              Use this for shifts that were left open. The drawer is not counted, so no
+              variance is recorded.
             </AlertDialogDescription>
           </AlertDialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="force-close-reason">
+              Reason <span className="text-red-500">*</span>
+            </Label>
+            <Textarea
+              id="force-close-reason"
+              value={forceCloseReason}
+              onChange={(e) => setForceCloseReason(e.target.value)}
+            />
+          </div>
           <AlertDialogFooter>
             <AlertDialogCancel>Cancel</AlertDialogCancel>
-            <AlertDialogAction onClick={confirmDelete}>Delete</AlertDialogAction>
+            <AlertDialogAction onClick={confirmForceClose} disabled={!forceCloseReason.trim()}>
+              Force Close
+            </AlertDialogAction>
           </AlertDialogFooter>
         </AlertDialogContent>
       </AlertDialog>
 
+      <div className="flex items-center gap-2 mb-6">
+        <Label>Register</Label>
+        <Select value={registerFilter} onValueChange={setRegisterFilter}>
+          <SelectTrigger className="w-48">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All registers</SelectItem>
+            {registers.map((register) => (
+              <SelectItem key={register.id} value={register.id}>
+                {register.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <h2 className="text-xl font-semibold mb-4">Cash Variance History</h2>
+      <div className="border rounded-lg mb-8">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Z #</TableHead>
+              <TableHead>Register</TableHead>
+              <TableHead>Closed</TableHead>
+              <TableHead className="text-right">Expected</TableHead>
+              <TableHead className="text-right">Counted</TableHead>
+              <TableHead className="text-right">Variance</TableHead>
+              <TableHead>Notes</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {reconciledShifts.length > 0 ? (
+              reconciledShifts.map((shift) => (
+                <TableRow key={shift.id}>
+                  <TableCell>{shift.z_number ?? "—"}</TableCell>
+                  <TableCell>{registerName(shift.register_id)}</TableCell>
+                  <TableCell>{shift.end_time ? format(new Date(shift.end_time), "PPp") : "—"}</TableCell>
+                  <TableCell className="text-right">Rp{shift.expected_cash?.toFixed(2)}</TableCell>
+                  <TableCell className="text-right">Rp{shift.ending_cash?.toFixed(2)}</TableCell>
+                  <TableCell
+                    className={`text-right ${Math.abs(shift.cash_variance ?? 0) > varianceThreshold ? "text-red-500 font-medium" : ""}`}
+                  >
+                    {formatSignedAmount(shift.cash_variance ?? 0)}
+                  </TableCell>
+                  <TableCell className="max-w-xs truncate">{shift.notes ?? ""}</TableCell>
+                </TableRow>
+              ))
+            ) : (
+              <TableRow>
+                <TableCell colSpan={7} className="h-16 text-center text-muted-foreground">
+                  No reconciled shifts yet.
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
       <h2 className="text-xl font-semibold mb-4">Previous Shifts</h2>
       <div className="grid gap-4">
-        {shifts
+        {filteredShifts
           .filter(shift => shift.status !== "open")
           .map((shift) => (
-            <Card key={shift.id}>
+            <Card
+              key={shift.id}
+              className={shift.status === "voided" ? "line-through text-muted-foreground" : undefined}
+            >
               <CardContent className="pt-6">
-                <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+                <div className="grid grid-cols-1 md:grid-cols-6 gap-4">
                   <div>
                     <p className="text-sm text-muted-foreground">Shift Period</p>
                     <p className="font-medium">
@@ -460,6 +944,10 @@ export default function Shifts() {
                       {shift.end_time ? format(new Date(shift.end_time), "PPp") : "Ongoing"}
                     </p>
                   </div>
+                  <div>
+                    <p className="text-sm text-muted-foreground">Register</p>
+                    <p className="font-medium">{registerName(shift.register_id)}</p>
+                  </div>
                   <div>
                     <p className="text-sm text-muted-foreground">Cash Handling</p>
                     <p className="font-medium">
@@ -482,16 +970,18 @@ export default function Shifts() {
                       View Details
                     </Button>
                   </div>
-                  <div>
-                    <Button
-                      variant="destructive"
-                      className="w-full"
-                      onClick={() => handleDeleteShift(shift)}
-                    >
-                      <Trash2 className="h-4 w-4 mr-2" />
-                      Delete
-                    </Button>
-                  </div>
+                  {shift.status !== "voided" && (
+                    <div>
+                      <Button
+                        variant="destructive"
+                        className="w-full"
+                        onClick={() => handleVoidShift(shift)}
+                      >
+                        <Ban className="h-4 w-4 mr-2" />
+                        Void
+                      </Button>
+                    </div>
+                  )}
                 </div>
               </CardContent>
             </Card>
@@ -500,3 +990,29 @@ export default function Shifts() {
     </div>
   );
 }
+
+function PaymentTotalsList({ totals }: { totals: PaymentTotal[] }) {
+  const grandTotal = totals.reduce((sum, total) => sum + total.amount, 0);
+
+  return (
+    <div className="rounded-lg border p-4 space-y-1">
+      <Label>Sales by Payment Method</Label>
+      {totals.length > 0 ? (
+        <>
+          {totals.map((total) => (
+            <div key={total.method} className="flex justify-between text-sm">
+              <span>{paymentMethodLabel(total.method)}</span>
+              <span>Rp{total.amount.toFixed(2)}</span>
+            </div>
+          ))}
+          <div className="flex justify-between text-sm font-medium pt-1 border-t">
+            <span>Total</span>
+            <span>Rp{grandTotal.toFixed(2)}</span>
+          </div>
+        </>
+      ) : (
+        <p className="text-sm text-muted-foreground">No payments recorded.</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,341 @@
+import { useCallback, useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/components/ui/use-toast";
+import { format } from "date-fns";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { UserPlus, Users } from "lucide-react";
+import { InviteStaffDialog } from "@/components/staff/InviteStaffDialog";
+import { useAuth } from "@/hooks/use-auth";
+import { APP_ROLES, AppRole, ROLE_LABELS } from "@/lib/roles";
+import {
+  StaffAuditEntry,
+  StaffMember,
+  auditActionLabel,
+  staffDisplayName,
+} from "@/lib/staff";
+
+export default function Staff() {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const [staff, setStaff] = useState<StaffMember[]>([]);
+  const [auditLog, setAuditLog] = useState<StaffAuditEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [inviteOpen, setInviteOpen] = useState(false);
+  const [updating, setUpdating] = useState<string | null>(null);
+  const [memberToDeactivate, setMemberToDeactivate] = useState<StaffMember | null>(null);
+  const [deactivateReason, setDeactivateReason] = useState("");
+
+  const fetchStaff = useCallback(async () => {
+    try {
+      const [staffResult, auditResult] = await Promise.all([
+        supabase.rpc("list_staff"),
+        supabase
+          .from("staff_audit_log")
+          .select("*")
+          .order("created_at", { ascending: false })
+          .limit(100),
+      ]);
+
+      if (staffResult.error) throw staffResult.error;
+      if (auditResult.error) throw auditResult.error;
+
+      setStaff(staffResult.data);
+      setAuditLog(auditResult.data);
+    } catch (error: any) {
+      toast({
+        title: "Error fetching staff",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    fetchStaff();
+  }, [fetchStaff]);
+
+  const toggleRole = async (member: StaffMember, role: AppRole, granted: boolean) => {
+    setUpdating(member.user_id);
+    try {
+      const { error } = granted
+        ? await supabase.rpc("grant_role", { user_id: member.user_id, role })
+        : await supabase.rpc("revoke_role", { user_id: member.user_id, role });
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: `${ROLE_LABELS[role]} ${granted ? "granted to" : "revoked from"} ${staffDisplayName(member)}`,
+      });
+      await fetchStaff();
+    } catch (error: any) {
+      toast({
+        title: "Error updating role",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setUpdating(null);
+    }
+  };
+
+  const setActive = async (member: StaffMember, active: boolean, reason?: string) => {
+    setUpdating(member.user_id);
+    try {
+      const { error } = await supabase.rpc("set_staff_active", {
+        user_id: member.user_id,
+        active,
+        reason,
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: `${staffDisplayName(member)} has been ${active ? "reactivated" : "deactivated"}`,
+      });
+      setMemberToDeactivate(null);
+      await fetchStaff();
+    } catch (error: any) {
+      toast({
+        title: "Error updating account",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setUpdating(null);
+    }
+  };
+
+  const handleDeactivate = (member: StaffMember) => {
+    setDeactivateReason("");
+    setMemberToDeactivate(member);
+  };
+
+  const memberName = (id: string | null) => {
+    const member = staff.find(m => m.user_id === id);
+    return member ? staffDisplayName(member) : "Unknown";
+  };
+
+  if (loading) {
+    return <div className="flex items-center justify-center min-h-screen">Loading...</div>;
+  }
+
+  return (
+    <div className="min-h-screen bg-background p-8">
+      <div className="flex justify-between items-center mb-6">
+        <div className="flex items-center gap-2">
+          <Users className="h-6 w-6" />
+          <h1 className="text-2xl font-bold">Staff</h1>
+        </div>
+        <div className="flex gap-2">
+          <Button onClick={() => setInviteOpen(true)}>
+            <UserPlus className="h-4 w-4 mr-2" />
+            Invite Staff
+          </Button>
+          <Button variant="outline" onClick={() => navigate("/dashboard")}>
+            Back
+          </Button>
+        </div>
+      </div>
+
+      <div className="border rounded-lg mb-8">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Name</TableHead>
+              {APP_ROLES.map(role => (
+                <TableHead key={role} className="text-center">{ROLE_LABELS[role]}</TableHead>
+              ))}
+              <TableHead>Status</TableHead>
+              <TableHead>Last Login</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {staff.map(member => {
+              const isSelf = member.user_id === user?.id;
+              return (
+                <TableRow
+                  key={member.user_id}
+                  className={member.active ? undefined : "text-muted-foreground"}
+                >
+                  <TableCell>
+                    <div className="font-medium">
+                      {member.full_name || "—"}
+                      {isSelf && <span className="text-muted-foreground font-normal"> (you)</span>}
+                    </div>
+                    <div className="text-sm text-muted-foreground">{member.email}</div>
+                  </TableCell>
+                  {APP_ROLES.map(role => (
+                    <TableCell key={role} className="text-center">
+                      <Checkbox
+                        checked={member.roles.includes(role)}
+                        // Owners cannot lock themselves out of this page.
+                        disabled={updating === member.user_id || (isSelf && role === "store_owner")}
+                        onCheckedChange={(checked) => toggleRole(member, role, checked === true)}
+                      />
+                    </TableCell>
+                  ))}
+                  <TableCell>
+                    {!member.active ? (
+                      <Badge variant="destructive">Deactivated</Badge>
+                    ) : member.roles.length === 0 ? (
+                      <Badge variant="outline">No role</Badge>
+                    ) : !member.last_sign_in_at && member.invited_at ? (
+                      <Badge variant="secondary">Invited</Badge>
+                    ) : (
+                      <Badge variant="secondary">Active</Badge>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    {member.last_sign_in_at ? format(new Date(member.last_sign_in_at), "PPp") : "Never"}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {!isSelf && (member.active ? (
+                      <Button
+                        variant="destructive"
+                        size="sm"
+                        disabled={updating === member.user_id}
+                        onClick={() => handleDeactivate(member)}
+                      >
+                        Deactivate
+                      </Button>
+                    ) : (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={updating === member.user_id}
+                        onClick={() => setActive(member, true)}
+                      >
+                        Reactivate
+                      </Button>
+                    ))}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Audit Trail</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead>Changed By</TableHead>
+                <TableHead>Action</TableHead>
+                <TableHead>Staff Member</TableHead>
+                <TableHead>Details</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {auditLog.length > 0 ? (
+                auditLog.map(entry => {
+                  const details = entry.details as { reason?: string | null; email?: string };
+                  return (
+                    <TableRow key={entry.id}>
+                      <TableCell>{format(new Date(entry.created_at), "PPp")}</TableCell>
+                      <TableCell>{memberName(entry.actor_id)}</TableCell>
+                      <TableCell>{auditActionLabel(entry.action)}</TableCell>
+                      <TableCell>{memberName(entry.target_user_id)}</TableCell>
+                      <TableCell className="text-muted-foreground">
+                        {[entry.role && ROLE_LABELS[entry.role], details?.reason]
+                          .filter(Boolean)
+                          .join(" · ") || "—"}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })
+              ) : (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center">
+                    No staff changes recorded yet
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <InviteStaffDialog
+        open={inviteOpen}
+        onOpenChange={setInviteOpen}
+        onInvited={fetchStaff}
+      />
+
+      <AlertDialog
+        open={memberToDeactivate !== null}
+        onOpenChange={(open) => !open && setMemberToDeactivate(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              Deactivate {memberToDeactivate && staffDisplayName(memberToDeactivate)}?
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              They lose access right away and can no longer log in. Their roles are
+              kept and come back if the account is reactivated.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="deactivate-reason">Reason</Label>
+            <Textarea
+              id="deactivate-reason"
+              value={deactivateReason}
+              onChange={(e) => setDeactivateReason(e.target.value)}
+            />
+          </div>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={updating !== null}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                // Prevent default to avoid closing the dialog automatically
+                e.preventDefault();
+                if (memberToDeactivate) {
+                  setActive(memberToDeactivate, false, deactivateReason.trim() || undefined);
+                }
+              }}
+              disabled={updating !== null}
+            >
+              Deactivate
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
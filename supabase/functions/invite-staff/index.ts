@@ -0,0 +1,79 @@
+// Invites a new staff member by email and gives them their first role.
+// Inviting needs the service role key, so it cannot run from the browser;
+// the caller's own token is used to check that they are a store owner.
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const ROLES = ["store_owner", "shopkeeper", "warehouse_admin"];
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+  const caller = createClient(supabaseUrl, Deno.env.get("SUPABASE_ANON_KEY")!, {
+    global: { headers: { Authorization: req.headers.get("Authorization") ?? "" } },
+  });
+  const admin = createClient(supabaseUrl, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!);
+
+  const { data: { user } } = await caller.auth.getUser();
+  if (!user) {
+    return json({ error: "You must be logged in to invite staff" }, 401);
+  }
+
+  const { data: isOwner } = await caller.rpc("has_role", {
+    user_id: user.id,
+    required_role: "store_owner",
+  });
+  if (!isOwner) {
+    return json({ error: "Only store owners can manage staff" }, 403);
+  }
+
+  const { email, full_name, role, redirect_to } = await req.json();
+  if (typeof email !== "string" || !email.trim()) {
+    return json({ error: "Email is required" }, 400);
+  }
+  if (!ROLES.includes(role)) {
+    return json({ error: "Invalid role" }, 400);
+  }
+
+  const { data: invited, error: inviteError } = await admin.auth.admin.inviteUserByEmail(
+    email.trim(),
+    {
+      data: { full_name: full_name ?? "" },
+      redirectTo: redirect_to,
+    }
+  );
+  if (inviteError) {
+    return json({ error: inviteError.message }, 400);
+  }
+
+  const invitedId = invited.user.id;
+  const { error: roleError } = await admin
+    .from("user_roles")
+    .insert({ user_id: invitedId, role });
+  if (roleError) {
+    return json({ error: roleError.message }, 400);
+  }
+
+  await admin.from("staff_audit_log").insert({
+    actor_id: user.id,
+    target_user_id: invitedId,
+    action: "invite",
+    role,
+    details: { email: email.trim() },
+  });
+
+  return json({ user_id: invitedId });
+});
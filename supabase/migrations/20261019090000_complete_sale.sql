@@ -0,0 +1,72 @@
+-- Atomic checkout: writes the sale, its items and the stock decrements in a
+-- single transaction so a failure part-way never leaves a half-recorded sale.
+create or replace function public.complete_sale(
+  items jsonb,
+  payment_method text default 'cash'
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  new_sale_id uuid;
+  line jsonb;
+  line_quantity integer;
+  line_price numeric;
+  sale_total numeric := 0;
+begin
+  if auth.uid() is null then
+    raise exception 'You must be logged in to complete a sale';
+  end if;
+
+  if items is null or jsonb_array_length(items) = 0 then
+    raise exception 'Cannot complete a sale without items';
+  end if;
+
+  for line in select * from jsonb_array_elements(items) loop
+    line_quantity := (line->>'quantity')::integer;
+    line_price := (line->>'unit_price')::numeric;
+    if line_quantity is null or line_quantity <= 0 then
+      raise exception 'Invalid quantity for product %', line->>'product_id';
+    end if;
+    if line_price is null or line_price < 0 then
+      raise exception 'Invalid price for product %', line->>'product_id';
+    end if;
+    sale_total := sale_total + line_quantity * line_price;
+  end loop;
+
+  insert into sales (cashier_id, total_amount, payment_method, status)
+  values (auth.uid(), sale_total, complete_sale.payment_method, 'completed')
+  returning id into new_sale_id;
+
+  for line in select * from jsonb_array_elements(items) loop
+    line_quantity := (line->>'quantity')::integer;
+    line_price := (line->>'unit_price')::numeric;
+
+    insert into sale_items (sale_id, product_id, quantity, unit_price, subtotal)
+    values (
+      new_sale_id,
+      (line->>'product_id')::uuid,
+      line_quantity,
+      line_price,
+      line_quantity * line_price
+    );
+
+    -- Relative decrement so concurrent tills never overwrite each other.
+    update products
+       set stock_quantity = stock_quantity - line_quantity,
+           updated_at = now()
+     where id = (line->>'product_id')::uuid;
+
+    if not found then
+      raise exception 'Product % not found', line->>'product_id';
+    end if;
+  end loop;
+
+  return new_sale_id;
+end;
+$$;
+
+revoke all on function public.complete_sale(jsonb, text) from public;
+grant execute on function public.complete_sale(jsonb, text) to authenticated;
@@ -0,0 +1,116 @@
+-- Store-wide settings managed by the owner. A single row keyed on `id = true`.
+create table if not exists public.store_settings (
+  id boolean primary key default true check (id),
+  allow_backorders boolean not null default false,
+  updated_at timestamptz not null default now(),
+  updated_by uuid references auth.users (id)
+);
+
+insert into public.store_settings (id) values (true) on conflict (id) do nothing;
+
+alter table public.store_settings enable row level security;
+
+create policy "Authenticated users can read store settings"
+  on public.store_settings for select
+  to authenticated
+  using (true);
+
+create policy "Store owners can update store settings"
+  on public.store_settings for update
+  to authenticated
+  using (public.has_role(auth.uid(), 'store_owner'))
+  with check (public.has_role(auth.uid(), 'store_owner'));
+
+-- Checkout now locks the product rows it sells from and rejects the sale when
+-- any line exceeds the stock on hand, unless backorders are allowed.
+create or replace function public.complete_sale(
+  items jsonb,
+  payment_method text default 'cash'
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  new_sale_id uuid;
+  line jsonb;
+  line_quantity integer;
+  line_price numeric;
+  sale_total numeric := 0;
+  product_record record;
+  shortages text[] := '{}';
+  backorders_allowed boolean;
+begin
+  if auth.uid() is null then
+    raise exception 'You must be logged in to complete a sale';
+  end if;
+
+  if items is null or jsonb_array_length(items) = 0 then
+    raise exception 'Cannot complete a sale without items';
+  end if;
+
+  select allow_backorders into backorders_allowed from store_settings where id;
+
+  for line in select * from jsonb_array_elements(items) loop
+    line_quantity := (line->>'quantity')::integer;
+    line_price := (line->>'unit_price')::numeric;
+    if line_quantity is null or line_quantity <= 0 then
+      raise exception 'Invalid quantity for product %', line->>'product_id';
+    end if;
+    if line_price is null or line_price < 0 then
+      raise exception 'Invalid price for product %', line->>'product_id';
+    end if;
+
+    select id, name, stock_quantity into product_record
+      from products
+     where id = (line->>'product_id')::uuid
+       for update;
+
+    if not found then
+      raise exception 'Product % not found', line->>'product_id';
+    end if;
+
+    if not coalesce(backorders_allowed, false)
+       and product_record.stock_quantity < line_quantity then
+      shortages := shortages || format(
+        '%s: requested %s, available %s',
+        product_record.name, line_quantity, greatest(product_record.stock_quantity, 0)
+      );
+    end if;
+
+    sale_total := sale_total + line_quantity * line_price;
+  end loop;
+
+  if array_length(shortages, 1) > 0 then
+    raise exception 'Insufficient stock. %', array_to_string(shortages, '; ')
+      using errcode = 'P0001', hint = 'stock_changed';
+  end if;
+
+  insert into sales (cashier_id, total_amount, payment_method, status)
+  values (auth.uid(), sale_total, complete_sale.payment_method, 'completed')
+  returning id into new_sale_id;
+
+  for line in select * from jsonb_array_elements(items) loop
+    line_quantity := (line->>'quantity')::integer;
+    line_price := (line->>'unit_price')::numeric;
+
+    insert into sale_items (sale_id, product_id, quantity, unit_price, subtotal)
+    values (
+      new_sale_id,
+      (line->>'product_id')::uuid,
+      line_quantity,
+      line_price,
+      line_quantity * line_price
+    );
+
+    -- Relative decrement so concurrent tills never overwrite each other.
+    update products
+       set stock_quantity = stock_quantity - line_quantity,
+           updated_at = now()
+     where id = (line->>'product_id')::uuid;
+  end loop;
+
+  return new_sale_id;
+end;
+$$;
@@ -0,0 +1,173 @@
+-- One row per tender used to settle a sale, so a basket can be split across
+-- cash, debit, QRIS and e-wallets.
+create table if not exists public.sale_payments (
+  id uuid primary key default gen_random_uuid(),
+  sale_id uuid not null references public.sales (id) on delete cascade,
+  method text not null check (method in ('cash', 'debit', 'qris', 'ewallet')),
+  amount numeric not null,
+  tendered numeric,
+  change_due numeric not null default 0,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists sale_payments_sale_id_idx on public.sale_payments (sale_id);
+
+alter table public.sale_payments enable row level security;
+
+create policy "Authenticated users can read sale payments"
+  on public.sale_payments for select
+  to authenticated
+  using (true);
+
+-- Existing single-tender sales become one payment row each.
+insert into public.sale_payments (sale_id, method, amount, created_at)
+select s.id,
+       case when s.payment_method in ('cash', 'debit', 'qris', 'ewallet')
+            then s.payment_method else 'cash' end,
+       s.total_amount,
+       s.created_at
+  from public.sales s
+ where not exists (select 1 from public.sale_payments p where p.sale_id = s.id);
+
+drop function if exists public.complete_sale(jsonb, text);
+
+create or replace function public.complete_sale(
+  items jsonb,
+  payments jsonb
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  new_sale_id uuid;
+  line jsonb;
+  line_quantity integer;
+  line_price numeric;
+  sale_total numeric := 0;
+  product_record record;
+  shortages text[] := '{}';
+  backorders_allowed boolean;
+  payment jsonb;
+  payment_amount numeric;
+  payment_tendered numeric;
+  paid_total numeric := 0;
+  sale_payment_method text;
+begin
+  if auth.uid() is null then
+    raise exception 'You must be logged in to complete a sale';
+  end if;
+
+  if items is null or jsonb_array_length(items) = 0 then
+    raise exception 'Cannot complete a sale without items';
+  end if;
+
+  if payments is null or jsonb_array_length(payments) = 0 then
+    raise exception 'Cannot complete a sale without a payment';
+  end if;
+
+  select allow_backorders into backorders_allowed from store_settings where id;
+
+  for line in select * from jsonb_array_elements(items) loop
+    line_quantity := (line->>'quantity')::integer;
+    line_price := (line->>'unit_price')::numeric;
+    if line_quantity is null or line_quantity <= 0 then
+      raise exception 'Invalid quantity for product %', line->>'product_id';
+    end if;
+    if line_price is null or line_price < 0 then
+      raise exception 'Invalid price for product %', line->>'product_id';
+    end if;
+
+    select id, name, stock_quantity into product_record
+      from products
+     where id = (line->>'product_id')::uuid
+       for update;
+
+    if not found then
+      raise exception 'Product % not found', line->>'product_id';
+    end if;
+
+    if not coalesce(backorders_allowed, false)
+       and product_record.stock_quantity < line_quantity then
+      shortages := shortages || format(
+        '%s: requested %s, available %s',
+        product_record.name, line_quantity, greatest(product_record.stock_quantity, 0)
+      );
+    end if;
+
+    sale_total := sale_total + line_quantity * line_price;
+  end loop;
+
+  if array_length(shortages, 1) > 0 then
+    raise exception 'Insufficient stock. %', array_to_string(shortages, '; ')
+      using errcode = 'P0001', hint = 'stock_changed';
+  end if;
+
+  for payment in select * from jsonb_array_elements(payments) loop
+    payment_amount := (payment->>'amount')::numeric;
+    payment_tendered := (payment->>'tendered')::numeric;
+    if payment->>'method' not in ('cash', 'debit', 'qris', 'ewallet') then
+      raise exception 'Unknown payment method %', payment->>'method';
+    end if;
+    if payment_amount is null or payment_amount <= 0 then
+      raise exception 'Invalid % payment amount', payment->>'method';
+    end if;
+    if payment_tendered is not null and payment->>'method' <> 'cash' then
+      raise exception 'Only cash payments can give change';
+    end if;
+    if payment_tendered is not null and payment_tendered < payment_amount then
+      raise exception 'Cash tendered is less than the cash amount applied';
+    end if;
+    paid_total := paid_total + payment_amount;
+  end loop;
+
+  if round(paid_total, 2) <> round(sale_total, 2) then
+    raise exception 'Payments (%) do not match the sale total (%)', paid_total, sale_total;
+  end if;
+
+  select case when count(distinct p->>'method') = 1 then min(p->>'method') else 'split' end
+    into sale_payment_method
+    from jsonb_array_elements(payments) as p;
+
+  insert into sales (cashier_id, total_amount, payment_method, status)
+  values (auth.uid(), sale_total, sale_payment_method, 'completed')
+  returning id into new_sale_id;
+
+  for line in select * from jsonb_array_elements(items) loop
+    line_quantity := (line->>'quantity')::integer;
+    line_price := (line->>'unit_price')::numeric;
+
+    insert into sale_items (sale_id, product_id, quantity, unit_price, subtotal)
+    values (
+      new_sale_id,
+      (line->>'product_id')::uuid,
+      line_quantity,
+      line_price,
+      line_quantity * line_price
+    );
+
+    -- Relative decrement so concurrent tills never overwrite each other.
+    update products
+       set stock_quantity = stock_quantity - line_quantity,
+           updated_at = now()
+     where id = (line->>'product_id')::uuid;
+  end loop;
+
+  for payment in select * from jsonb_array_elements(payments) loop
+    insert into sale_payments (sale_id, method, amount, tendered, change_due)
+    values (
+      new_sale_id,
+      payment->>'method',
+      (payment->>'amount')::numeric,
+      (payment->>'tendered')::numeric,
+      coalesce((payment->>'tendered')::numeric - (payment->>'amount')::numeric, 0)
+    );
+  end loop;
+
+  return new_sale_id;
+end;
+$$;
+
+revoke all on function public.complete_sale(jsonb, jsonb) from public;
+grant execute on function public.complete_sale(jsonb, jsonb) to authenticated;
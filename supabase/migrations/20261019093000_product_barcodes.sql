@@ -0,0 +1,23 @@
+-- Barcodes printed on the packaging, separate from our internal SKU. A product
+-- may carry several (e.g. single unit and multipack, old and new packaging).
+create table if not exists public.product_barcodes (
+  id uuid primary key default gen_random_uuid(),
+  product_id uuid not null references public.products (id) on delete cascade,
+  barcode text not null unique check (length(trim(barcode)) > 0),
+  created_at timestamptz not null default now()
+);
+
+create index if not exists product_barcodes_product_id_idx on public.product_barcodes (product_id);
+
+alter table public.product_barcodes enable row level security;
+
+create policy "Authenticated users can read product barcodes"
+  on public.product_barcodes for select
+  to authenticated
+  using (true);
+
+create policy "Authenticated users can manage product barcodes"
+  on public.product_barcodes for all
+  to authenticated
+  using (true)
+  with check (true);
@@ -0,0 +1,279 @@
+-- Line and basket discounts. `sale_items.subtotal` is now the line total after
+-- its own discount; `sales.total_amount` is the net the customer paid.
+alter table public.sale_items
+  add column if not exists discount_type text check (discount_type in ('percent', 'fixed')),
+  add column if not exists discount_value numeric not null default 0,
+  add column if not exists discount_amount numeric not null default 0,
+  add column if not exists discount_reason text;
+
+alter table public.sales
+  add column if not exists gross_amount numeric,
+  add column if not exists discount_amount numeric not null default 0,
+  add column if not exists discount_type text check (discount_type in ('percent', 'fixed')),
+  add column if not exists discount_value numeric not null default 0,
+  add column if not exists discount_reason text;
+
+update public.sales set gross_amount = total_amount where gross_amount is null;
+alter table public.sales alter column gross_amount set not null;
+alter table public.sales alter column gross_amount set default 0;
+
+-- The largest discount, as a percentage of the discounted amount, each role
+-- may give without a store owner approving it.
+create table if not exists public.role_discount_limits (
+  role public.app_role primary key,
+  max_percent numeric not null check (max_percent between 0 and 100)
+);
+
+insert into public.role_discount_limits (role, max_percent) values
+  ('store_owner', 100),
+  ('shopkeeper', 10),
+  ('warehouse_admin', 0)
+on conflict (role) do nothing;
+
+alter table public.role_discount_limits enable row level security;
+
+create policy "Authenticated users can read discount limits"
+  on public.role_discount_limits for select
+  to authenticated
+  using (true);
+
+create policy "Store owners can manage discount limits"
+  on public.role_discount_limits for all
+  to authenticated
+  using (public.has_role(auth.uid(), 'store_owner'))
+  with check (public.has_role(auth.uid(), 'store_owner'));
+
+create or replace function public.discount_limit(user_id uuid)
+returns numeric
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(max(l.max_percent), 0)
+    from user_roles r
+    join role_discount_limits l on l.role = r.role
+   where r.user_id = discount_limit.user_id;
+$$;
+
+grant execute on function public.discount_limit(uuid) to authenticated;
+
+-- Amount taken off `base` by a {type, value} discount, never more than `base`.
+create or replace function public.discount_amount(base numeric, discount_type text, discount_value numeric)
+returns numeric
+language sql
+immutable
+as $$
+  select case discount_type
+           when 'percent' then round(base * least(greatest(discount_value, 0), 100) / 100, 2)
+           when 'fixed' then least(greatest(discount_value, 0), base)
+           else 0
+         end;
+$$;
+
+drop function if exists public.complete_sale(jsonb, jsonb);
+
+create or replace function public.complete_sale(
+  items jsonb,
+  payments jsonb,
+  discount jsonb default null
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  new_sale_id uuid;
+  line jsonb;
+  line_quantity integer;
+  line_price numeric;
+  line_gross numeric;
+  line_discount numeric;
+  gross_total numeric := 0;
+  net_before_basket numeric := 0;
+  basket_discount numeric := 0;
+  sale_total numeric;
+  max_discount numeric;
+  product_record record;
+  shortages text[] := '{}';
+  backorders_allowed boolean;
+  payment jsonb;
+  payment_amount numeric;
+  payment_tendered numeric;
+  paid_total numeric := 0;
+  sale_payment_method text;
+begin
+  if auth.uid() is null then
+    raise exception 'You must be logged in to complete a sale';
+  end if;
+
+  if items is null or jsonb_array_length(items) = 0 then
+    raise exception 'Cannot complete a sale without items';
+  end if;
+
+  if payments is null or jsonb_array_length(payments) = 0 then
+    raise exception 'Cannot complete a sale without a payment';
+  end if;
+
+  select allow_backorders into backorders_allowed from store_settings where id;
+  max_discount := public.discount_limit(auth.uid());
+
+  for line in select * from jsonb_array_elements(items) loop
+    line_quantity := (line->>'quantity')::integer;
+    line_price := (line->>'unit_price')::numeric;
+    if line_quantity is null or line_quantity <= 0 then
+      raise exception 'Invalid quantity for product %', line->>'product_id';
+    end if;
+    if line_price is null or line_price < 0 then
+      raise exception 'Invalid price for product %', line->>'product_id';
+    end if;
+
+    select id, name, stock_quantity into product_record
+      from products
+     where id = (line->>'product_id')::uuid
+       for update;
+
+    if not found then
+      raise exception 'Product % not found', line->>'product_id';
+    end if;
+
+    if not coalesce(backorders_allowed, false)
+       and product_record.stock_quantity < line_quantity then
+      shortages := shortages || format(
+        '%s: requested %s, available %s',
+        product_record.name, line_quantity, greatest(product_record.stock_quantity, 0)
+      );
+    end if;
+
+    line_gross := line_quantity * line_price;
+    line_discount := public.discount_amount(
+      line_gross, line->>'discount_type', (line->>'discount_value')::numeric
+    );
+
+    if line_discount > 0 then
+      if coalesce(trim(line->>'discount_reason'), '') = '' then
+        raise exception 'A reason is required for the discount on %', product_record.name;
+      end if;
+      if line_discount / line_gross * 100 > max_discount then
+        raise exception 'Discount on % exceeds your limit of %', product_record.name, max_discount || '%'
+          using hint = 'discount_approval_required';
+      end if;
+    end if;
+
+    gross_total := gross_total + line_gross;
+    net_before_basket := net_before_basket + line_gross - line_discount;
+  end loop;
+
+  if array_length(shortages, 1) > 0 then
+    raise exception 'Insufficient stock. %', array_to_string(shortages, '; ')
+      using errcode = 'P0001', hint = 'stock_changed';
+  end if;
+
+  basket_discount := public.discount_amount(
+    net_before_basket, discount->>'type', (discount->>'value')::numeric
+  );
+
+  if basket_discount > 0 then
+    if coalesce(trim(discount->>'reason'), '') = '' then
+      raise exception 'A reason is required for the basket discount';
+    end if;
+    if basket_discount / net_before_basket * 100 > max_discount then
+      raise exception 'Basket discount exceeds your limit of %', max_discount || '%'
+        using hint = 'discount_approval_required';
+    end if;
+  end if;
+
+  sale_total := net_before_basket - basket_discount;
+
+  for payment in select * from jsonb_array_elements(payments) loop
+    payment_amount := (payment->>'amount')::numeric;
+    payment_tendered := (payment->>'tendered')::numeric;
+    if payment->>'method' not in ('cash', 'debit', 'qris', 'ewallet') then
+      raise exception 'Unknown payment method %', payment->>'method';
+    end if;
+    if payment_amount is null or payment_amount <= 0 then
+      raise exception 'Invalid % payment amount', payment->>'method';
+    end if;
+    if payment_tendered is not null and payment->>'method' <> 'cash' then
+      raise exception 'Only cash payments can give change';
+    end if;
+    if payment_tendered is not null and payment_tendered < payment_amount then
+      raise exception 'Cash tendered is less than the cash amount applied';
+    end if;
+    paid_total := paid_total + payment_amount;
+  end loop;
+
+  if round(paid_total, 2) <> round(sale_total, 2) then
+    raise exception 'Payments (%) do not match the sale total (%)', paid_total, sale_total;
+  end if;
+
+  select case when count(distinct p->>'method') = 1 then min(p->>'method') else 'split' end
+    into sale_payment_method
+    from jsonb_array_elements(payments) as p;
+
+  insert into sales (
+    cashier_id, gross_amount, discount_amount, discount_type, discount_value,
+    discount_reason, total_amount, payment_method, status
+  )
+  values (
+    auth.uid(),
+    gross_total,
+    gross_total - sale_total,
+    case when basket_discount > 0 then discount->>'type' end,
+    case when basket_discount > 0 then (discount->>'value')::numeric else 0 end,
+    case when basket_discount > 0 then trim(discount->>'reason') end,
+    sale_total,
+    sale_payment_method,
+    'completed'
+  )
+  returning id into new_sale_id;
+
+  for line in select * from jsonb_array_elements(items) loop
+    line_quantity := (line->>'quantity')::integer;
+    line_price := (line->>'unit_price')::numeric;
+    line_gross := line_quantity * line_price;
+    line_discount := public.discount_amount(
+      line_gross, line->>'discount_type', (line->>'discount_value')::numeric
+    );
+
+    insert into sale_items (
+      sale_id, product_id, quantity, unit_price, subtotal,
+      discount_type, discount_value, discount_amount, discount_reason
+    )
+    values (
+      new_sale_id,
+      (line->>'product_id')::uuid,
+      line_quantity,
+      line_price,
+      line_gross - line_discount,
+      case when line_discount > 0 then line->>'discount_type' end,
+      case when line_discount > 0 then (line->>'discount_value')::numeric else 0 end,
+      line_discount,
+      case when line_discount > 0 then trim(line->>'discount_reason') end
+    );
+
+    -- Relative decrement so concurrent tills never overwrite each other.
+    update products
+       set stock_quantity = stock_quantity - line_quantity,
+           updated_at = now()
+     where id = (line->>'product_id')::uuid;
+  end loop;
+
+  for payment in select * from jsonb_array_elements(payments) loop
+    insert into sale_payments (sale_id, method, amount, tendered, change_due)
+    values (
+      new_sale_id,
+      payment->>'method',
+      (payment->>'amount')::numeric,
+      (payment->>'tendered')::numeric,
+      coalesce((payment->>'tendered')::numeric - (payment->>'amount')::numeric, 0)
+    );
+  end loop;
+
+  return new_sale_id;
+end;
+$$;
+
+revoke all on function public.complete_sale(jsonb, jsonb, jsonb) from public;
+grant execute on function public.complete_sale(jsonb, jsonb, jsonb) to authenticated;
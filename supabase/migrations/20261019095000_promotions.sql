@@ -0,0 +1,325 @@
+-- Scheduled price rules the POS evaluates on every cart change:
+--   buy_x_get_y  buy `buy_quantity`, get `get_quantity` more free
+--   multi_buy    `bundle_quantity` units for `bundle_price`
+--   percent_off  `percent` off every unit
+-- A promotion targets either one product or a whole category.
+create table if not exists public.promotions (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  promo_type text not null check (promo_type in ('buy_x_get_y', 'multi_buy', 'percent_off')),
+  product_id uuid references public.products (id) on delete cascade,
+  category text,
+  buy_quantity integer check (buy_quantity > 0),
+  get_quantity integer check (get_quantity > 0),
+  bundle_quantity integer check (bundle_quantity > 1),
+  bundle_price numeric check (bundle_price >= 0),
+  percent numeric check (percent > 0 and percent <= 100),
+  days_of_week smallint[] check (days_of_week <@ array[0, 1, 2, 3, 4, 5, 6]::smallint[]),
+  starts_at timestamptz,
+  ends_at timestamptz,
+  active boolean not null default true,
+  created_by uuid references auth.users (id),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  check ((product_id is null) <> (category is null)),
+  check (ends_at is null or starts_at is null or ends_at > starts_at),
+  check (
+    case promo_type
+      when 'buy_x_get_y' then buy_quantity is not null and get_quantity is not null
+      when 'multi_buy' then bundle_quantity is not null and bundle_price is not null
+      when 'percent_off' then percent is not null
+    end
+  )
+);
+
+alter table public.promotions enable row level security;
+
+create policy "Authenticated users can read promotions"
+  on public.promotions for select
+  to authenticated
+  using (true);
+
+create policy "Store owners can manage promotions"
+  on public.promotions for all
+  to authenticated
+  using (public.has_role(auth.uid(), 'store_owner'))
+  with check (public.has_role(auth.uid(), 'store_owner'));
+
+alter table public.sale_items
+  add column if not exists promotion_id uuid references public.promotions (id) on delete set null,
+  add column if not exists promotion_discount numeric not null default 0;
+
+-- Discount a promotion gives on one cart line, or 0 when it does not apply to
+-- that product at that moment. Mirrors `promotionDiscount` in src/lib/promotions.ts.
+create or replace function public.promotion_discount(
+  promotion_id uuid,
+  product_id uuid,
+  quantity integer,
+  unit_price numeric,
+  at_time timestamptz default now()
+)
+returns numeric
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  promo promotions;
+  product_category text;
+begin
+  select * into promo from promotions where id = promotion_discount.promotion_id;
+  if not found or not promo.active then
+    return 0;
+  end if;
+
+  if (promo.starts_at is not null and at_time < promo.starts_at)
+     or (promo.ends_at is not null and at_time >= promo.ends_at)
+     or (promo.days_of_week is not null
+         and not (extract(dow from at_time)::smallint = any (promo.days_of_week))) then
+    return 0;
+  end if;
+
+  select category into product_category from products where id = promotion_discount.product_id;
+  if promo.product_id is not null and promo.product_id <> promotion_discount.product_id then
+    return 0;
+  end if;
+  if promo.category is not null and promo.category is distinct from product_category then
+    return 0;
+  end if;
+
+  return case promo.promo_type
+    when 'buy_x_get_y' then
+      floor(quantity::numeric / (promo.buy_quantity + promo.get_quantity)) * promo.get_quantity * unit_price
+    when 'multi_buy' then
+      greatest(
+        floor(quantity::numeric / promo.bundle_quantity)
+          * (promo.bundle_quantity * unit_price - promo.bundle_price),
+        0
+      )
+    when 'percent_off' then
+      round(quantity * unit_price * promo.percent / 100, 2)
+    else 0
+  end;
+end;
+$$;
+
+grant execute on function public.promotion_discount(uuid, uuid, integer, numeric, timestamptz) to authenticated;
+
+drop function if exists public.complete_sale(jsonb, jsonb, jsonb);
+
+create or replace function public.complete_sale(
+  items jsonb,
+  payments jsonb,
+  discount jsonb default null
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  new_sale_id uuid;
+  line jsonb;
+  line_quantity integer;
+  line_price numeric;
+  line_gross numeric;
+  line_promotion numeric;
+  line_discount numeric;
+  gross_total numeric := 0;
+  net_before_basket numeric := 0;
+  basket_discount numeric := 0;
+  sale_total numeric;
+  max_discount numeric;
+  product_record record;
+  shortages text[] := '{}';
+  backorders_allowed boolean;
+  payment jsonb;
+  payment_amount numeric;
+  payment_tendered numeric;
+  paid_total numeric := 0;
+  sale_payment_method text;
+begin
+  if auth.uid() is null then
+    raise exception 'You must be logged in to complete a sale';
+  end if;
+
+  if items is null or jsonb_array_length(items) = 0 then
+    raise exception 'Cannot complete a sale without items';
+  end if;
+
+  if payments is null or jsonb_array_length(payments) = 0 then
+    raise exception 'Cannot complete a sale without a payment';
+  end if;
+
+  select allow_backorders into backorders_allowed from store_settings where id;
+  max_discount := public.discount_limit(auth.uid());
+
+  for line in select * from jsonb_array_elements(items) loop
+    line_quantity := (line->>'quantity')::integer;
+    line_price := (line->>'unit_price')::numeric;
+    if line_quantity is null or line_quantity <= 0 then
+      raise exception 'Invalid quantity for product %', line->>'product_id';
+    end if;
+    if line_price is null or line_price < 0 then
+      raise exception 'Invalid price for product %', line->>'product_id';
+    end if;
+
+    select id, name, stock_quantity into product_record
+      from products
+     where id = (line->>'product_id')::uuid
+       for update;
+
+    if not found then
+      raise exception 'Product % not found', line->>'product_id';
+    end if;
+
+    if not coalesce(backorders_allowed, false)
+       and product_record.stock_quantity < line_quantity then
+      shortages := shortages || format(
+        '%s: requested %s, available %s',
+        product_record.name, line_quantity, greatest(product_record.stock_quantity, 0)
+      );
+    end if;
+
+    line_gross := line_quantity * line_price;
+    line_promotion := coalesce(public.promotion_discount(
+      (line->>'promotion_id')::uuid, product_record.id, line_quantity, line_price
+    ), 0);
+    line_discount := public.discount_amount(
+      line_gross - line_promotion, line->>'discount_type', (line->>'discount_value')::numeric
+    );
+
+    if line_discount > 0 then
+      if coalesce(trim(line->>'discount_reason'), '') = '' then
+        raise exception 'A reason is required for the discount on %', product_record.name;
+      end if;
+      if line_discount / (line_gross - line_promotion) * 100 > max_discount then
+        raise exception 'Discount on % exceeds your limit of %', product_record.name, max_discount || '%'
+          using hint = 'discount_approval_required';
+      end if;
+    end if;
+
+    gross_total := gross_total + line_gross;
+    net_before_basket := net_before_basket + line_gross - line_promotion - line_discount;
+  end loop;
+
+  if array_length(shortages, 1) > 0 then
+    raise exception 'Insufficient stock. %', array_to_string(shortages, '; ')
+      using errcode = 'P0001', hint = 'stock_changed';
+  end if;
+
+  basket_discount := public.discount_amount(
+    net_before_basket, discount->>'type', (discount->>'value')::numeric
+  );
+
+  if basket_discount > 0 then
+    if coalesce(trim(discount->>'reason'), '') = '' then
+      raise exception 'A reason is required for the basket discount';
+    end if;
+    if basket_discount / net_before_basket * 100 > max_discount then
+      raise exception 'Basket discount exceeds your limit of %', max_discount || '%'
+        using hint = 'discount_approval_required';
+    end if;
+  end if;
+
+  sale_total := net_before_basket - basket_discount;
+
+  for payment in select * from jsonb_array_elements(payments) loop
+    payment_amount := (payment->>'amount')::numeric;
+    payment_tendered := (payment->>'tendered')::numeric;
+    if payment->>'method' not in ('cash', 'debit', 'qris', 'ewallet') then
+      raise exception 'Unknown payment method %', payment->>'method';
+    end if;
+    if payment_amount is null or payment_amount <= 0 then
+      raise exception 'Invalid % payment amount', payment->>'method';
+    end if;
+    if payment_tendered is not null and payment->>'method' <> 'cash' then
+      raise exception 'Only cash payments can give change';
+    end if;
+    if payment_tendered is not null and payment_tendered < payment_amount then
+      raise exception 'Cash tendered is less than the cash amount applied';
+    end if;
+    paid_total := paid_total + payment_amount;
+  end loop;
+
+  if round(paid_total, 2) <> round(sale_total, 2) then
+    raise exception 'Payments (%) do not match the sale total (%)', paid_total, sale_total
+      using hint = 'total_changed';
+  end if;
+
+  select case when count(distinct p->>'method') = 1 then min(p->>'method') else 'split' end
+    into sale_payment_method
+    from jsonb_array_elements(payments) as p;
+
+  insert into sales (
+    cashier_id, gross_amount, discount_amount, discount_type, discount_value,
+    discount_reason, total_amount, payment_method, status
+  )
+  values (
+    auth.uid(),
+    gross_total,
+    gross_total - sale_total,
+    case when basket_discount > 0 then discount->>'type' end,
+    case when basket_discount > 0 then (discount->>'value')::numeric else 0 end,
+    case when basket_discount > 0 then trim(discount->>'reason') end,
+    sale_total,
+    sale_payment_method,
+    'completed'
+  )
+  returning id into new_sale_id;
+
+  for line in select * from jsonb_array_elements(items) loop
+    line_quantity := (line->>'quantity')::integer;
+    line_price := (line->>'unit_price')::numeric;
+    line_gross := line_quantity * line_price;
+    line_promotion := coalesce(public.promotion_discount(
+      (line->>'promotion_id')::uuid, (line->>'product_id')::uuid, line_quantity, line_price
+    ), 0);
+    line_discount := public.discount_amount(
+      line_gross - line_promotion, line->>'discount_type', (line->>'discount_value')::numeric
+    );
+
+    insert into sale_items (
+      sale_id, product_id, quantity, unit_price, subtotal,
+      promotion_id, promotion_discount,
+      discount_type, discount_value, discount_amount, discount_reason
+    )
+    values (
+      new_sale_id,
+      (line->>'product_id')::uuid,
+      line_quantity,
+      line_price,
+      line_gross - line_promotion - line_discount,
+      case when line_promotion > 0 then (line->>'promotion_id')::uuid end,
+      line_promotion,
+      case when line_discount > 0 then line->>'discount_type' end,
+      case when line_discount > 0 then (line->>'discount_value')::numeric else 0 end,
+      line_discount,
+      case when line_discount > 0 then trim(line->>'discount_reason') end
+    );
+
+    -- Relative decrement so concurrent tills never overwrite each other.
+    update products
+       set stock_quantity = stock_quantity - line_quantity,
+           updated_at = now()
+     where id = (line->>'product_id')::uuid;
+  end loop;
+
+  for payment in select * from jsonb_array_elements(payments) loop
+    insert into sale_payments (sale_id, method, amount, tendered, change_due)
+    values (
+      new_sale_id,
+      payment->>'method',
+      (payment->>'amount')::numeric,
+      (payment->>'tendered')::numeric,
+      coalesce((payment->>'tendered')::numeric - (payment->>'amount')::numeric, 0)
+    );
+  end loop;
+
+  return new_sale_id;
+end;
+$$;
+
+revoke all on function public.complete_sale(jsonb, jsonb, jsonb) from public;
+grant execute on function public.complete_sale(jsonb, jsonb, jsonb) to authenticated;
@@ -0,0 +1,57 @@
+-- Carts put on hold at the till (e.g. the customer went back for their
+-- wallet). Any terminal can recall them; they are not sales, so stock and
+-- prices are only settled when the recalled cart goes through complete_sale.
+create table if not exists public.parked_carts (
+  id uuid primary key default gen_random_uuid(),
+  label text not null check (length(trim(label)) > 0),
+  cashier_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  cashier_name text,
+  -- Open shift of the parking cashier; the cart expires when it closes.
+  shift_id uuid references public.shifts (id) on delete cascade,
+  -- [{product_id, quantity, discount: {type, value, reason} | null}]
+  items jsonb not null check (jsonb_typeof(items) = 'array' and jsonb_array_length(items) > 0),
+  discount jsonb,
+  total_amount numeric not null default 0,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists parked_carts_shift_id_idx on public.parked_carts (shift_id);
+
+alter table public.parked_carts enable row level security;
+
+create policy "Authenticated users can read parked carts"
+  on public.parked_carts for select
+  to authenticated
+  using (true);
+
+create policy "Cashiers can park their own carts"
+  on public.parked_carts for insert
+  to authenticated
+  with check (cashier_id = auth.uid());
+
+-- Recalling a cart removes it, whichever terminal picks it up.
+create policy "Authenticated users can recall parked carts"
+  on public.parked_carts for delete
+  to authenticated
+  using (true);
+
+create or replace function public.expire_parked_carts()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  delete from public.parked_carts
+  where shift_id = new.id
+     or (shift_id is null and cashier_id = new.cashier_id and created_at <= coalesce(new.end_time, now()));
+  return new;
+end;
+$$;
+
+drop trigger if exists expire_parked_carts on public.shifts;
+create trigger expire_parked_carts
+  after update of status on public.shifts
+  for each row
+  when (new.status = 'closed' and old.status is distinct from 'closed')
+  execute function public.expire_parked_carts();
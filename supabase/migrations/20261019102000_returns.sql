@@ -0,0 +1,198 @@
+-- Returns are recorded as their own sale rows with negative amounts, linked to
+-- the sale they reverse, so summing sales, items and payments over any period
+-- (shift totals, tax report) nets the refund against the original takings.
+alter table public.sales
+  add column if not exists sale_type text not null default 'sale'
+    check (sale_type in ('sale', 'return')),
+  add column if not exists original_sale_id uuid references public.sales (id),
+  add column if not exists return_reason text;
+
+create index if not exists sales_original_sale_id_idx on public.sales (original_sale_id);
+
+-- On return rows, quantity and amounts are negative and `return_condition`
+-- says whether the goods went back on the shelf.
+alter table public.sale_items
+  add column if not exists original_item_id uuid references public.sale_items (id),
+  add column if not exists return_condition text
+    check (return_condition in ('restock', 'damaged'));
+
+create index if not exists sale_items_original_item_id_idx on public.sale_items (original_item_id);
+
+create or replace function public.process_return(
+  sale_id uuid,
+  items jsonb,
+  reason text
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  original sales;
+  new_sale_id uuid;
+  line jsonb;
+  item_record record;
+  return_quantity integer;
+  returned_quantity integer;
+  returned_total numeric;
+  returned_tax numeric;
+  returned_gross numeric;
+  refund_line numeric;
+  refund_tax numeric;
+  refund_gross numeric;
+  refund_total numeric := 0;
+  refund_tax_total numeric := 0;
+  refund_gross_total numeric := 0;
+  refund_left numeric;
+  refund_payment numeric;
+  tender record;
+  refund_method text;
+begin
+  if auth.uid() is null then
+    raise exception 'You must be logged in to process a return';
+  end if;
+
+  if coalesce(trim(reason), '') = '' then
+    raise exception 'A reason is required for a return';
+  end if;
+
+  if items is null or jsonb_array_length(items) = 0 then
+    raise exception 'Select at least one item to return';
+  end if;
+
+  select * into original from sales where id = process_return.sale_id for update;
+  if not found then
+    raise exception 'Sale % not found', process_return.sale_id;
+  end if;
+  if original.sale_type <> 'sale' then
+    raise exception 'A return cannot itself be returned';
+  end if;
+
+  insert into sales (
+    cashier_id, sale_type, original_sale_id, return_reason,
+    gross_amount, discount_amount, total_amount, prices_include_tax,
+    payment_method, status
+  )
+  values (
+    auth.uid(), 'return', original.id, trim(reason),
+    0, 0, 0, original.prices_include_tax,
+    'pending', 'completed'
+  )
+  returning id into new_sale_id;
+
+  for line in select * from jsonb_array_elements(items) loop
+    return_quantity := (line->>'quantity')::integer;
+
+    select si.*, p.name as product_name into item_record
+      from sale_items si
+      join products p on p.id = si.product_id
+     where si.id = (line->>'sale_item_id')::uuid
+       and si.sale_id = original.id;
+
+    if not found then
+      raise exception 'Item % is not part of this sale', line->>'sale_item_id';
+    end if;
+
+    if return_quantity is null or return_quantity <= 0 then
+      raise exception 'Invalid return quantity for %', item_record.product_name;
+    end if;
+
+    if coalesce(line->>'condition', 'restock') not in ('restock', 'damaged') then
+      raise exception 'Unknown return condition %', line->>'condition';
+    end if;
+
+    select coalesce(-sum(quantity), 0),
+           coalesce(-sum(line_total), 0),
+           coalesce(-sum(tax_amount), 0),
+           coalesce(-sum(quantity * unit_price), 0)
+      into returned_quantity, returned_total, returned_tax, returned_gross
+      from sale_items
+     where original_item_id = item_record.id;
+
+    if return_quantity > item_record.quantity - returned_quantity then
+      raise exception 'Only % of % can still be returned',
+        item_record.quantity - returned_quantity, item_record.product_name;
+    end if;
+
+    -- Refund what the customer actually paid for these units. The last units
+    -- take whatever is left of the line so rounding never over- or under-refunds.
+    if return_quantity = item_record.quantity - returned_quantity then
+      refund_line := item_record.line_total - returned_total;
+      refund_tax := item_record.tax_amount - returned_tax;
+    else
+      refund_line := round(item_record.line_total * return_quantity / item_record.quantity, 2);
+      refund_tax := round(item_record.tax_amount * return_quantity / item_record.quantity, 2);
+    end if;
+    refund_gross := return_quantity * item_record.unit_price;
+
+    insert into sale_items (
+      sale_id, product_id, quantity, unit_price, subtotal,
+      tax_rate, tax_amount, line_total, original_item_id, return_condition
+    )
+    values (
+      new_sale_id,
+      item_record.product_id,
+      -return_quantity,
+      item_record.unit_price,
+      -refund_line + (case when original.prices_include_tax then 0 else refund_tax end),
+      item_record.tax_rate,
+      -refund_tax,
+      -refund_line,
+      item_record.id,
+      coalesce(line->>'condition', 'restock')
+    );
+
+    if coalesce(line->>'condition', 'restock') = 'restock' then
+      update products
+         set stock_quantity = stock_quantity + return_quantity,
+             updated_at = now()
+       where id = item_record.product_id;
+    end if;
+
+    refund_total := refund_total + refund_line;
+    refund_tax_total := refund_tax_total + refund_tax;
+    refund_gross_total := refund_gross_total + refund_gross;
+  end loop;
+
+  -- Money goes back to the tenders it came from: card and e-wallet payments
+  -- first, up to what is still unrefunded on each, and cash takes the rest.
+  refund_left := refund_total;
+
+  for tender in
+    select p.method, sum(p.amount) as refundable
+      from sale_payments p
+      join sales s on s.id = p.sale_id
+     where s.id = original.id or s.original_sale_id = original.id
+     group by p.method
+     order by (p.method = 'cash'), p.method
+  loop
+    exit when refund_left <= 0;
+    refund_payment := least(refund_left, greatest(tender.refundable, 0));
+    if refund_payment > 0 then
+      insert into sale_payments (sale_id, method, amount)
+      values (new_sale_id, tender.method, -refund_payment);
+      refund_left := refund_left - refund_payment;
+    end if;
+  end loop;
+
+  if refund_left > 0 then
+    raise exception 'Refund exceeds what was paid for this sale';
+  end if;
+
+  select case when count(distinct method) = 1 then min(method) else 'split' end
+    into refund_method
+    from sale_payments
+   where sale_payments.sale_id = new_sale_id;
+
+  update sales
+     set gross_amount = -refund_gross_total,
+         discount_amount = -(refund_gross_total - (refund_total - case when original.prices_include_tax then 0 else refund_tax_total end)),
+         tax_amount = -refund_tax_total,
+         total_amount = -refund_total,
+         payment_method = refund_method
+   where id = new_sale_id;
+
+  return new_sale_id;
+end;
+$$;
@@ -0,0 +1,547 @@
+-- Every sale belongs to the shift it was rung up in, so shift totals come
+-- from the shift's own sales rather than from a time window that concurrent
+-- shifts on other tills overlap.
+alter table public.sales
+  add column if not exists shift_id uuid references public.shifts (id);
+
+create index if not exists sales_shift_id_idx on public.sales (shift_id);
+
+-- Existing sales go to the cashier's shift that was running at the time.
+update public.sales s
+   set shift_id = sh.id
+  from public.shifts sh
+ where s.shift_id is null
+   and sh.cashier_id = s.cashier_id
+   and s.created_at >= sh.start_time
+   and (sh.end_time is null or s.created_at <= sh.end_time);
+
+create or replace function public.current_shift_id(user_id uuid)
+returns uuid
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select id
+    from shifts
+   where cashier_id = current_shift_id.user_id
+     and status = 'open'
+   order by start_time desc
+   limit 1
+$$;
+
+create or replace view public.shift_payment_totals
+with (security_invoker = true) as
+select s.shift_id,
+       p.method,
+       sum(p.amount) as amount
+  from public.sale_payments p
+  join public.sales s on s.id = p.sale_id
+ where s.shift_id is not null
+   and s.status <> 'voided'
+ group by s.shift_id, p.method;
+
+create or replace function public.close_shift(
+  shift_id uuid,
+  ending_cash numeric,
+  notes text default null
+)
+returns shifts
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  target shifts;
+begin
+  select * into target from shifts where id = close_shift.shift_id for update;
+  if not found then
+    raise exception 'Shift % not found', close_shift.shift_id;
+  end if;
+  if target.cashier_id <> auth.uid() and not public.has_role(auth.uid(), 'store_owner') then
+    raise exception 'You can only close your own shift';
+  end if;
+  if target.status <> 'open' then
+    raise exception 'Shift is already %', target.status;
+  end if;
+  if ending_cash is null or ending_cash < 0 then
+    raise exception 'Invalid ending cash amount';
+  end if;
+
+  update shifts
+     set end_time = now(),
+         ending_cash = close_shift.ending_cash,
+         total_sales = (
+           select coalesce(sum(total_amount), 0)
+             from sales
+            where sales.shift_id = target.id
+              and status <> 'voided'
+         ),
+         notes = nullif(trim(close_shift.notes), ''),
+         status = 'closed'
+   where id = target.id
+  returning * into target;
+
+  return target;
+end;
+$$;
+
+create or replace function public.complete_sale(
+  items jsonb,
+  payments jsonb,
+  discount jsonb default null
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  new_sale_id uuid;
+  line jsonb;
+  line_index bigint;
+  line_count integer;
+  line_quantity integer;
+  line_price numeric;
+  line_gross numeric;
+  line_promotion numeric;
+  line_discount numeric;
+  line_net numeric;
+  line_basket_share numeric;
+  line_taxable numeric;
+  line_tax_rate numeric;
+  line_tax numeric;
+  basket_left numeric;
+  gross_total numeric := 0;
+  net_before_basket numeric := 0;
+  basket_discount numeric := 0;
+  tax_total numeric := 0;
+  sale_total numeric := 0;
+  max_discount numeric;
+  product_record record;
+  shortages text[] := '{}';
+  settings store_settings;
+  payment jsonb;
+  payment_amount numeric;
+  payment_tendered numeric;
+  paid_total numeric := 0;
+  sale_payment_method text;
+  open_shift_id uuid;
+begin
+  if auth.uid() is null then
+    raise exception 'You must be logged in to complete a sale';
+  end if;
+
+  if items is null or jsonb_array_length(items) = 0 then
+    raise exception 'Cannot complete a sale without items';
+  end if;
+
+  if payments is null or jsonb_array_length(payments) = 0 then
+    raise exception 'Cannot complete a sale without a payment';
+  end if;
+
+  open_shift_id := public.current_shift_id(auth.uid());
+  if open_shift_id is null then
+    raise exception 'Start a shift before making sales'
+      using hint = 'shift_required';
+  end if;
+
+  select * into settings from store_settings where id;
+  max_discount := public.discount_limit(auth.uid());
+  line_count := jsonb_array_length(items);
+
+  for line in select * from jsonb_array_elements(items) loop
+    line_quantity := (line->>'quantity')::integer;
+    line_price := (line->>'unit_price')::numeric;
+    if line_quantity is null or line_quantity <= 0 then
+      raise exception 'Invalid quantity for product %', line->>'product_id';
+    end if;
+    if line_price is null or line_price < 0 then
+      raise exception 'Invalid price for product %', line->>'product_id';
+    end if;
+
+    select id, name, stock_quantity into product_record
+      from products
+     where id = (line->>'product_id')::uuid
+       for update;
+
+    if not found then
+      raise exception 'Product % not found', line->>'product_id';
+    end if;
+
+    if not coalesce(settings.allow_backorders, false)
+       and product_record.stock_quantity < line_quantity then
+      shortages := shortages || format(
+        '%s: requested %s, available %s',
+        product_record.name, line_quantity, greatest(product_record.stock_quantity, 0)
+      );
+    end if;
+
+    line_gross := line_quantity * line_price;
+    line_promotion := coalesce(public.promotion_discount(
+      (line->>'promotion_id')::uuid, product_record.id, line_quantity, line_price
+    ), 0);
+    line_discount := public.discount_amount(
+      line_gross - line_promotion, line->>'discount_type', (line->>'discount_value')::numeric
+    );
+
+    if line_discount > 0 then
+      if coalesce(trim(line->>'discount_reason'), '') = '' then
+        raise exception 'A reason is required for the discount on %', product_record.name;
+      end if;
+      if line_discount / (line_gross - line_promotion) * 100 > max_discount then
+        raise exception 'Discount on % exceeds your limit of %', product_record.name, max_discount || '%'
+          using hint = 'discount_approval_required';
+      end if;
+    end if;
+
+    gross_total := gross_total + line_gross;
+    net_before_basket := net_before_basket + line_gross - line_promotion - line_discount;
+  end loop;
+
+  if array_length(shortages, 1) > 0 then
+    raise exception 'Insufficient stock. %', array_to_string(shortages, '; ')
+      using errcode = 'P0001', hint = 'stock_changed';
+  end if;
+
+  basket_discount := public.discount_amount(
+    net_before_basket, discount->>'type', (discount->>'value')::numeric
+  );
+
+  if basket_discount > 0 then
+    if coalesce(trim(discount->>'reason'), '') = '' then
+      raise exception 'A reason is required for the basket discount';
+    end if;
+    if basket_discount / net_before_basket * 100 > max_discount then
+      raise exception 'Basket discount exceeds your limit of %', max_discount || '%'
+        using hint = 'discount_approval_required';
+    end if;
+  end if;
+
+  insert into sales (
+    cashier_id, shift_id, gross_amount, discount_amount, discount_type, discount_value,
+    discount_reason, total_amount, prices_include_tax, payment_method, status
+  )
+  values (
+    auth.uid(),
+    open_shift_id,
+    gross_total,
+    0,
+    case when basket_discount > 0 then discount->>'type' end,
+    case when basket_discount > 0 then (discount->>'value')::numeric else 0 end,
+    case when basket_discount > 0 then trim(discount->>'reason') end,
+    0,
+    settings.prices_include_tax,
+    'pending',
+    'completed'
+  )
+  returning id into new_sale_id;
+
+  -- The basket discount is spread over the lines in proportion to their net,
+  -- the last line taking the rounding remainder, so PPN is charged on what the
+  -- customer actually pays for each line.
+  basket_left := basket_discount;
+
+  for line, line_index in select value, ordinality from jsonb_array_elements(items) with ordinality loop
+    line_quantity := (line->>'quantity')::integer;
+    line_price := (line->>'unit_price')::numeric;
+    line_gross := line_quantity * line_price;
+    line_promotion := coalesce(public.promotion_discount(
+      (line->>'promotion_id')::uuid, (line->>'product_id')::uuid, line_quantity, line_price
+    ), 0);
+    line_discount := public.discount_amount(
+      line_gross - line_promotion, line->>'discount_type', (line->>'discount_value')::numeric
+    );
+    line_net := line_gross - line_promotion - line_discount;
+
+    if line_index = line_count then
+      line_basket_share := basket_left;
+    elsif net_before_basket > 0 then
+      line_basket_share := round(basket_discount * line_net / net_before_basket, 2);
+    else
+      line_basket_share := 0;
+    end if;
+    basket_left := basket_left - line_basket_share;
+    line_taxable := line_net - line_basket_share;
+
+    select case when tax_class = 'standard' then settings.ppn_rate else 0 end
+      into line_tax_rate
+      from products
+     where id = (line->>'product_id')::uuid;
+
+    if settings.prices_include_tax then
+      line_tax := round(line_taxable * line_tax_rate / (100 + line_tax_rate), 2);
+    else
+      line_tax := round(line_taxable * line_tax_rate / 100, 2);
+      line_taxable := line_taxable + line_tax;
+    end if;
+
+    tax_total := tax_total + line_tax;
+    sale_total := sale_total + line_taxable;
+
+    insert into sale_items (
+      sale_id, product_id, quantity, unit_price, subtotal,
+      promotion_id, promotion_discount,
+      discount_type, discount_value, discount_amount, discount_reason,
+      tax_rate, tax_amount, line_total
+    )
+    values (
+      new_sale_id,
+      (line->>'product_id')::uuid,
+      line_quantity,
+      line_price,
+      line_net,
+      case when line_promotion > 0 then (line->>'promotion_id')::uuid end,
+      line_promotion,
+      case when line_discount > 0 then line->>'discount_type' end,
+      case when line_discount > 0 then (line->>'discount_value')::numeric else 0 end,
+      line_discount,
+      case when line_discount > 0 then trim(line->>'discount_reason') end,
+      line_tax_rate,
+      line_tax,
+      line_taxable
+    );
+
+    -- Relative decrement so concurrent tills never overwrite each other.
+    update products
+       set stock_quantity = stock_quantity - line_quantity,
+           updated_at = now()
+     where id = (line->>'product_id')::uuid;
+  end loop;
+
+  for payment in select * from jsonb_array_elements(payments) loop
+    payment_amount := (payment->>'amount')::numeric;
+    payment_tendered := (payment->>'tendered')::numeric;
+    if payment->>'method' not in ('cash', 'debit', 'qris', 'ewallet') then
+      raise exception 'Unknown payment method %', payment->>'method';
+    end if;
+    if payment_amount is null or payment_amount <= 0 then
+      raise exception 'Invalid % payment amount', payment->>'method';
+    end if;
+    if payment_tendered is not null and payment->>'method' <> 'cash' then
+      raise exception 'Only cash payments can give change';
+    end if;
+    if payment_tendered is not null and payment_tendered < payment_amount then
+      raise exception 'Cash tendered is less than the cash amount applied';
+    end if;
+    paid_total := paid_total + payment_amount;
+
+    insert into sale_payments (sale_id, method, amount, tendered, change_due)
+    values (
+      new_sale_id,
+      payment->>'method',
+      payment_amount,
+      payment_tendered,
+      coalesce(payment_tendered - payment_amount, 0)
+    );
+  end loop;
+
+  if round(paid_total, 2) <> round(sale_total, 2) then
+    raise exception 'Payments (%) do not match the sale total (%)', paid_total, sale_total
+      using hint = 'total_changed';
+  end if;
+
+  select case when count(distinct p->>'method') = 1 then min(p->>'method') else 'split' end
+    into sale_payment_method
+    from jsonb_array_elements(payments) as p;
+
+  update sales
+     set total_amount = sale_total,
+         discount_amount = gross_total - (net_before_basket - basket_discount),
+         tax_amount = tax_total,
+         payment_method = sale_payment_method
+   where id = new_sale_id;
+
+  return new_sale_id;
+end;
+$$;
+
+create or replace function public.process_return(
+  sale_id uuid,
+  items jsonb,
+  reason text
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  original sales;
+  new_sale_id uuid;
+  line jsonb;
+  item_record record;
+  return_quantity integer;
+  returned_quantity integer;
+  returned_total numeric;
+  returned_tax numeric;
+  returned_gross numeric;
+  refund_line numeric;
+  refund_tax numeric;
+  refund_gross numeric;
+  refund_total numeric := 0;
+  refund_tax_total numeric := 0;
+  refund_gross_total numeric := 0;
+  refund_left numeric;
+  refund_payment numeric;
+  tender record;
+  refund_method text;
+  open_shift_id uuid;
+begin
+  if auth.uid() is null then
+    raise exception 'You must be logged in to process a return';
+  end if;
+
+  if coalesce(trim(reason), '') = '' then
+    raise exception 'A reason is required for a return';
+  end if;
+
+  if items is null or jsonb_array_length(items) = 0 then
+    raise exception 'Select at least one item to return';
+  end if;
+
+  -- The refund leaves the drawer of whoever hands it back.
+  open_shift_id := public.current_shift_id(auth.uid());
+  if open_shift_id is null then
+    raise exception 'Start a shift before processing returns'
+      using hint = 'shift_required';
+  end if;
+
+  select * into original from sales where id = process_return.sale_id for update;
+  if not found then
+    raise exception 'Sale % not found', process_return.sale_id;
+  end if;
+  if original.sale_type <> 'sale' then
+    raise exception 'A return cannot itself be returned';
+  end if;
+  if original.status = 'voided' then
+    raise exception 'A voided sale cannot be returned';
+  end if;
+
+  insert into sales (
+    cashier_id, shift_id, sale_type, original_sale_id, return_reason,
+    gross_amount, discount_amount, total_amount, prices_include_tax,
+    payment_method, status
+  )
+  values (
+    auth.uid(), open_shift_id, 'return', original.id, trim(reason),
+    0, 0, 0, original.prices_include_tax,
+    'pending', 'completed'
+  )
+  returning id into new_sale_id;
+
+  for line in select * from jsonb_array_elements(items) loop
+    return_quantity := (line->>'quantity')::integer;
+
+    select si.*, p.name as product_name into item_record
+      from sale_items si
+      join products p on p.id = si.product_id
+     where si.id = (line->>'sale_item_id')::uuid
+       and si.sale_id = original.id;
+
+    if not found then
+      raise exception 'Item % is not part of this sale', line->>'sale_item_id';
+    end if;
+
+    if return_quantity is null or return_quantity <= 0 then
+      raise exception 'Invalid return quantity for %', item_record.product_name;
+    end if;
+
+    if coalesce(line->>'condition', 'restock') not in ('restock', 'damaged') then
+      raise exception 'Unknown return condition %', line->>'condition';
+    end if;
+
+    select coalesce(-sum(quantity), 0),
+           coalesce(-sum(line_total), 0),
+           coalesce(-sum(tax_amount), 0),
+           coalesce(-sum(quantity * unit_price), 0)
+      into returned_quantity, returned_total, returned_tax, returned_gross
+      from sale_items
+     where original_item_id = item_record.id;
+
+    if return_quantity > item_record.quantity - returned_quantity then
+      raise exception 'Only % of % can still be returned',
+        item_record.quantity - returned_quantity, item_record.product_name;
+    end if;
+
+    -- Refund what the customer actually paid for these units. The last units
+    -- take whatever is left of the line so rounding never over- or under-refunds.
+    if return_quantity = item_record.quantity - returned_quantity then
+      refund_line := item_record.line_total - returned_total;
+      refund_tax := item_record.tax_amount - returned_tax;
+    else
+      refund_line := round(item_record.line_total * return_quantity / item_record.quantity, 2);
+      refund_tax := round(item_record.tax_amount * return_quantity / item_record.quantity, 2);
+    end if;
+    refund_gross := return_quantity * item_record.unit_price;
+
+    insert into sale_items (
+      sale_id, product_id, quantity, unit_price, subtotal,
+      tax_rate, tax_amount, line_total, original_item_id, return_condition
+    )
+    values (
+      new_sale_id,
+      item_record.product_id,
+      -return_quantity,
+      item_record.unit_price,
+      -refund_line + (case when original.prices_include_tax then 0 else refund_tax end),
+      item_record.tax_rate,
+      -refund_tax,
+      -refund_line,
+      item_record.id,
+      coalesce(line->>'condition', 'restock')
+    );
+
+    if coalesce(line->>'condition', 'restock') = 'restock' then
+      update products
+         set stock_quantity = stock_quantity + return_quantity,
+             updated_at = now()
+       where id = item_record.product_id;
+    end if;
+
+    refund_total := refund_total + refund_line;
+    refund_tax_total := refund_tax_total + refund_tax;
+    refund_gross_total := refund_gross_total + refund_gross;
+  end loop;
+
+  -- Money goes back to the tenders it came from: card and e-wallet payments
+  -- first, up to what is still unrefunded on each, and cash takes the rest.
+  refund_left := refund_total;
+
+  for tender in
+    select p.method, sum(p.amount) as refundable
+      from sale_payments p
+      join sales s on s.id = p.sale_id
+     where s.id = original.id or s.original_sale_id = original.id
+     group by p.method
+     order by (p.method = 'cash'), p.method
+  loop
+    exit when refund_left <= 0;
+    refund_payment := least(refund_left, greatest(tender.refundable, 0));
+    if refund_payment > 0 then
+      insert into sale_payments (sale_id, method, amount)
+      values (new_sale_id, tender.method, -refund_payment);
+      refund_left := refund_left - refund_payment;
+    end if;
+  end loop;
+
+  if refund_left > 0 then
+    raise exception 'Refund exceeds what was paid for this sale';
+  end if;
+
+  select case when count(distinct method) = 1 then min(method) else 'split' end
+    into refund_method
+    from sale_payments
+   where sale_payments.sale_id = new_sale_id;
+
+  update sales
+     set gross_amount = -refund_gross_total,
+         discount_amount = -(refund_gross_total - (refund_total - case when original.prices_include_tax then 0 else refund_tax_total end)),
+         tax_amount = -refund_tax_total,
+         total_amount = -refund_total,
+         payment_method = refund_method
+   where id = new_sale_id;
+
+  return new_sale_id;
+end;
+$$;
@@ -0,0 +1,95 @@
+-- Drawer reconciliation at shift close: what should be in the drawer, what
+-- the cashier counted (by denomination) and the difference.
+alter table public.shifts
+  add column if not exists expected_cash numeric,
+  add column if not exists cash_variance numeric,
+  -- {"100000": 3, "50000": 1, ...}
+  add column if not exists cash_count jsonb;
+
+-- Over/short beyond this many rupiah needs an explanation from the cashier.
+alter table public.store_settings
+  add column if not exists cash_variance_threshold numeric not null default 10000
+    check (cash_variance_threshold >= 0);
+
+-- Float plus the cash actually kept from sales, net of cash refunds. Cash
+-- payments are recorded net of change, so change given is already excluded.
+create or replace function public.expected_cash(shift_id uuid)
+returns numeric
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select sh.starting_cash + coalesce((
+           select sum(t.amount)
+             from shift_payment_totals t
+            where t.shift_id = sh.id
+              and t.method = 'cash'
+         ), 0)
+    from shifts sh
+   where sh.id = expected_cash.shift_id
+$$;
+
+drop function if exists public.close_shift(uuid, numeric, text);
+
+create or replace function public.close_shift(
+  shift_id uuid,
+  ending_cash numeric,
+  notes text default null,
+  cash_count jsonb default null
+)
+returns shifts
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  target shifts;
+  expected numeric;
+  variance numeric;
+  threshold numeric;
+begin
+  select * into target from shifts where id = close_shift.shift_id for update;
+  if not found then
+    raise exception 'Shift % not found', close_shift.shift_id;
+  end if;
+  if target.cashier_id <> auth.uid() and not public.has_role(auth.uid(), 'store_owner') then
+    raise exception 'You can only close your own shift';
+  end if;
+  if target.status <> 'open' then
+    raise exception 'Shift is already %', target.status;
+  end if;
+  if ending_cash is null or ending_cash < 0 then
+    raise exception 'Invalid ending cash amount';
+  end if;
+
+  expected := public.expected_cash(target.id);
+  variance := ending_cash - expected;
+  select cash_variance_threshold into threshold from store_settings where id;
+
+  if abs(variance) > coalesce(threshold, 0) and coalesce(trim(notes), '') = '' then
+    raise exception 'Drawer is % by Rp%. Add a note explaining the difference.',
+      case when variance > 0 then 'over' else 'short' end, abs(variance)
+      using hint = 'variance_note_required';
+  end if;
+
+  update shifts
+     set end_time = now(),
+         ending_cash = close_shift.ending_cash,
+         expected_cash = expected,
+         cash_variance = variance,
+         cash_count = close_shift.cash_count,
+         total_sales = (
+           select coalesce(sum(total_amount), 0)
+             from sales
+            where sales.shift_id = target.id
+              and status <> 'voided'
+         ),
+         notes = nullif(trim(close_shift.notes), ''),
+         status = 'closed'
+   where id = target.id
+  returning * into target;
+
+  return target;
+end;
+$$;
@@ -0,0 +1,72 @@
+-- Cash that enters or leaves the drawer outside of sales: drops to the safe,
+-- pay-ins (e.g. extra change) and petty-cash payouts to suppliers.
+create table if not exists public.cash_movements (
+  id uuid primary key default gen_random_uuid(),
+  shift_id uuid not null references public.shifts (id),
+  movement_type text not null check (movement_type in ('drop', 'pay_in', 'payout')),
+  amount numeric not null check (amount > 0),
+  reason text not null check (length(trim(reason)) > 0),
+  -- Object path of the receipt photo in the cash-receipts bucket.
+  receipt_path text,
+  created_by uuid not null default auth.uid() references auth.users (id),
+  created_at timestamptz not null default now()
+);
+
+create index if not exists cash_movements_shift_id_idx on public.cash_movements (shift_id);
+
+alter table public.cash_movements enable row level security;
+
+create policy "Authenticated users can read cash movements"
+  on public.cash_movements for select
+  to authenticated
+  using (true);
+
+-- The ledger is append-only and only open shifts take new entries.
+create policy "Cashiers can record cash movements on open shifts"
+  on public.cash_movements for insert
+  to authenticated
+  with check (
+    created_by = auth.uid()
+    and exists (
+      select 1 from public.shifts
+       where shifts.id = shift_id
+         and shifts.status = 'open'
+    )
+  );
+
+insert into storage.buckets (id, name, public)
+values ('cash-receipts', 'cash-receipts', false)
+on conflict (id) do nothing;
+
+create policy "Authenticated users can read cash receipts"
+  on storage.objects for select
+  to authenticated
+  using (bucket_id = 'cash-receipts');
+
+create policy "Authenticated users can upload cash receipts"
+  on storage.objects for insert
+  to authenticated
+  with check (bucket_id = 'cash-receipts');
+
+create or replace function public.expected_cash(shift_id uuid)
+returns numeric
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select sh.starting_cash
+         + coalesce((
+             select sum(t.amount)
+               from shift_payment_totals t
+              where t.shift_id = sh.id
+                and t.method = 'cash'
+           ), 0)
+         + coalesce((
+             select sum(case when m.movement_type = 'pay_in' then m.amount else -m.amount end)
+               from cash_movements m
+              where m.shift_id = sh.id
+           ), 0)
+    from shifts sh
+   where sh.id = expected_cash.shift_id
+$$;
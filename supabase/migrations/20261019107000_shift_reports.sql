@@ -0,0 +1,102 @@
+-- Z numbers are handed out once, when a shift is closed, from a sequence so a
+-- number is never issued twice even if the shift is later voided.
+create sequence if not exists public.shift_z_number_seq;
+
+alter table public.shifts
+  add column if not exists z_number bigint unique;
+
+-- Number the shifts closed before Z reports existed, oldest first.
+update public.shifts sh
+   set z_number = numbered.z_number
+  from (
+    select id, nextval('public.shift_z_number_seq') as z_number
+      from (
+        select id from public.shifts
+         where status in ('closed', 'voided') and z_number is null
+         order by end_time nulls last, start_time
+      ) ordered
+  ) numbered
+ where sh.id = numbered.id;
+
+create or replace function public.assign_z_number()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if new.z_number is null then
+    new.z_number := nextval('public.shift_z_number_seq');
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists assign_z_number on public.shifts;
+create trigger assign_z_number
+  before update of status on public.shifts
+  for each row
+  when (new.status = 'closed' and old.status = 'open')
+  execute function public.assign_z_number();
+
+-- Everything an X or Z report prints, in one round trip. For an open shift
+-- the cash figures are a live snapshot; for a closed one they are the values
+-- recorded at close.
+create or replace function public.shift_report(shift_id uuid)
+returns jsonb
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  target shifts;
+  report jsonb;
+begin
+  select * into target from shifts where id = shift_report.shift_id;
+  if not found then
+    raise exception 'Shift % not found', shift_report.shift_id;
+  end if;
+
+  select jsonb_build_object(
+           'sales_count', count(*) filter (where sale_type = 'sale' and status <> 'voided'),
+           'gross', coalesce(sum(gross_amount) filter (where sale_type = 'sale' and status <> 'voided'), 0),
+           'discounts', coalesce(sum(discount_amount) filter (where sale_type = 'sale' and status <> 'voided'), 0),
+           'returns_count', count(*) filter (where sale_type = 'return' and status <> 'voided'),
+           'returns_total', coalesce(-sum(total_amount) filter (where sale_type = 'return' and status <> 'voided'), 0),
+           'net', coalesce(sum(total_amount) filter (where status <> 'voided'), 0),
+           'tax', coalesce(sum(tax_amount) filter (where status <> 'voided'), 0),
+           'voided_count', count(*) filter (where status = 'voided'),
+           'voided_total', coalesce(sum(total_amount) filter (where status = 'voided'), 0)
+         )
+    into report
+    from sales
+   where sales.shift_id = target.id;
+
+  return report || jsonb_build_object(
+    'shift_id', target.id,
+    'z_number', target.z_number,
+    'status', target.status,
+    'cashier_name', (select full_name from profiles where id = target.cashier_id),
+    'start_time', target.start_time,
+    'end_time', target.end_time,
+    'tenders', coalesce((
+      select jsonb_agg(jsonb_build_object('method', method, 'amount', amount) order by method)
+        from shift_payment_totals t
+       where t.shift_id = target.id
+    ), '[]'::jsonb),
+    'movements', coalesce((
+      select jsonb_agg(jsonb_build_object('movement_type', movement_type, 'amount', amount) order by movement_type)
+        from (
+          select movement_type, sum(amount) as amount
+            from cash_movements m
+           where m.shift_id = target.id
+           group by movement_type
+        ) totals
+    ), '[]'::jsonb),
+    'starting_cash', target.starting_cash,
+    'expected_cash', coalesce(target.expected_cash, public.expected_cash(target.id)),
+    'counted_cash', target.ending_cash,
+    'cash_variance', target.cash_variance
+  );
+end;
+$$;
@@ -0,0 +1,203 @@
+-- Registers (tills) are what a shift's drawer belongs to. A register can have
+-- one open shift at a time and a cashier can only work one shift at a time.
+create table if not exists public.registers (
+  id uuid primary key default gen_random_uuid(),
+  name text not null unique check (length(trim(name)) > 0),
+  active boolean not null default true,
+  created_at timestamptz not null default now()
+);
+
+alter table public.registers enable row level security;
+
+create policy "Authenticated users can read registers"
+  on public.registers for select
+  to authenticated
+  using (true);
+
+create policy "Store owners can manage registers"
+  on public.registers for all
+  to authenticated
+  using (public.has_role(auth.uid(), 'store_owner'))
+  with check (public.has_role(auth.uid(), 'store_owner'));
+
+insert into public.registers (name)
+select 'Register 1'
+ where not exists (select 1 from public.registers);
+
+alter table public.shifts
+  add column if not exists register_id uuid references public.registers (id);
+
+update public.shifts
+   set register_id = (select id from public.registers order by created_at limit 1)
+ where register_id is null;
+
+alter table public.shifts alter column register_id set not null;
+
+-- Shifts left open side by side before this constraint existed: keep each
+-- cashier's latest and close the rest so the unique indexes can be built.
+update public.shifts sh
+   set status = 'closed',
+       end_time = now(),
+       notes = concat_ws(E'\n', sh.notes, 'Closed automatically: another shift was open at the same time.')
+ where sh.status = 'open'
+   and exists (
+     select 1 from public.shifts newer
+      where newer.status = 'open'
+        and newer.id <> sh.id
+        and (newer.cashier_id = sh.cashier_id or newer.register_id = sh.register_id)
+        and newer.start_time > sh.start_time
+   );
+
+create unique index if not exists shifts_one_open_per_register
+  on public.shifts (register_id) where status = 'open';
+
+create unique index if not exists shifts_one_open_per_cashier
+  on public.shifts (cashier_id) where status = 'open';
+
+create or replace function public.open_shift(
+  register_id uuid,
+  starting_cash numeric
+)
+returns shifts
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  new_shift shifts;
+begin
+  if auth.uid() is null then
+    raise exception 'You must be logged in to start a shift';
+  end if;
+  if starting_cash is null or starting_cash < 0 then
+    raise exception 'Invalid starting cash amount';
+  end if;
+  if not exists (select 1 from registers where id = open_shift.register_id and active) then
+    raise exception 'Register not found or inactive';
+  end if;
+
+  if exists (select 1 from shifts where cashier_id = auth.uid() and status = 'open') then
+    raise exception 'You already have an open shift. End it before starting another.';
+  end if;
+  if exists (select 1 from shifts where shifts.register_id = open_shift.register_id and status = 'open') then
+    raise exception 'This register already has an open shift. Ask the store owner to close it.';
+  end if;
+
+  insert into shifts (cashier_id, register_id, start_time, starting_cash, status)
+  values (auth.uid(), open_shift.register_id, now(), open_shift.starting_cash, 'open')
+  returning * into new_shift;
+
+  return new_shift;
+end;
+$$;
+
+-- For shifts the cashier walked away from. The drawer was not counted, so no
+-- ending cash or variance is recorded; the reason goes into the notes.
+create or replace function public.force_close_shift(
+  shift_id uuid,
+  reason text
+)
+returns shifts
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  target shifts;
+begin
+  if not public.has_role(auth.uid(), 'store_owner') then
+    raise exception 'Only the store owner can force close a shift';
+  end if;
+  if coalesce(trim(reason), '') = '' then
+    raise exception 'A reason is required to force close a shift';
+  end if;
+
+  select * into target from shifts where id = force_close_shift.shift_id for update;
+  if not found then
+    raise exception 'Shift % not found', force_close_shift.shift_id;
+  end if;
+  if target.status <> 'open' then
+    raise exception 'Shift is already %', target.status;
+  end if;
+
+  update shifts
+     set end_time = now(),
+         expected_cash = public.expected_cash(target.id),
+         total_sales = (
+           select coalesce(sum(total_amount), 0)
+             from sales
+            where sales.shift_id = target.id
+              and status <> 'voided'
+         ),
+         notes = concat_ws(E'\n', target.notes, 'Force closed: ' || trim(reason)),
+         status = 'closed'
+   where id = target.id
+  returning * into target;
+
+  return target;
+end;
+$$;
+
+-- Cashiers close their own shift only.
+create or replace function public.close_shift(
+  shift_id uuid,
+  ending_cash numeric,
+  notes text default null,
+  cash_count jsonb default null
+)
+returns shifts
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  target shifts;
+  expected numeric;
+  variance numeric;
+  threshold numeric;
+begin
+  select * into target from shifts where id = close_shift.shift_id for update;
+  if not found then
+    raise exception 'Shift % not found', close_shift.shift_id;
+  end if;
+  -- Other people's abandoned shifts go through force_close_shift instead.
+  if target.cashier_id <> auth.uid() then
+    raise exception 'You can only close your own shift';
+  end if;
+  if target.status <> 'open' then
+    raise exception 'Shift is already %', target.status;
+  end if;
+  if ending_cash is null or ending_cash < 0 then
+    raise exception 'Invalid ending cash amount';
+  end if;
+
+  expected := public.expected_cash(target.id);
+  variance := ending_cash - expected;
+  select cash_variance_threshold into threshold from store_settings where id;
+
+  if abs(variance) > coalesce(threshold, 0) and coalesce(trim(notes), '') = '' then
+    raise exception 'Drawer is % by Rp%. Add a note explaining the difference.',
+      case when variance > 0 then 'over' else 'short' end, abs(variance)
+      using hint = 'variance_note_required';
+  end if;
+
+  update shifts
+     set end_time = now(),
+         ending_cash = close_shift.ending_cash,
+         expected_cash = expected,
+         cash_variance = variance,
+         cash_count = close_shift.cash_count,
+         total_sales = (
+           select coalesce(sum(total_amount), 0)
+             from sales
+            where sales.shift_id = target.id
+              and status <> 'voided'
+         ),
+         notes = nullif(trim(close_shift.notes), ''),
+         status = 'closed'
+   where id = target.id
+  returning * into target;
+
+  return target;
+end;
+$$;
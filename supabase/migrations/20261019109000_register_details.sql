@@ -0,0 +1,100 @@
+-- Per-till details for receipts, and the register every sale was rung up on.
+alter table public.registers
+  add column if not exists location text,
+  add column if not exists receipt_header text,
+  add column if not exists printer_width smallint not null default 80
+    check (printer_width in (58, 80));
+
+alter table public.sales
+  add column if not exists register_id uuid references public.registers (id);
+
+create index if not exists sales_register_id_idx on public.sales (register_id);
+
+update public.sales s
+   set register_id = sh.register_id
+  from public.shifts sh
+ where s.shift_id = sh.id
+   and s.register_id is null;
+
+-- Sales take the register of the shift they belong to, so complete_sale and
+-- process_return don't need to be told which till they run on.
+create or replace function public.set_sale_register()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if new.register_id is null and new.shift_id is not null then
+    select register_id into new.register_id from shifts where id = new.shift_id;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists set_sale_register on public.sales;
+create trigger set_sale_register
+  before insert on public.sales
+  for each row
+  execute function public.set_sale_register();
+
+-- Shift reports name the till they were run on.
+create or replace function public.shift_report(shift_id uuid)
+returns jsonb
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  target shifts;
+  report jsonb;
+begin
+  select * into target from shifts where id = shift_report.shift_id;
+  if not found then
+    raise exception 'Shift % not found', shift_report.shift_id;
+  end if;
+
+  select jsonb_build_object(
+           'sales_count', count(*) filter (where sale_type = 'sale' and status <> 'voided'),
+           'gross', coalesce(sum(gross_amount) filter (where sale_type = 'sale' and status <> 'voided'), 0),
+           'discounts', coalesce(sum(discount_amount) filter (where sale_type = 'sale' and status <> 'voided'), 0),
+           'returns_count', count(*) filter (where sale_type = 'return' and status <> 'voided'),
+           'returns_total', coalesce(-sum(total_amount) filter (where sale_type = 'return' and status <> 'voided'), 0),
+           'net', coalesce(sum(total_amount) filter (where status <> 'voided'), 0),
+           'tax', coalesce(sum(tax_amount) filter (where status <> 'voided'), 0),
+           'voided_count', count(*) filter (where status = 'voided'),
+           'voided_total', coalesce(sum(total_amount) filter (where status = 'voided'), 0)
+         )
+    into report
+    from sales
+   where sales.shift_id = target.id;
+
+  return report || jsonb_build_object(
+    'shift_id', target.id,
+    'z_number', target.z_number,
+    'status', target.status,
+    'cashier_name', (select full_name from profiles where id = target.cashier_id),
+    'register_name', (select name from registers where id = target.register_id),
+    'start_time', target.start_time,
+    'end_time', target.end_time,
+    'tenders', coalesce((
+      select jsonb_agg(jsonb_build_object('method', method, 'amount', amount) order by method)
+        from shift_payment_totals t
+       where t.shift_id = target.id
+    ), '[]'::jsonb),
+    'movements', coalesce((
+      select jsonb_agg(jsonb_build_object('movement_type', movement_type, 'amount', amount) order by movement_type)
+        from (
+          select movement_type, sum(amount) as amount
+            from cash_movements m
+           where m.shift_id = target.id
+           group by movement_type
+        ) totals
+    ), '[]'::jsonb),
+    'starting_cash', target.starting_cash,
+    'expected_cash', coalesce(target.expected_cash, public.expected_cash(target.id)),
+    'counted_cash', target.ending_cash,
+    'cash_variance', target.cash_variance
+  );
+end;
+$$;
@@ -0,0 +1,133 @@
+-- Enforce the same role matrix as the app's route guards (src/lib/roles.ts)
+-- in the database. The policies below are restrictive, so they narrow the
+-- existing permissive ones instead of replacing them: a row is visible only
+-- when both allow it.
+create or replace function public.has_any_role(
+  user_id uuid,
+  roles app_role[]
+)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1
+      from user_roles ur
+     where ur.user_id = has_any_role.user_id
+       and ur.role = any (has_any_role.roles)
+  );
+$$;
+
+-- Selling: POS, sales history and shifts.
+create policy "Only sales staff can access sales"
+  on public.sales as restrictive for all
+  to authenticated
+  using (public.has_any_role(auth.uid(), '{store_owner,shopkeeper}'))
+  with check (public.has_any_role(auth.uid(), '{store_owner,shopkeeper}'));
+
+create policy "Only sales staff can access sale items"
+  on public.sale_items as restrictive for all
+  to authenticated
+  using (public.has_any_role(auth.uid(), '{store_owner,shopkeeper}'))
+  with check (public.has_any_role(auth.uid(), '{store_owner,shopkeeper}'));
+
+create policy "Only sales staff can access sale payments"
+  on public.sale_payments as restrictive for all
+  to authenticated
+  using (public.has_any_role(auth.uid(), '{store_owner,shopkeeper}'))
+  with check (public.has_any_role(auth.uid(), '{store_owner,shopkeeper}'));
+
+create policy "Only sales staff can access shifts"
+  on public.shifts as restrictive for all
+  to authenticated
+  using (public.has_any_role(auth.uid(), '{store_owner,shopkeeper}'))
+  with check (public.has_any_role(auth.uid(), '{store_owner,shopkeeper}'));
+
+create policy "Only sales staff can access cash movements"
+  on public.cash_movements as restrictive for all
+  to authenticated
+  using (public.has_any_role(auth.uid(), '{store_owner,shopkeeper}'))
+  with check (public.has_any_role(auth.uid(), '{store_owner,shopkeeper}'));
+
+create policy "Only sales staff can access parked carts"
+  on public.parked_carts as restrictive for all
+  to authenticated
+  using (public.has_any_role(auth.uid(), '{store_owner,shopkeeper}'))
+  with check (public.has_any_role(auth.uid(), '{store_owner,shopkeeper}'));
+
+drop policy if exists "Authenticated users can read cash receipts" on storage.objects;
+drop policy if exists "Authenticated users can upload cash receipts" on storage.objects;
+
+create policy "Sales staff can read cash receipts"
+  on storage.objects for select
+  to authenticated
+  using (
+    bucket_id = 'cash-receipts'
+    and public.has_any_role(auth.uid(), '{store_owner,shopkeeper}')
+  );
+
+create policy "Sales staff can upload cash receipts"
+  on storage.objects for insert
+  to authenticated
+  with check (
+    bucket_id = 'cash-receipts'
+    and public.has_any_role(auth.uid(), '{store_owner,shopkeeper}')
+  );
+
+-- Inventory is open to every staff role, but not to accounts that signed up
+-- and were never given one.
+create policy "Only staff can access products"
+  on public.products as restrictive for all
+  to authenticated
+  using (public.has_any_role(auth.uid(), '{store_owner,warehouse_admin,shopkeeper}'))
+  with check (public.has_any_role(auth.uid(), '{store_owner,warehouse_admin,shopkeeper}'));
+
+create policy "Only staff can access product barcodes"
+  on public.product_barcodes as restrictive for all
+  to authenticated
+  using (public.has_any_role(auth.uid(), '{store_owner,warehouse_admin,shopkeeper}'))
+  with check (public.has_any_role(auth.uid(), '{store_owner,warehouse_admin,shopkeeper}'));
+
+-- Checkout and returns run as security definer and skip RLS, but both need
+-- an open shift, so only sales staff may open one.
+create or replace function public.open_shift(
+  register_id uuid,
+  starting_cash numeric
+)
+returns shifts
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  new_shift shifts;
+begin
+  if auth.uid() is null then
+    raise exception 'You must be logged in to start a shift';
+  end if;
+  if not public.has_any_role(auth.uid(), '{store_owner,shopkeeper}') then
+    raise exception 'Only store owners and shopkeepers can start a shift';
+  end if;
+  if starting_cash is null or starting_cash < 0 then
+    raise exception 'Invalid starting cash amount';
+  end if;
+  if not exists (select 1 from registers where id = open_shift.register_id and active) then
+    raise exception 'Register not found or inactive';
+  end if;
+
+  if exists (select 1 from shifts where cashier_id = auth.uid() and status = 'open') then
+    raise exception 'You already have an open shift. End it before starting another.';
+  end if;
+  if exists (select 1 from shifts where shifts.register_id = open_shift.register_id and status = 'open') then
+    raise exception 'This register already has an open shift. Ask the store owner to close it.';
+  end if;
+
+  insert into shifts (cashier_id, register_id, start_time, starting_cash, status)
+  values (auth.uid(), open_shift.register_id, now(), open_shift.starting_cash, 'open')
+  returning * into new_shift;
+
+  return new_shift;
+end;
+$$;
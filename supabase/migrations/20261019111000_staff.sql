@@ -0,0 +1,224 @@
+-- Staff management for store owners: roles are granted and revoked here,
+-- accounts are deactivated rather than deleted, and every change lands in
+-- staff_audit_log.
+alter table public.profiles
+  add column if not exists active boolean not null default true,
+  add column if not exists deactivated_at timestamptz,
+  add column if not exists deactivated_by uuid references auth.users (id);
+
+create table if not exists public.staff_audit_log (
+  id uuid primary key default gen_random_uuid(),
+  actor_id uuid references auth.users (id),
+  target_user_id uuid not null references auth.users (id),
+  action text not null check (
+    action in ('invite', 'grant_role', 'revoke_role', 'deactivate', 'reactivate')
+  ),
+  role app_role,
+  details jsonb not null default '{}'::jsonb,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists staff_audit_log_target_user_id_idx on public.staff_audit_log (target_user_id);
+
+alter table public.staff_audit_log enable row level security;
+
+-- Entries are only written by the functions below and the invite-staff edge
+-- function, never directly by clients.
+create policy "Store owners can read the staff audit log"
+  on public.staff_audit_log for select
+  to authenticated
+  using (public.has_role(auth.uid(), 'store_owner'));
+
+-- A deactivated account keeps its roles (so reactivating restores them) but
+-- no longer passes any role check.
+create or replace function public.has_role(
+  user_id uuid,
+  required_role app_role
+)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1
+      from user_roles ur
+      left join profiles p on p.id = ur.user_id
+     where ur.user_id = has_role.user_id
+       and ur.role = has_role.required_role
+       and coalesce(p.active, true)
+  );
+$$;
+
+create or replace function public.has_any_role(
+  user_id uuid,
+  roles app_role[]
+)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1
+      from user_roles ur
+      left join profiles p on p.id = ur.user_id
+     where ur.user_id = has_any_role.user_id
+       and ur.role = any (has_any_role.roles)
+       and coalesce(p.active, true)
+  );
+$$;
+
+create or replace function public.list_staff()
+returns table (
+  user_id uuid,
+  email text,
+  full_name text,
+  roles app_role[],
+  active boolean,
+  last_sign_in_at timestamptz,
+  invited_at timestamptz,
+  created_at timestamptz
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  if not public.has_role(auth.uid(), 'store_owner') then
+    raise exception 'Only store owners can manage staff';
+  end if;
+
+  return query
+  select u.id,
+         u.email::text,
+         p.full_name,
+         coalesce(
+           (select array_agg(ur.role order by ur.role) from user_roles ur where ur.user_id = u.id),
+           '{}'::app_role[]
+         ),
+         coalesce(p.active, true),
+         u.last_sign_in_at,
+         u.invited_at,
+         u.created_at
+    from auth.users u
+    left join profiles p on p.id = u.id
+   order by coalesce(p.full_name, u.email::text);
+end;
+$$;
+
+create or replace function public.grant_role(
+  user_id uuid,
+  role app_role
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not public.has_role(auth.uid(), 'store_owner') then
+    raise exception 'Only store owners can manage staff';
+  end if;
+  if not exists (select 1 from auth.users where id = grant_role.user_id) then
+    raise exception 'User not found';
+  end if;
+  if exists (
+    select 1 from user_roles ur
+     where ur.user_id = grant_role.user_id and ur.role = grant_role.role
+  ) then
+    return;
+  end if;
+
+  insert into user_roles (user_id, role)
+  values (grant_role.user_id, grant_role.role);
+
+  insert into staff_audit_log (actor_id, target_user_id, action, role)
+  values (auth.uid(), grant_role.user_id, 'grant_role', grant_role.role);
+end;
+$$;
+
+create or replace function public.revoke_role(
+  user_id uuid,
+  role app_role
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not public.has_role(auth.uid(), 'store_owner') then
+    raise exception 'Only store owners can manage staff';
+  end if;
+  if revoke_role.role = 'store_owner' and revoke_role.user_id = auth.uid() then
+    raise exception 'You cannot remove your own store owner role';
+  end if;
+
+  delete from user_roles ur
+   where ur.user_id = revoke_role.user_id
+     and ur.role = revoke_role.role;
+
+  if found then
+    insert into staff_audit_log (actor_id, target_user_id, action, role)
+    values (auth.uid(), revoke_role.user_id, 'revoke_role', revoke_role.role);
+  end if;
+end;
+$$;
+
+-- Deactivating also bans the auth user so existing sessions cannot be
+-- refreshed and the password no longer signs in.
+create or replace function public.set_staff_active(
+  user_id uuid,
+  active boolean,
+  reason text default null
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  was_active boolean;
+begin
+  if not public.has_role(auth.uid(), 'store_owner') then
+    raise exception 'Only store owners can manage staff';
+  end if;
+  if set_staff_active.user_id = auth.uid() then
+    raise exception 'You cannot deactivate your own account';
+  end if;
+
+  select p.active into was_active
+    from profiles p
+   where p.id = set_staff_active.user_id
+   for update;
+
+  if not found then
+    raise exception 'User not found';
+  end if;
+  if was_active = set_staff_active.active then
+    return;
+  end if;
+
+  update profiles
+     set active = set_staff_active.active,
+         deactivated_at = case when set_staff_active.active then null else now() end,
+         deactivated_by = case when set_staff_active.active then null else auth.uid() end
+   where id = set_staff_active.user_id;
+
+  update auth.users
+     set banned_until = case when set_staff_active.active then null else 'infinity'::timestamptz end
+   where id = set_staff_active.user_id;
+
+  insert into staff_audit_log (actor_id, target_user_id, action, details)
+  values (
+    auth.uid(),
+    set_staff_active.user_id,
+    case when set_staff_active.active then 'reactivate' else 'deactivate' end,
+    jsonb_build_object('reason', nullif(trim(coalesce(set_staff_active.reason, '')), ''))
+  );
+end;
+$$;
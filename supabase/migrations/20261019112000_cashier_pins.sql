@@ -0,0 +1,213 @@
+-- PIN login for shared tills. The till stays signed in as the cashier whose
+-- shift (and drawer) it is; other cashiers unlock it with their PIN and the
+-- sales they ring up are attributed to them.
+create extension if not exists pgcrypto with schema extensions;
+
+-- Kept out of profiles so the hashes are never readable by clients: there are
+-- no policies, only the security definer functions below touch this table.
+create table if not exists public.cashier_pins (
+  user_id uuid primary key references auth.users (id) on delete cascade,
+  pin_hash text not null,
+  failed_attempts integer not null default 0,
+  locked_until timestamptz,
+  updated_at timestamptz not null default now()
+);
+
+alter table public.cashier_pins enable row level security;
+
+-- Who is unlocked on each open shift's till. A null cashier means the till is
+-- locked and cannot take sales until someone enters their PIN.
+create table if not exists public.pos_unlocks (
+  shift_id uuid primary key references public.shifts (id) on delete cascade,
+  cashier_id uuid references auth.users (id),
+  cashier_name text,
+  updated_at timestamptz not null default now()
+);
+
+alter table public.pos_unlocks enable row level security;
+
+create policy "Sales staff can read till unlocks"
+  on public.pos_unlocks for select
+  to authenticated
+  using (public.has_any_role(auth.uid(), '{store_owner,shopkeeper}'));
+
+alter table public.store_settings
+  add column if not exists pos_auto_lock_minutes integer not null default 5
+    check (pos_auto_lock_minutes >= 0);
+
+create or replace function public.set_pin(pin text)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if auth.uid() is null then
+    raise exception 'You must be logged in to set a PIN';
+  end if;
+  if pin is null or pin !~ '^[0-9]{4,6}$' then
+    raise exception 'The PIN must be 4 to 6 digits';
+  end if;
+
+  insert into cashier_pins (user_id, pin_hash)
+  values (auth.uid(), extensions.crypt(pin, extensions.gen_salt('bf')))
+  on conflict (user_id) do update
+    set pin_hash = excluded.pin_hash,
+        failed_attempts = 0,
+        locked_until = null,
+        updated_at = now();
+end;
+$$;
+
+create or replace function public.has_pin()
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (select 1 from cashier_pins where user_id = auth.uid());
+$$;
+
+-- Cashiers who can unlock a till: sales staff with a PIN.
+create or replace function public.pos_cashiers()
+returns table (user_id uuid, full_name text)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  if not public.has_any_role(auth.uid(), '{store_owner,shopkeeper}') then
+    raise exception 'Only store owners and shopkeepers can use the POS';
+  end if;
+
+  return query
+  select cp.user_id, coalesce(p.full_name, u.email::text)
+    from cashier_pins cp
+    join auth.users u on u.id = cp.user_id
+    left join profiles p on p.id = cp.user_id
+   where public.has_any_role(cp.user_id, '{store_owner,shopkeeper}')
+   order by 2;
+end;
+$$;
+
+-- Five wrong PINs lock that cashier's PIN for five minutes.
+create or replace function public.unlock_pos(
+  cashier_id uuid,
+  pin text
+)
+returns pos_unlocks
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  till_shift_id uuid;
+  pin_record cashier_pins;
+  unlock pos_unlocks;
+begin
+  till_shift_id := public.current_shift_id(auth.uid());
+  if till_shift_id is null then
+    raise exception 'Start a shift before making sales'
+      using hint = 'shift_required';
+  end if;
+  if not public.has_any_role(unlock_pos.cashier_id, '{store_owner,shopkeeper}') then
+    raise exception 'This cashier cannot use the POS';
+  end if;
+
+  select * into pin_record
+    from cashier_pins
+   where user_id = unlock_pos.cashier_id
+   for update;
+
+  if not found then
+    raise exception 'This cashier has not set a PIN';
+  end if;
+  if pin_record.locked_until > now() then
+    raise exception 'Too many wrong PINs. Try again after %', to_char(pin_record.locked_until, 'HH24:MI');
+  end if;
+
+  if pin is null or extensions.crypt(pin, pin_record.pin_hash) <> pin_record.pin_hash then
+    update cashier_pins
+       set failed_attempts = failed_attempts + 1,
+           locked_until = case when failed_attempts + 1 >= 5 then now() + interval '5 minutes' end
+     where user_id = unlock_pos.cashier_id;
+    -- Returning instead of raising keeps the attempt counter update.
+    return null;
+  end if;
+
+  update cashier_pins
+     set failed_attempts = 0,
+         locked_until = null
+   where user_id = unlock_pos.cashier_id;
+
+  insert into pos_unlocks (shift_id, cashier_id, cashier_name, updated_at)
+  select till_shift_id, unlock_pos.cashier_id, coalesce(p.full_name, u.email::text), now()
+    from auth.users u
+    left join profiles p on p.id = u.id
+   where u.id = unlock_pos.cashier_id
+  on conflict (shift_id) do update
+    set cashier_id = excluded.cashier_id,
+        cashier_name = excluded.cashier_name,
+        updated_at = excluded.updated_at
+  returning * into unlock;
+
+  return unlock;
+end;
+$$;
+
+create or replace function public.lock_pos()
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  till_shift_id uuid;
+begin
+  till_shift_id := public.current_shift_id(auth.uid());
+  if till_shift_id is null then
+    return;
+  end if;
+
+  insert into pos_unlocks (shift_id, cashier_id, cashier_name, updated_at)
+  values (till_shift_id, null, null, now())
+  on conflict (shift_id) do update
+    set cashier_id = null,
+        cashier_name = null,
+        updated_at = now();
+end;
+$$;
+
+-- Sales go to whoever is unlocked on the till, so complete_sale and
+-- process_return don't need to be told who is at the counter.
+create or replace function public.set_sale_cashier()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+declare
+  unlock pos_unlocks;
+begin
+  if new.shift_id is null then
+    return new;
+  end if;
+
+  select * into unlock from pos_unlocks where shift_id = new.shift_id;
+  if found then
+    if unlock.cashier_id is null then
+      raise exception 'The till is locked. Enter a PIN to continue.'
+        using hint = 'pos_locked';
+    end if;
+    new.cashier_id := unlock.cashier_id;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists set_sale_cashier on public.sales;
+create trigger set_sale_cashier
+  before insert on public.sales
+  for each row
+  execute function public.set_sale_cashier();
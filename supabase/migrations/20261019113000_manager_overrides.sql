@@ -0,0 +1,624 @@
+-- Store owner approvals for one-off actions at the till. The owner picks
+-- their name and enters their PIN on the cashier's screen; the approval is
+-- recorded with who asked, who approved and what it was used for.
+create table if not exists public.manager_overrides (
+  id uuid primary key default gen_random_uuid(),
+  action text not null check (
+    action in ('price_override', 'discount', 'void_sale', 'void_shift', 'no_sale')
+  ),
+  -- What the approval covers: `target` is the product id, 'basket', or the
+  -- sale or shift id being voided; price overrides also carry the new price.
+  details jsonb not null default '{}'::jsonb,
+  reason text,
+  requested_by uuid not null references auth.users (id),
+  approved_by uuid not null references auth.users (id),
+  shift_id uuid references public.shifts (id),
+  sale_id uuid references public.sales (id),
+  used_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists manager_overrides_sale_id_idx on public.manager_overrides (sale_id);
+create index if not exists manager_overrides_shift_id_idx on public.manager_overrides (shift_id);
+
+alter table public.manager_overrides enable row level security;
+
+create policy "Store owners and requesters can read overrides"
+  on public.manager_overrides for select
+  to authenticated
+  using (
+    requested_by = auth.uid()
+    or public.has_role(auth.uid(), 'store_owner')
+  );
+
+-- Checks a PIN, counting wrong attempts: five in a row lock the PIN for five
+-- minutes. Returns false rather than raising so the count is kept.
+create or replace function public.verify_pin(
+  user_id uuid,
+  pin text
+)
+returns boolean
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  pin_record cashier_pins;
+begin
+  select * into pin_record
+    from cashier_pins
+   where cashier_pins.user_id = verify_pin.user_id
+   for update;
+
+  if not found then
+    raise exception 'This user has not set a PIN';
+  end if;
+  if pin_record.locked_until > now() then
+    raise exception 'Too many wrong PINs. Try again after %', to_char(pin_record.locked_until, 'HH24:MI');
+  end if;
+
+  if pin is null or extensions.crypt(pin, pin_record.pin_hash) <> pin_record.pin_hash then
+    update cashier_pins
+       set failed_attempts = failed_attempts + 1,
+           locked_until = case when failed_attempts + 1 >= 5 then now() + interval '5 minutes' end
+     where cashier_pins.user_id = verify_pin.user_id;
+    return false;
+  end if;
+
+  update cashier_pins
+     set failed_attempts = 0,
+         locked_until = null
+   where cashier_pins.user_id = verify_pin.user_id;
+
+  return true;
+end;
+$$;
+
+revoke all on function public.verify_pin(uuid, text) from public, anon, authenticated;
+
+-- Same as before, with the PIN check moved into verify_pin.
+create or replace function public.unlock_pos(
+  cashier_id uuid,
+  pin text
+)
+returns pos_unlocks
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  till_shift_id uuid;
+  unlock pos_unlocks;
+begin
+  till_shift_id := public.current_shift_id(auth.uid());
+  if till_shift_id is null then
+    raise exception 'Start a shift before making sales'
+      using hint = 'shift_required';
+  end if;
+  if not public.has_any_role(unlock_pos.cashier_id, '{store_owner,shopkeeper}') then
+    raise exception 'This cashier cannot use the POS';
+  end if;
+
+  if not public.verify_pin(unlock_pos.cashier_id, pin) then
+    -- Returning instead of raising keeps the attempt counter update.
+    return null;
+  end if;
+
+  insert into pos_unlocks (shift_id, cashier_id, cashier_name, updated_at)
+  select till_shift_id, unlock_pos.cashier_id, coalesce(p.full_name, u.email::text), now()
+    from auth.users u
+    left join profiles p on p.id = u.id
+   where u.id = unlock_pos.cashier_id
+  on conflict (shift_id) do update
+    set cashier_id = excluded.cashier_id,
+        cashier_name = excluded.cashier_name,
+        updated_at = excluded.updated_at
+  returning * into unlock;
+
+  return unlock;
+end;
+$$;
+
+-- Store owners who can approve at the till: those with a PIN.
+create or replace function public.override_approvers()
+returns table (user_id uuid, full_name text)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  if not public.has_any_role(auth.uid(), '{store_owner,shopkeeper}') then
+    raise exception 'Only store owners and shopkeepers can request an override';
+  end if;
+
+  return query
+  select cp.user_id, coalesce(p.full_name, u.email::text)
+    from cashier_pins cp
+    join auth.users u on u.id = cp.user_id
+    left join profiles p on p.id = cp.user_id
+   where public.has_role(cp.user_id, 'store_owner')
+   order by 2;
+end;
+$$;
+
+-- Returns the approval, or null when the PIN is wrong. A no-sale has nothing
+-- left to do on the server, so it is used as soon as it is approved.
+create or replace function public.approve_override(
+  approver_id uuid,
+  pin text,
+  action text,
+  details jsonb default '{}'::jsonb,
+  reason text default null
+)
+returns manager_overrides
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  approval manager_overrides;
+begin
+  if not public.has_any_role(auth.uid(), '{store_owner,shopkeeper}') then
+    raise exception 'Only store owners and shopkeepers can request an override';
+  end if;
+  if not public.has_role(approve_override.approver_id, 'store_owner') then
+    raise exception 'Only a store owner can approve this';
+  end if;
+  if approve_override.action = 'no_sale' and coalesce(trim(approve_override.reason), '') = '' then
+    raise exception 'A reason is required to open the drawer';
+  end if;
+
+  if not public.verify_pin(approve_override.approver_id, pin) then
+    return null;
+  end if;
+
+  insert into manager_overrides (
+    action, details, reason, requested_by, approved_by, shift_id, used_at
+  )
+  values (
+    approve_override.action,
+    coalesce(approve_override.details, '{}'::jsonb),
+    nullif(trim(coalesce(approve_override.reason, '')), ''),
+    auth.uid(),
+    approve_override.approver_id,
+    public.current_shift_id(auth.uid()),
+    case when approve_override.action = 'no_sale' then now() end
+  )
+  returning * into approval;
+
+  return approval;
+end;
+$$;
+
+-- An approval is good once, for the cashier who asked, for fifteen minutes.
+create or replace function public.valid_override(
+  override_id uuid,
+  action text,
+  target text
+)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1
+      from manager_overrides mo
+     where mo.id = valid_override.override_id
+       and mo.action = valid_override.action
+       and mo.details->>'target' = valid_override.target
+       and mo.requested_by = auth.uid()
+       and mo.used_at is null
+       and mo.created_at > now() - interval '15 minutes'
+  );
+$$;
+
+-- Same as before, except that lines and the basket discount may carry an
+-- approval: `price_override_id` for a changed unit price and
+-- `discount_override_id` (or the basket's `override_id`) for a discount over
+-- the cashier's limit.
+create or replace function public.complete_sale(
+  items jsonb,
+  payments jsonb,
+  discount jsonb default null
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  new_sale_id uuid;
+  line jsonb;
+  line_index bigint;
+  line_count integer;
+  line_quantity integer;
+  line_price numeric;
+  line_gross numeric;
+  line_promotion numeric;
+  line_discount numeric;
+  line_net numeric;
+  line_basket_share numeric;
+  line_taxable numeric;
+  line_tax_rate numeric;
+  line_tax numeric;
+  basket_left numeric;
+  gross_total numeric := 0;
+  net_before_basket numeric := 0;
+  basket_discount numeric := 0;
+  tax_total numeric := 0;
+  sale_total numeric := 0;
+  max_discount numeric;
+  product_record record;
+  shortages text[] := '{}';
+  settings store_settings;
+  payment jsonb;
+  payment_amount numeric;
+  payment_tendered numeric;
+  paid_total numeric := 0;
+  sale_payment_method text;
+  open_shift_id uuid;
+  line_override_id uuid;
+  used_overrides uuid[] := '{}';
+begin
+  if auth.uid() is null then
+    raise exception 'You must be logged in to complete a sale';
+  end if;
+
+  if items is null or jsonb_array_length(items) = 0 then
+    raise exception 'Cannot complete a sale without items';
+  end if;
+
+  if payments is null or jsonb_array_length(payments) = 0 then
+    raise exception 'Cannot complete a sale without a payment';
+  end if;
+
+  open_shift_id := public.current_shift_id(auth.uid());
+  if open_shift_id is null then
+    raise exception 'Start a shift before making sales'
+      using hint = 'shift_required';
+  end if;
+
+  select * into settings from store_settings where id;
+  max_discount := public.discount_limit(auth.uid());
+  line_count := jsonb_array_length(items);
+
+  for line in select * from jsonb_array_elements(items) loop
+    line_quantity := (line->>'quantity')::integer;
+    line_price := (line->>'unit_price')::numeric;
+    if line_quantity is null or line_quantity <= 0 then
+      raise exception 'Invalid quantity for product %', line->>'product_id';
+    end if;
+    if line_price is null or line_price < 0 then
+      raise exception 'Invalid price for product %', line->>'product_id';
+    end if;
+
+    select id, name, stock_quantity into product_record
+      from products
+     where id = (line->>'product_id')::uuid
+       for update;
+
+    if not found then
+      raise exception 'Product % not found', line->>'product_id';
+    end if;
+
+    if not coalesce(settings.allow_backorders, false)
+       and product_record.stock_quantity < line_quantity then
+      shortages := shortages || format(
+        '%s: requested %s, available %s',
+        product_record.name, line_quantity, greatest(product_record.stock_quantity, 0)
+      );
+    end if;
+
+    line_override_id := (line->>'price_override_id')::uuid;
+    if line_override_id is not null then
+      if not public.valid_override(line_override_id, 'price_override', product_record.id::text)
+         or not exists (
+           select 1 from manager_overrides
+            where id = line_override_id
+              and (details->>'price')::numeric = line_price
+         ) then
+        raise exception 'The price override on % is not approved', product_record.name;
+      end if;
+      used_overrides := used_overrides || line_override_id;
+    end if;
+
+    line_gross := line_quantity * line_price;
+    line_promotion := coalesce(public.promotion_discount(
+      (line->>'promotion_id')::uuid, product_record.id, line_quantity, line_price
+    ), 0);
+    line_discount := public.discount_amount(
+      line_gross - line_promotion, line->>'discount_type', (line->>'discount_value')::numeric
+    );
+
+    if line_discount > 0 then
+      if coalesce(trim(line->>'discount_reason'), '') = '' then
+        raise exception 'A reason is required for the discount on %', product_record.name;
+      end if;
+      line_override_id := (line->>'discount_override_id')::uuid;
+      if public.valid_override(line_override_id, 'discount', product_record.id::text) then
+        used_overrides := used_overrides || line_override_id;
+      elsif line_discount / (line_gross - line_promotion) * 100 > max_discount then
+        raise exception 'Discount on % exceeds your limit of %', product_record.name, max_discount || '%'
+          using hint = 'discount_approval_required';
+      end if;
+    end if;
+
+    gross_total := gross_total + line_gross;
+    net_before_basket := net_before_basket + line_gross - line_promotion - line_discount;
+  end loop;
+
+  if array_length(shortages, 1) > 0 then
+    raise exception 'Insufficient stock. %', array_to_string(shortages, '; ')
+      using errcode = 'P0001', hint = 'stock_changed';
+  end if;
+
+  basket_discount := public.discount_amount(
+    net_before_basket, discount->>'type', (discount->>'value')::numeric
+  );
+
+  if basket_discount > 0 then
+    if coalesce(trim(discount->>'reason'), '') = '' then
+      raise exception 'A reason is required for the basket discount';
+    end if;
+    if public.valid_override((discount->>'override_id')::uuid, 'discount', 'basket') then
+      used_overrides := used_overrides || (discount->>'override_id')::uuid;
+    elsif basket_discount / net_before_basket * 100 > max_discount then
+      raise exception 'Basket discount exceeds your limit of %', max_discount || '%'
+        using hint = 'discount_approval_required';
+    end if;
+  end if;
+
+  insert into sales (
+    cashier_id, shift_id, gross_amount, discount_amount, discount_type, discount_value,
+    discount_reason, total_amount, prices_include_tax, payment_method, status
+  )
+  values (
+    auth.uid(),
+    open_shift_id,
+    gross_total,
+    0,
+    case when basket_discount > 0 then discount->>'type' end,
+    case when basket_discount > 0 then (discount->>'value')::numeric else 0 end,
+    case when basket_discount > 0 then trim(discount->>'reason') end,
+    0,
+    settings.prices_include_tax,
+    'pending',
+    'completed'
+  )
+  returning id into new_sale_id;
+
+  -- The basket discount is spread over the lines in proportion to their net,
+  -- the last line taking the rounding remainder, so PPN is charged on what the
+  -- customer actually pays for each line.
+  basket_left := basket_discount;
+
+  for line, line_index in select value, ordinality from jsonb_array_elements(items) with ordinality loop
+    line_quantity := (line->>'quantity')::integer;
+    line_price := (line->>'unit_price')::numeric;
+    line_gross := line_quantity * line_price;
+    line_promotion := coalesce(public.promotion_discount(
+      (line->>'promotion_id')::uuid, (line->>'product_id')::uuid, line_quantity, line_price
+    ), 0);
+    line_discount := public.discount_amount(
+      line_gross - line_promotion, line->>'discount_type', (line->>'discount_value')::numeric
+    );
+    line_net := line_gross - line_promotion - line_discount;
+
+    if line_index = line_count then
+      line_basket_share := basket_left;
+    elsif net_before_basket > 0 then
+      line_basket_share := round(basket_discount * line_net / net_before_basket, 2);
+    else
+      line_basket_share := 0;
+    end if;
+    basket_left := basket_left - line_basket_share;
+    line_taxable := line_net - line_basket_share;
+
+    select case when tax_class = 'standard' then settings.ppn_rate else 0 end
+      into line_tax_rate
+      from products
+     where id = (line->>'product_id')::uuid;
+
+    if settings.prices_include_tax then
+      line_tax := round(line_taxable * line_tax_rate / (100 + line_tax_rate), 2);
+    else
+      line_tax := round(line_taxable * line_tax_rate / 100, 2);
+      line_taxable := line_taxable + line_tax;
+    end if;
+
+    tax_total := tax_total + line_tax;
+    sale_total := sale_total + line_taxable;
+
+    insert into sale_items (
+      sale_id, product_id, quantity, unit_price, subtotal,
+      promotion_id, promotion_discount,
+      discount_type, discount_value, discount_amount, discount_reason,
+      tax_rate, tax_amount, line_total
+    )
+    values (
+      new_sale_id,
+      (line->>'product_id')::uuid,
+      line_quantity,
+      line_price,
+      line_net,
+      case when line_promotion > 0 then (line->>'promotion_id')::uuid end,
+      line_promotion,
+      case when line_discount > 0 then line->>'discount_type' end,
+      case when line_discount > 0 then (line->>'discount_value')::numeric else 0 end,
+      line_discount,
+      case when line_discount > 0 then trim(line->>'discount_reason') end,
+      line_tax_rate,
+      line_tax,
+      line_taxable
+    );
+
+    -- Relative decrement so concurrent tills never overwrite each other.
+    update products
+       set stock_quantity = stock_quantity - line_quantity,
+           updated_at = now()
+     where id = (line->>'product_id')::uuid;
+  end loop;
+
+  for payment in select * from jsonb_array_elements(payments) loop
+    payment_amount := (payment->>'amount')::numeric;
+    payment_tendered := (payment->>'tendered')::numeric;
+    if payment->>'method' not in ('cash', 'debit', 'qris', 'ewallet') then
+      raise exception 'Unknown payment method %', payment->>'method';
+    end if;
+    if payment_amount is null or payment_amount <= 0 then
+      raise exception 'Invalid % payment amount', payment->>'method';
+    end if;
+    if payment_tendered is not null and payment->>'method' <> 'cash' then
+      raise exception 'Only cash payments can give change';
+    end if;
+    if payment_tendered is not null and payment_tendered < payment_amount then
+      raise exception 'Cash tendered is less than the cash amount applied';
+    end if;
+    paid_total := paid_total + payment_amount;
+
+    insert into sale_payments (sale_id, method, amount, tendered, change_due)
+    values (
+      new_sale_id,
+      payment->>'method',
+      payment_amount,
+      payment_tendered,
+      coalesce(payment_tendered - payment_amount, 0)
+    );
+  end loop;
+
+  if round(paid_total, 2) <> round(sale_total, 2) then
+    raise exception 'Payments (%) do not match the sale total (%)', paid_total, sale_total
+      using hint = 'total_changed';
+  end if;
+
+  select case when count(distinct p->>'method') = 1 then min(p->>'method') else 'split' end
+    into sale_payment_method
+    from jsonb_array_elements(payments) as p;
+
+  update sales
+     set total_amount = sale_total,
+         discount_amount = gross_total - (net_before_basket - basket_discount),
+         tax_amount = tax_total,
+         payment_method = sale_payment_method
+   where id = new_sale_id;
+
+  update manager_overrides
+     set used_at = now(),
+         sale_id = new_sale_id
+   where id = any (used_overrides);
+
+  return new_sale_id;
+end;
+$$;
+drop function if exists public.void_sale(uuid, text);
+
+-- Store owners void directly; anyone else needs an owner's approval.
+create or replace function public.void_sale(
+  sale_id uuid,
+  reason text,
+  override_id uuid default null
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  target sales;
+begin
+  if not public.has_role(auth.uid(), 'store_owner')
+     and not public.valid_override(void_sale.override_id, 'void_sale', void_sale.sale_id::text) then
+    raise exception 'Voiding a sale needs a store owner''s approval';
+  end if;
+
+  if coalesce(trim(reason), '') = '' then
+    raise exception 'A reason is required to void a sale';
+  end if;
+
+  select * into target from sales where id = void_sale.sale_id for update;
+  if not found then
+    raise exception 'Sale % not found', void_sale.sale_id;
+  end if;
+  if target.status = 'voided' then
+    raise exception 'Sale is already voided';
+  end if;
+
+  if exists (
+    select 1 from sales
+     where original_sale_id = target.id
+       and status <> 'voided'
+  ) then
+    raise exception 'Void the returns against this sale first';
+  end if;
+
+  -- Put stock back as it was before the sale. Return rows carry negative
+  -- quantities, so voiding a return takes restocked goods off the shelf again.
+  update products p
+     set stock_quantity = p.stock_quantity + si.quantity,
+         updated_at = now()
+    from (
+      select product_id, sum(quantity) as quantity
+        from sale_items
+       where sale_items.sale_id = target.id
+         and (target.sale_type = 'sale' or return_condition = 'restock')
+       group by product_id
+    ) si
+   where p.id = si.product_id;
+
+  update sales
+     set status = 'voided',
+         voided_at = now(),
+         voided_by = auth.uid(),
+         void_reason = trim(reason)
+   where id = target.id;
+
+  update manager_overrides
+     set used_at = now(),
+         sale_id = target.id
+   where id = void_sale.override_id;
+end;
+$$;
+
+drop function if exists public.void_shift(uuid, text);
+
+create or replace function public.void_shift(
+  shift_id uuid,
+  reason text,
+  override_id uuid default null
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not public.has_role(auth.uid(), 'store_owner')
+     and not public.valid_override(void_shift.override_id, 'void_shift', void_shift.shift_id::text) then
+    raise exception 'Voiding a shift needs a store owner''s approval';
+  end if;
+
+  if coalesce(trim(reason), '') = '' then
+    raise exception 'A reason is required to void a shift';
+  end if;
+
+  update shifts
+     set status = 'voided',
+         end_time = coalesce(end_time, now()),
+         voided_at = now(),
+         voided_by = auth.uid(),
+         void_reason = trim(reason)
+   where id = void_shift.shift_id
+     and status <> 'voided';
+
+  if not found then
+    raise exception 'Shift % not found or already voided', void_shift.shift_id;
+  end if;
+
+  update manager_overrides
+     set used_at = now()
+   where id = void_shift.override_id;
+end;
+$$;
@@ -0,0 +1,219 @@
+-- Manual stock changes with a reason code. Damaged and expired goods are
+-- written off as waste; everything else is an adjustment.
+alter table public.stock_movements
+  add column if not exists reason text
+    check (reason in ('damaged', 'expired', 'theft', 'found', 'correction'));
+
+-- The most units each role may add or remove in one adjustment or count.
+create table if not exists public.role_adjustment_limits (
+  role public.app_role primary key,
+  max_units integer not null check (max_units >= 0)
+);
+
+insert into public.role_adjustment_limits (role, max_units) values
+  ('store_owner', 100000),
+  ('warehouse_admin', 100),
+  ('shopkeeper', 0)
+on conflict (role) do nothing;
+
+alter table public.role_adjustment_limits enable row level security;
+
+create policy "Authenticated users can read adjustment limits"
+  on public.role_adjustment_limits for select
+  to authenticated
+  using (true);
+
+create policy "Store owners can manage adjustment limits"
+  on public.role_adjustment_limits for all
+  to authenticated
+  using (public.has_role(auth.uid(), 'store_owner'))
+  with check (public.has_role(auth.uid(), 'store_owner'));
+
+create or replace function public.adjustment_limit(user_id uuid)
+returns integer
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(max(l.max_units), 0)
+    from user_roles r
+    join role_adjustment_limits l on l.role = r.role
+   where r.user_id = adjustment_limit.user_id;
+$$;
+
+grant execute on function public.adjustment_limit(uuid) to authenticated;
+
+create or replace function public.adjust_stock(
+  product_id uuid,
+  quantity integer,
+  reason text,
+  notes text default null
+)
+returns stock_movements
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  movement stock_movements;
+begin
+  if not public.has_any_role(auth.uid(), '{store_owner,shopkeeper,warehouse_admin}') then
+    raise exception 'Only staff can adjust stock';
+  end if;
+  if reason is null or reason not in ('damaged', 'expired', 'theft', 'found', 'correction') then
+    raise exception 'Choose a reason for the adjustment';
+  end if;
+  if quantity is null or quantity = 0 then
+    raise exception 'Enter the number of units to adjust';
+  end if;
+  if reason in ('damaged', 'expired', 'theft') and quantity > 0 then
+    raise exception 'Damaged, expired and stolen stock can only be removed';
+  end if;
+  if reason = 'found' and quantity < 0 then
+    raise exception 'Found stock can only be added';
+  end if;
+  if abs(quantity) > public.adjustment_limit(auth.uid()) then
+    raise exception 'You can adjust at most % units at a time', public.adjustment_limit(auth.uid());
+  end if;
+  if not exists (select 1 from products where id = adjust_stock.product_id) then
+    raise exception 'Product % not found', adjust_stock.product_id;
+  end if;
+
+  insert into stock_movements (product_id, movement_type, quantity, reason, notes)
+  values (
+    adjust_stock.product_id,
+    case when reason in ('damaged', 'expired') then 'waste' else 'adjustment' end,
+    quantity,
+    reason,
+    nullif(trim(notes), '')
+  )
+  returning * into movement;
+
+  return movement;
+end;
+$$;
+
+-- Same as before, with counts held to the adjustment limit too.
+create or replace function public.set_stock_count(
+  product_id uuid,
+  counted integer,
+  notes text default null
+)
+returns stock_movements
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  current_quantity integer;
+  movement stock_movements;
+begin
+  if not public.has_any_role(auth.uid(), '{store_owner,shopkeeper,warehouse_admin}') then
+    raise exception 'Only staff can count stock';
+  end if;
+  if counted is null or counted < 0 then
+    raise exception 'The counted quantity cannot be negative';
+  end if;
+
+  select stock_quantity into current_quantity
+    from products
+   where id = set_stock_count.product_id
+   for update;
+
+  if not found then
+    raise exception 'Product % not found', set_stock_count.product_id;
+  end if;
+  if counted = current_quantity then
+    return null;
+  end if;
+  if abs(counted - current_quantity) > public.adjustment_limit(auth.uid()) then
+    raise exception 'You can adjust at most % units at a time', public.adjustment_limit(auth.uid());
+  end if;
+
+  insert into stock_movements (product_id, movement_type, quantity, notes)
+  values (set_stock_count.product_id, 'count', counted - current_quantity, nullif(trim(notes), ''))
+  returning * into movement;
+
+  return movement;
+end;
+$$;
+
+-- Same as before, with the reason code.
+drop function if exists public.stock_history(uuid);
+
+create or replace function public.stock_history(product_id uuid)
+returns table (
+  id uuid,
+  movement_type text,
+  reason text,
+  quantity integer,
+  balance_after integer,
+  reference_id uuid,
+  notes text,
+  created_by uuid,
+  created_by_name text,
+  created_at timestamptz
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  if not public.has_any_role(auth.uid(), '{store_owner,shopkeeper,warehouse_admin}') then
+    raise exception 'Only staff can view stock history';
+  end if;
+
+  return query
+  select m.id, m.movement_type, m.reason, m.quantity, m.balance_after, m.reference_id, m.notes,
+         m.created_by, coalesce(p.full_name, u.email::text), m.created_at
+    from stock_movements m
+    left join auth.users u on u.id = m.created_by
+    left join profiles p on p.id = m.created_by
+   where m.product_id = stock_history.product_id
+   order by m.created_at desc
+   limit 200;
+end;
+$$;
+
+-- Adjustments and write-offs in a date range, for the adjustment report.
+create or replace function public.stock_adjustment_report(
+  from_date timestamptz,
+  to_date timestamptz
+)
+returns table (
+  id uuid,
+  product_id uuid,
+  product_name text,
+  sku text,
+  movement_type text,
+  reason text,
+  quantity integer,
+  notes text,
+  created_by_name text,
+  created_at timestamptz
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  if not public.has_role(auth.uid(), 'store_owner') then
+    raise exception 'Only store owners can view stock adjustments';
+  end if;
+
+  return query
+  select m.id, m.product_id, pr.name, pr.sku, m.movement_type, m.reason, m.quantity, m.notes,
+         coalesce(p.full_name, u.email::text), m.created_at
+    from stock_movements m
+    join products pr on pr.id = m.product_id
+    left join auth.users u on u.id = m.created_by
+    left join profiles p on p.id = m.created_by
+   where m.reason is not null
+     and m.created_at >= from_date
+     and m.created_at < to_date
+   order by m.created_at desc;
+end;
+$$;
@@ -0,0 +1,310 @@
+-- Purchasing: suppliers, purchase orders and the deliveries received against
+-- them. Received units are posted to stock as 'receipt' movements.
+create table if not exists public.suppliers (
+  id uuid primary key default gen_random_uuid(),
+  name text not null check (length(trim(name)) > 0),
+  phone text,
+  email text,
+  active boolean not null default true,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+alter table public.suppliers enable row level security;
+
+create policy "Purchasing staff can read suppliers"
+  on public.suppliers for select
+  to authenticated
+  using (public.has_any_role(auth.uid(), '{store_owner,warehouse_admin}'));
+
+create policy "Purchasing staff can manage suppliers"
+  on public.suppliers for all
+  to authenticated
+  using (public.has_any_role(auth.uid(), '{store_owner,warehouse_admin}'))
+  with check (public.has_any_role(auth.uid(), '{store_owner,warehouse_admin}'));
+
+create sequence if not exists public.purchase_order_number_seq;
+
+-- ordered             sent to the supplier, nothing received yet
+-- partially_received  some lines are still outstanding
+-- received            every line arrived in full
+-- closed              the outstanding quantities will not be delivered
+-- cancelled           cancelled before anything was received
+create table if not exists public.purchase_orders (
+  id uuid primary key default gen_random_uuid(),
+  po_number bigint not null unique default nextval('public.purchase_order_number_seq'),
+  supplier_id uuid not null references public.suppliers (id),
+  status text not null default 'ordered'
+    check (status in ('ordered', 'partially_received', 'received', 'closed', 'cancelled')),
+  expected_date date,
+  notes text,
+  close_reason text,
+  created_by uuid default auth.uid() references auth.users (id),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create table if not exists public.purchase_order_lines (
+  id uuid primary key default gen_random_uuid(),
+  purchase_order_id uuid not null references public.purchase_orders (id) on delete cascade,
+  product_id uuid not null references public.products (id),
+  quantity_ordered integer not null check (quantity_ordered > 0),
+  unit_cost numeric not null check (unit_cost >= 0),
+  quantity_received integer not null default 0 check (quantity_received >= 0),
+  quantity_rejected integer not null default 0 check (quantity_rejected >= 0)
+);
+
+create index if not exists purchase_order_lines_purchase_order_id_idx
+  on public.purchase_order_lines (purchase_order_id);
+
+-- One row per delivery; a purchase order may take several.
+create table if not exists public.goods_receipts (
+  id uuid primary key default gen_random_uuid(),
+  purchase_order_id uuid not null references public.purchase_orders (id),
+  supplier_reference text,
+  notes text,
+  received_by uuid default auth.uid() references auth.users (id),
+  received_at timestamptz not null default now()
+);
+
+-- Rejected units (damaged, wrong item) are recorded but never stocked. A
+-- discrepancy note is required whenever a line differs from what was expected.
+create table if not exists public.goods_receipt_lines (
+  id uuid primary key default gen_random_uuid(),
+  goods_receipt_id uuid not null references public.goods_receipts (id) on delete cascade,
+  purchase_order_line_id uuid not null references public.purchase_order_lines (id),
+  product_id uuid not null references public.products (id),
+  quantity_received integer not null default 0 check (quantity_received >= 0),
+  quantity_rejected integer not null default 0 check (quantity_rejected >= 0),
+  discrepancy_note text,
+  check (quantity_received + quantity_rejected > 0)
+);
+
+create index if not exists goods_receipts_purchase_order_id_idx
+  on public.goods_receipts (purchase_order_id);
+
+alter table public.purchase_orders enable row level security;
+alter table public.purchase_order_lines enable row level security;
+alter table public.goods_receipts enable row level security;
+alter table public.goods_receipt_lines enable row level security;
+
+-- Read-only to clients; orders and deliveries are written by the functions below.
+create policy "Purchasing staff can read purchase orders"
+  on public.purchase_orders for select
+  to authenticated
+  using (public.has_any_role(auth.uid(), '{store_owner,warehouse_admin}'));
+
+create policy "Purchasing staff can read purchase order lines"
+  on public.purchase_order_lines for select
+  to authenticated
+  using (public.has_any_role(auth.uid(), '{store_owner,warehouse_admin}'));
+
+create policy "Purchasing staff can read goods receipts"
+  on public.goods_receipts for select
+  to authenticated
+  using (public.has_any_role(auth.uid(), '{store_owner,warehouse_admin}'));
+
+create policy "Purchasing staff can read goods receipt lines"
+  on public.goods_receipt_lines for select
+  to authenticated
+  using (public.has_any_role(auth.uid(), '{store_owner,warehouse_admin}'));
+
+-- `lines` is [{product_id, quantity, unit_cost}].
+create or replace function public.create_purchase_order(
+  supplier_id uuid,
+  lines jsonb,
+  expected_date date default null,
+  notes text default null
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  new_order_id uuid;
+  line jsonb;
+begin
+  if not public.has_any_role(auth.uid(), '{store_owner,warehouse_admin}') then
+    raise exception 'Only store owners and warehouse admins can create purchase orders';
+  end if;
+  if not exists (select 1 from suppliers where id = create_purchase_order.supplier_id and active) then
+    raise exception 'Choose an active supplier';
+  end if;
+  if lines is null or jsonb_array_length(lines) = 0 then
+    raise exception 'Add at least one product to the order';
+  end if;
+
+  insert into purchase_orders (supplier_id, expected_date, notes)
+  values (create_purchase_order.supplier_id, expected_date, nullif(trim(notes), ''))
+  returning id into new_order_id;
+
+  for line in select * from jsonb_array_elements(lines) loop
+    if coalesce((line->>'quantity')::integer, 0) <= 0 then
+      raise exception 'Order quantities must be at least 1';
+    end if;
+    if coalesce((line->>'unit_cost')::numeric, -1) < 0 then
+      raise exception 'Unit costs cannot be negative';
+    end if;
+
+    insert into purchase_order_lines (purchase_order_id, product_id, quantity_ordered, unit_cost)
+    values (
+      new_order_id,
+      (line->>'product_id')::uuid,
+      (line->>'quantity')::integer,
+      (line->>'unit_cost')::numeric
+    );
+  end loop;
+
+  return new_order_id;
+end;
+$$;
+
+-- Records one delivery. `lines` is [{line_id, received, rejected, note}];
+-- lines the supplier did not send can be left out. Received units go
+-- straight to stock.
+create or replace function public.receive_purchase_order(
+  purchase_order_id uuid,
+  lines jsonb,
+  supplier_reference text default null,
+  notes text default null
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  target purchase_orders;
+  new_receipt_id uuid;
+  line jsonb;
+  order_line purchase_order_lines;
+  line_received integer;
+  line_rejected integer;
+  line_note text;
+begin
+  if not public.has_any_role(auth.uid(), '{store_owner,warehouse_admin}') then
+    raise exception 'Only store owners and warehouse admins can receive goods';
+  end if;
+
+  select * into target
+    from purchase_orders
+   where id = receive_purchase_order.purchase_order_id
+   for update;
+
+  if not found then
+    raise exception 'Purchase order % not found', receive_purchase_order.purchase_order_id;
+  end if;
+  if target.status not in ('ordered', 'partially_received') then
+    raise exception 'PO-% is % and cannot take deliveries', target.po_number, target.status;
+  end if;
+
+  insert into goods_receipts (purchase_order_id, supplier_reference, notes)
+  values (target.id, nullif(trim(supplier_reference), ''), nullif(trim(notes), ''))
+  returning id into new_receipt_id;
+
+  for line in select * from jsonb_array_elements(coalesce(lines, '[]')) loop
+    line_received := coalesce((line->>'received')::integer, 0);
+    line_rejected := coalesce((line->>'rejected')::integer, 0);
+    line_note := nullif(trim(line->>'note'), '');
+    continue when line_received = 0 and line_rejected = 0;
+
+    select * into order_line
+      from purchase_order_lines
+     where id = (line->>'line_id')::uuid
+       and purchase_order_lines.purchase_order_id = target.id
+     for update;
+
+    if not found then
+      raise exception 'Line % is not part of PO-%', line->>'line_id', target.po_number;
+    end if;
+    if line_received < 0 or line_rejected < 0 then
+      raise exception 'Received and rejected quantities cannot be negative';
+    end if;
+    -- Rejections, and anything beyond what is still outstanding, need a note.
+    if line_note is null
+       and (line_rejected > 0
+            or line_received > order_line.quantity_ordered - order_line.quantity_received) then
+      raise exception 'Add a discrepancy note for rejected or extra units';
+    end if;
+
+    insert into goods_receipt_lines (
+      goods_receipt_id, purchase_order_line_id, product_id,
+      quantity_received, quantity_rejected, discrepancy_note
+    )
+    values (
+      new_receipt_id, order_line.id, order_line.product_id,
+      line_received, line_rejected, line_note
+    );
+
+    update purchase_order_lines
+       set quantity_received = quantity_received + line_received,
+           quantity_rejected = quantity_rejected + line_rejected
+     where id = order_line.id;
+
+    if line_received > 0 then
+      insert into stock_movements (product_id, movement_type, quantity, reference_id, notes)
+      values (order_line.product_id, 'receipt', line_received, new_receipt_id, 'PO-' || target.po_number);
+    end if;
+  end loop;
+
+  if not exists (select 1 from goods_receipt_lines where goods_receipt_id = new_receipt_id) then
+    raise exception 'Enter the quantities that arrived';
+  end if;
+
+  update purchase_orders
+     set status = case
+                    when not exists (
+                      select 1 from purchase_order_lines
+                       where purchase_order_lines.purchase_order_id = target.id
+                         and quantity_received < quantity_ordered
+                    ) then 'received'
+                    else 'partially_received'
+                  end,
+         updated_at = now()
+   where id = target.id;
+
+  return new_receipt_id;
+end;
+$$;
+
+-- Stops waiting for what is still outstanding: an order with no deliveries is
+-- cancelled, one with some is closed short.
+create or replace function public.close_purchase_order(
+  purchase_order_id uuid,
+  reason text
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  target purchase_orders;
+begin
+  if not public.has_any_role(auth.uid(), '{store_owner,warehouse_admin}') then
+    raise exception 'Only store owners and warehouse admins can close purchase orders';
+  end if;
+  if coalesce(trim(reason), '') = '' then
+    raise exception 'A reason is required to close a purchase order';
+  end if;
+
+  select * into target
+    from purchase_orders
+   where id = close_purchase_order.purchase_order_id
+   for update;
+
+  if not found then
+    raise exception 'Purchase order % not found', close_purchase_order.purchase_order_id;
+  end if;
+  if target.status not in ('ordered', 'partially_received') then
+    raise exception 'PO-% is already %', target.po_number, target.status;
+  end if;
+
+  update purchase_orders
+     set status = case when target.status = 'ordered' then 'cancelled' else 'closed' end,
+         close_reason = trim(reason),
+         updated_at = now()
+   where id = target.id;
+end;
+$$;
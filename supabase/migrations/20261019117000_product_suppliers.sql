@@ -0,0 +1,82 @@
+-- Supplier directory details and the catalogue of who supplies each product,
+-- under which code, in what pack size and at what cost.
+alter table public.suppliers
+  add column if not exists contact_name text,
+  add column if not exists address text,
+  add column if not exists payment_terms text,
+  add column if not exists lead_time_days integer check (lead_time_days >= 0),
+  add column if not exists notes text;
+
+create table if not exists public.product_suppliers (
+  id uuid primary key default gen_random_uuid(),
+  product_id uuid not null references public.products (id) on delete cascade,
+  supplier_id uuid not null references public.suppliers (id) on delete cascade,
+  supplier_sku text,
+  -- Units of the product in one pack as the supplier sells it.
+  pack_size integer not null default 1 check (pack_size > 0),
+  -- Per unit, not per pack, so it compares directly with the selling price.
+  last_cost numeric check (last_cost >= 0),
+  last_cost_at timestamptz,
+  preferred boolean not null default false,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (product_id, supplier_id)
+);
+
+create unique index if not exists product_suppliers_preferred_idx
+  on public.product_suppliers (product_id)
+  where preferred;
+
+alter table public.product_suppliers enable row level security;
+
+create policy "Purchasing staff can read product suppliers"
+  on public.product_suppliers for select
+  to authenticated
+  using (public.has_any_role(auth.uid(), '{store_owner,warehouse_admin}'));
+
+create policy "Purchasing staff can manage product suppliers"
+  on public.product_suppliers for all
+  to authenticated
+  using (public.has_any_role(auth.uid(), '{store_owner,warehouse_admin}'))
+  with check (public.has_any_role(auth.uid(), '{store_owner,warehouse_admin}'));
+
+-- Every delivery updates the supplier's last cost for the product, adding the
+-- product to their catalogue if it wasn't there yet.
+create or replace function public.record_supplier_cost()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into product_suppliers (product_id, supplier_id, last_cost, last_cost_at)
+  select l.product_id, o.supplier_id, l.unit_cost, now()
+    from purchase_order_lines l
+    join purchase_orders o on o.id = l.purchase_order_id
+   where l.id = new.purchase_order_line_id
+  on conflict (product_id, supplier_id) do update
+    set last_cost = excluded.last_cost,
+        last_cost_at = excluded.last_cost_at,
+        updated_at = now();
+  return new;
+end;
+$$;
+
+drop trigger if exists record_supplier_cost on public.goods_receipt_lines;
+create trigger record_supplier_cost
+  after insert on public.goods_receipt_lines
+  for each row
+  when (new.quantity_received > 0)
+  execute function public.record_supplier_cost();
+
+-- Seed the catalogue from deliveries received before it existed.
+insert into public.product_suppliers (product_id, supplier_id, last_cost, last_cost_at)
+select distinct on (l.product_id, o.supplier_id)
+       l.product_id, o.supplier_id, l.unit_cost, r.received_at
+  from public.goods_receipt_lines gl
+  join public.goods_receipts r on r.id = gl.goods_receipt_id
+  join public.purchase_order_lines l on l.id = gl.purchase_order_line_id
+  join public.purchase_orders o on o.id = l.purchase_order_id
+ where gl.quantity_received > 0
+ order by l.product_id, o.supplier_id, r.received_at desc
+on conflict (product_id, supplier_id) do nothing;
@@ -0,0 +1,65 @@
+-- What each unit on hand cost us, so margins and stock value can be reported.
+-- Null until the first delivery is received or a cost is entered by hand.
+alter table public.products
+  add column if not exists cost numeric check (cost >= 0);
+
+-- How receiving moves the cost: a weighted average of the stock on hand and
+-- the delivery, or simply the price paid for the latest delivery.
+alter table public.store_settings
+  add column if not exists cost_method text not null default 'weighted_average'
+    check (cost_method in ('weighted_average', 'last_cost'));
+
+-- Runs before the delivery's receipt movement is posted, so the product's
+-- stock is still the quantity on hand before this delivery.
+create or replace function public.update_product_cost()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  method text;
+  delivery_cost numeric;
+begin
+  select cost_method into method from store_settings where id;
+
+  select unit_cost into delivery_cost
+    from purchase_order_lines
+   where id = new.purchase_order_line_id;
+
+  update products
+     set cost = case
+                  when method = 'last_cost'
+                    or cost is null
+                    or stock_quantity <= 0 then delivery_cost
+                  else round(
+                    (stock_quantity * cost + new.quantity_received * delivery_cost)
+                      / (stock_quantity + new.quantity_received),
+                    2
+                  )
+                end,
+         updated_at = now()
+   where id = new.product_id;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists update_product_cost on public.goods_receipt_lines;
+create trigger update_product_cost
+  after insert on public.goods_receipt_lines
+  for each row
+  when (new.quantity_received > 0)
+  execute function public.update_product_cost();
+
+-- Start products off at the cost of their most recent delivery.
+update public.products p
+   set cost = latest.last_cost
+  from (
+    select distinct on (product_id) product_id, last_cost
+      from public.product_suppliers
+     where last_cost is not null
+     order by product_id, last_cost_at desc nulls last
+  ) latest
+ where latest.product_id = p.id
+   and p.cost is null;
@@ -0,0 +1,62 @@
+-- Weekday promotions follow the store's clock, not the database server's
+-- (UTC) or the till's. Indonesia spans three zones: WIB, WITA and WIT.
+alter table public.store_settings
+  add column if not exists timezone text not null default 'Asia/Jakarta'
+    check (timezone in ('Asia/Jakarta', 'Asia/Makassar', 'Asia/Jayapura'));
+
+-- Same as before, with the day of week taken in the store's time zone.
+create or replace function public.promotion_discount(
+  promotion_id uuid,
+  product_id uuid,
+  quantity integer,
+  unit_price numeric,
+  at_time timestamptz default now()
+)
+returns numeric
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  promo promotions;
+  product_category text;
+  store_time_zone text;
+begin
+  select * into promo from promotions where id = promotion_discount.promotion_id;
+  if not found or not promo.active then
+    return 0;
+  end if;
+
+  select timezone into store_time_zone from store_settings where id;
+
+  if (promo.starts_at is not null and at_time < promo.starts_at)
+     or (promo.ends_at is not null and at_time >= promo.ends_at)
+     or (promo.days_of_week is not null
+         and not (extract(dow from at_time at time zone store_time_zone)::smallint = any (promo.days_of_week))) then
+    return 0;
+  end if;
+
+  select category into product_category from products where id = promotion_discount.product_id;
+  if promo.product_id is not null and promo.product_id <> promotion_discount.product_id then
+    return 0;
+  end if;
+  if promo.category is not null and promo.category is distinct from product_category then
+    return 0;
+  end if;
+
+  return case promo.promo_type
+    when 'buy_x_get_y' then
+      floor(quantity::numeric / (promo.buy_quantity + promo.get_quantity)) * promo.get_quantity * unit_price
+    when 'multi_buy' then
+      greatest(
+        floor(quantity::numeric / promo.bundle_quantity)
+          * (promo.bundle_quantity * unit_price - promo.bundle_price),
+        0
+      )
+    when 'percent_off' then
+      round(quantity * unit_price * promo.percent / 100, 2)
+    else 0
+  end;
+end;
+$$;
@@ -0,0 +1,19 @@
+-- Cash drops, pay-ins and payouts go against the cashier's own open shift;
+-- only a store owner can record them on someone else's drawer.
+drop policy if exists "Cashiers can record cash movements on open shifts" on public.cash_movements;
+
+create policy "Cashiers can record cash movements on open shifts"
+  on public.cash_movements for insert
+  to authenticated
+  with check (
+    created_by = auth.uid()
+    and exists (
+      select 1 from public.shifts
+       where shifts.id = shift_id
+         and shifts.status = 'open'
+         and (
+           shifts.cashier_id = auth.uid()
+           or public.has_role(auth.uid(), 'store_owner')
+         )
+    )
+  );
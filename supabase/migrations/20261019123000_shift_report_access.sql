@@ -0,0 +1,115 @@
+-- Shift takings and expected cash are only for sales staff: store owners see
+-- every shift, shopkeepers only their own.
+create or replace function public.can_view_shift(shift_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select public.has_role(auth.uid(), 'store_owner')
+      or (
+        public.has_role(auth.uid(), 'shopkeeper')
+        and exists (
+          select 1 from shifts
+           where id = can_view_shift.shift_id
+             and cashier_id = auth.uid()
+        )
+      );
+$$;
+
+create or replace function public.expected_cash(shift_id uuid)
+returns numeric
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  if not public.can_view_shift(expected_cash.shift_id) then
+    raise exception 'You can only view the drawer for your own shifts';
+  end if;
+
+  return (
+    select sh.starting_cash
+           + coalesce((
+               select sum(t.amount)
+                 from shift_payment_totals t
+                where t.shift_id = sh.id
+                  and t.method = 'cash'
+             ), 0)
+           + coalesce((
+               select sum(case when m.movement_type = 'pay_in' then m.amount else -m.amount end)
+                 from cash_movements m
+                where m.shift_id = sh.id
+             ), 0)
+      from shifts sh
+     where sh.id = expected_cash.shift_id
+  );
+end;
+$$;
+
+create or replace function public.shift_report(shift_id uuid)
+returns jsonb
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  target shifts;
+  report jsonb;
+begin
+  if not public.can_view_shift(shift_report.shift_id) then
+    raise exception 'You can only view reports for your own shifts';
+  end if;
+
+  select * into target from shifts where id = shift_report.shift_id;
+  if not found then
+    raise exception 'Shift % not found', shift_report.shift_id;
+  end if;
+
+  select jsonb_build_object(
+           'sales_count', count(*) filter (where sale_type = 'sale' and status <> 'voided'),
+           'gross', coalesce(sum(gross_amount) filter (where sale_type = 'sale' and status <> 'voided'), 0),
+           'discounts', coalesce(sum(discount_amount) filter (where sale_type = 'sale' and status <> 'voided'), 0),
+           'returns_count', count(*) filter (where sale_type = 'return' and status <> 'voided'),
+           'returns_total', coalesce(-sum(total_amount) filter (where sale_type = 'return' and status <> 'voided'), 0),
+           'net', coalesce(sum(total_amount) filter (where status <> 'voided'), 0),
+           'tax', coalesce(sum(tax_amount) filter (where status <> 'voided'), 0),
+           'voided_count', count(*) filter (where status = 'voided'),
+           'voided_total', coalesce(sum(total_amount) filter (where status = 'voided'), 0)
+         )
+    into report
+    from sales
+   where sales.shift_id = target.id;
+
+  return report || jsonb_build_object(
+    'shift_id', target.id,
+    'z_number', target.z_number,
+    'status', target.status,
+    'cashier_name', (select full_name from profiles where id = target.cashier_id),
+    'register_name', (select name from registers where id = target.register_id),
+    'start_time', target.start_time,
+    'end_time', target.end_time,
+    'tenders', coalesce((
+      select jsonb_agg(jsonb_build_object('method', method, 'amount', amount) order by method)
+        from shift_payment_totals t
+       where t.shift_id = target.id
+    ), '[]'::jsonb),
+    'movements', coalesce((
+      select jsonb_agg(jsonb_build_object('movement_type', movement_type, 'amount', amount) order by movement_type)
+        from (
+          select movement_type, sum(amount) as amount
+            from cash_movements m
+           where m.shift_id = target.id
+           group by movement_type
+        ) totals
+    ), '[]'::jsonb),
+    'starting_cash', target.starting_cash,
+    'expected_cash', coalesce(target.expected_cash, public.expected_cash(target.id)),
+    'counted_cash', target.ending_cash,
+    'cash_variance', target.cash_variance
+  );
+end;
+$$;
@@ -0,0 +1,403 @@
+-- After a PIN unlock the signed-in user is whoever opened the shift, not the
+-- cashier at the till. Discount limits and override ownership follow the
+-- cashier named in pos_unlocks instead.
+
+-- The cashier at this user's till: the unlocked cashier, null while the till
+-- is locked, or the user themself when no one has unlocked it with a PIN.
+create or replace function public.pos_cashier_id()
+returns uuid
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  unlock pos_unlocks;
+begin
+  select * into unlock
+    from pos_unlocks
+   where shift_id = public.current_shift_id(auth.uid());
+
+  if found then
+    return unlock.cashier_id;
+  end if;
+  return auth.uid();
+end;
+$$;
+
+grant execute on function public.pos_cashier_id() to authenticated;
+
+-- Same as before, with the approval requested by the cashier at the till.
+create or replace function public.approve_override(
+  approver_id uuid,
+  pin text,
+  action text,
+  details jsonb default '{}'::jsonb,
+  reason text default null
+)
+returns manager_overrides
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  approval manager_overrides;
+  requester_id uuid;
+begin
+  if not public.has_any_role(auth.uid(), '{store_owner,shopkeeper}') then
+    raise exception 'Only store owners and shopkeepers can request an override';
+  end if;
+  if not public.has_role(approve_override.approver_id, 'store_owner') then
+    raise exception 'Only a store owner can approve this';
+  end if;
+  if approve_override.action = 'no_sale' and coalesce(trim(approve_override.reason), '') = '' then
+    raise exception 'A reason is required to open the drawer';
+  end if;
+
+  requester_id := public.pos_cashier_id();
+  if requester_id is null then
+    raise exception 'The till is locked. Enter a PIN to continue.'
+      using hint = 'pos_locked';
+  end if;
+
+  if not public.verify_pin(approve_override.approver_id, pin) then
+    return null;
+  end if;
+
+  insert into manager_overrides (
+    action, details, reason, requested_by, approved_by, shift_id, used_at
+  )
+  values (
+    approve_override.action,
+    coalesce(approve_override.details, '{}'::jsonb),
+    nullif(trim(coalesce(approve_override.reason, '')), ''),
+    requester_id,
+    approve_override.approver_id,
+    public.current_shift_id(auth.uid()),
+    case when approve_override.action = 'no_sale' then now() end
+  )
+  returning * into approval;
+
+  return approval;
+end;
+$$;
+
+-- An approval is good once, for the cashier who asked, for fifteen minutes.
+create or replace function public.valid_override(
+  override_id uuid,
+  action text,
+  target text
+)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1
+      from manager_overrides mo
+     where mo.id = valid_override.override_id
+       and mo.action = valid_override.action
+       and mo.details->>'target' = valid_override.target
+       and mo.requested_by = public.pos_cashier_id()
+       and mo.used_at is null
+       and mo.created_at > now() - interval '15 minutes'
+  );
+$$;
+
+-- Same as before, with the discount limit of the cashier at the till.
+create or replace function public.complete_sale(
+  items jsonb,
+  payments jsonb,
+  discount jsonb default null
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  new_sale_id uuid;
+  line jsonb;
+  line_index bigint;
+  line_count integer;
+  line_quantity integer;
+  line_price numeric;
+  line_gross numeric;
+  line_promotion numeric;
+  line_discount numeric;
+  line_net numeric;
+  line_basket_share numeric;
+  line_taxable numeric;
+  line_tax_rate numeric;
+  line_tax numeric;
+  basket_left numeric;
+  gross_total numeric := 0;
+  net_before_basket numeric := 0;
+  basket_discount numeric := 0;
+  tax_total numeric := 0;
+  sale_total numeric := 0;
+  max_discount numeric;
+  product_record record;
+  shortages text[] := '{}';
+  settings store_settings;
+  payment jsonb;
+  payment_amount numeric;
+  payment_tendered numeric;
+  paid_total numeric := 0;
+  sale_payment_method text;
+  open_shift_id uuid;
+  line_override_id uuid;
+  used_overrides uuid[] := '{}';
+begin
+  if auth.uid() is null then
+    raise exception 'You must be logged in to complete a sale';
+  end if;
+
+  if items is null or jsonb_array_length(items) = 0 then
+    raise exception 'Cannot complete a sale without items';
+  end if;
+
+  if payments is null or jsonb_array_length(payments) = 0 then
+    raise exception 'Cannot complete a sale without a payment';
+  end if;
+
+  open_shift_id := public.current_shift_id(auth.uid());
+  if open_shift_id is null then
+    raise exception 'Start a shift before making sales'
+      using hint = 'shift_required';
+  end if;
+
+  select * into settings from store_settings where id;
+  max_discount := public.discount_limit(public.pos_cashier_id());
+  line_count := jsonb_array_length(items);
+
+  for line in select * from jsonb_array_elements(items) loop
+    line_quantity := (line->>'quantity')::integer;
+    line_price := (line->>'unit_price')::numeric;
+    if line_quantity is null or line_quantity <= 0 then
+      raise exception 'Invalid quantity for product %', line->>'product_id';
+    end if;
+    if line_price is null or line_price < 0 then
+      raise exception 'Invalid price for product %', line->>'product_id';
+    end if;
+
+    select id, name, price, stock_quantity into product_record
+      from products
+     where id = (line->>'product_id')::uuid
+       for update;
+
+    if not found then
+      raise exception 'Product % not found', line->>'product_id';
+    end if;
+
+    if not coalesce(settings.allow_backorders, false)
+       and product_record.stock_quantity < line_quantity then
+      shortages := shortages || format(
+        '%s: requested %s, available %s',
+        product_record.name, line_quantity, greatest(product_record.stock_quantity, 0)
+      );
+    end if;
+
+    line_override_id := (line->>'price_override_id')::uuid;
+    if line_override_id is not null then
+      if not public.valid_override(line_override_id, 'price_override', product_record.id::text)
+         or not exists (
+           select 1 from manager_overrides
+            where id = line_override_id
+              and (details->>'price')::numeric = line_price
+         ) then
+        raise exception 'The price override on % is not approved', product_record.name;
+      end if;
+      used_overrides := used_overrides || line_override_id;
+    elsif line_price <> product_record.price then
+      raise exception 'The price of % has changed to %', product_record.name, product_record.price
+        using hint = 'price_changed';
+    end if;
+
+    line_gross := line_quantity * line_price;
+    line_promotion := coalesce(public.promotion_discount(
+      (line->>'promotion_id')::uuid, product_record.id, line_quantity, line_price
+    ), 0);
+    line_discount := public.discount_amount(
+      line_gross - line_promotion, line->>'discount_type', (line->>'discount_value')::numeric
+    );
+
+    if line_discount > 0 then
+      if coalesce(trim(line->>'discount_reason'), '') = '' then
+        raise exception 'A reason is required for the discount on %', product_record.name;
+      end if;
+      line_override_id := (line->>'discount_override_id')::uuid;
+      if public.valid_override(line_override_id, 'discount', product_record.id::text) then
+        used_overrides := used_overrides || line_override_id;
+      elsif line_discount / (line_gross - line_promotion) * 100 > max_discount then
+        raise exception 'Discount on % exceeds your limit of %', product_record.name, max_discount || '%'
+          using hint = 'discount_approval_required';
+      end if;
+    end if;
+
+    gross_total := gross_total + line_gross;
+    net_before_basket := net_before_basket + line_gross - line_promotion - line_discount;
+  end loop;
+
+  if array_length(shortages, 1) > 0 then
+    raise exception 'Insufficient stock. %', array_to_string(shortages, '; ')
+      using errcode = 'P0001', hint = 'stock_changed';
+  end if;
+
+  basket_discount := public.discount_amount(
+    net_before_basket, discount->>'type', (discount->>'value')::numeric
+  );
+
+  if basket_discount > 0 then
+    if coalesce(trim(discount->>'reason'), '') = '' then
+      raise exception 'A reason is required for the basket discount';
+    end if;
+    if public.valid_override((discount->>'override_id')::uuid, 'discount', 'basket') then
+      used_overrides := used_overrides || (discount->>'override_id')::uuid;
+    elsif basket_discount / net_before_basket * 100 > max_discount then
+      raise exception 'Basket discount exceeds your limit of %', max_discount || '%'
+        using hint = 'discount_approval_required';
+    end if;
+  end if;
+
+  insert into sales (
+    cashier_id, shift_id, gross_amount, discount_amount, discount_type, discount_value,
+    discount_reason, total_amount, prices_include_tax, payment_method, status
+  )
+  values (
+    auth.uid(),
+    open_shift_id,
+    gross_total,
+    0,
+    case when basket_discount > 0 then discount->>'type' end,
+    case when basket_discount > 0 then (discount->>'value')::numeric else 0 end,
+    case when basket_discount > 0 then trim(discount->>'reason') end,
+    0,
+    settings.prices_include_tax,
+    'pending',
+    'completed'
+  )
+  returning id into new_sale_id;
+
+  -- The basket discount is spread over the lines in proportion to their net,
+  -- the last line taking the rounding remainder, so PPN is charged on what the
+  -- customer actually pays for each line.
+  basket_left := basket_discount;
+
+  for line, line_index in select value, ordinality from jsonb_array_elements(items) with ordinality loop
+    line_quantity := (line->>'quantity')::integer;
+    line_price := (line->>'unit_price')::numeric;
+    line_gross := line_quantity * line_price;
+    line_promotion := coalesce(public.promotion_discount(
+      (line->>'promotion_id')::uuid, (line->>'product_id')::uuid, line_quantity, line_price
+    ), 0);
+    line_discount := public.discount_amount(
+      line_gross - line_promotion, line->>'discount_type', (line->>'discount_value')::numeric
+    );
+    line_net := line_gross - line_promotion - line_discount;
+
+    if line_index = line_count then
+      line_basket_share := basket_left;
+    elsif net_before_basket > 0 then
+      line_basket_share := round(basket_discount * line_net / net_before_basket, 2);
+    else
+      line_basket_share := 0;
+    end if;
+    basket_left := basket_left - line_basket_share;
+    line_taxable := line_net - line_basket_share;
+
+    select case when tax_class = 'standard' then settings.ppn_rate else 0 end
+      into line_tax_rate
+      from products
+     where id = (line->>'product_id')::uuid;
+
+    if settings.prices_include_tax then
+      line_tax := round(line_taxable * line_tax_rate / (100 + line_tax_rate), 2);
+    else
+      line_tax := round(line_taxable * line_tax_rate / 100, 2);
+      line_taxable := line_taxable + line_tax;
+    end if;
+
+    tax_total := tax_total + line_tax;
+    sale_total := sale_total + line_taxable;
+
+    insert into sale_items (
+      sale_id, product_id, quantity, unit_price, subtotal,
+      promotion_id, promotion_discount,
+      discount_type, discount_value, discount_amount, discount_reason,
+      tax_rate, tax_amount, line_total
+    )
+    values (
+      new_sale_id,
+      (line->>'product_id')::uuid,
+      line_quantity,
+      line_price,
+      line_net,
+      case when line_promotion > 0 then (line->>'promotion_id')::uuid end,
+      line_promotion,
+      case when line_discount > 0 then line->>'discount_type' end,
+      case when line_discount > 0 then (line->>'discount_value')::numeric else 0 end,
+      line_discount,
+      case when line_discount > 0 then trim(line->>'discount_reason') end,
+      line_tax_rate,
+      line_tax,
+      line_taxable
+    );
+
+    insert into stock_movements (product_id, movement_type, quantity, reference_id)
+    values ((line->>'product_id')::uuid, 'sale', -line_quantity, new_sale_id);
+  end loop;
+
+  for payment in select * from jsonb_array_elements(payments) loop
+    payment_amount := (payment->>'amount')::numeric;
+    payment_tendered := (payment->>'tendered')::numeric;
+    if payment->>'method' not in ('cash', 'debit', 'qris', 'ewallet') then
+      raise exception 'Unknown payment method %', payment->>'method';
+    end if;
+    if payment_amount is null or payment_amount <= 0 then
+      raise exception 'Invalid % payment amount', payment->>'method';
+    end if;
+    if payment_tendered is not null and payment->>'method' <> 'cash' then
+      raise exception 'Only cash payments can give change';
+    end if;
+    if payment_tendered is not null and payment_tendered < payment_amount then
+      raise exception 'Cash tendered is less than the cash amount applied';
+    end if;
+    paid_total := paid_total + payment_amount;
+
+    insert into sale_payments (sale_id, method, amount, tendered, change_due)
+    values (
+      new_sale_id,
+      payment->>'method',
+      payment_amount,
+      payment_tendered,
+      coalesce(payment_tendered - payment_amount, 0)
+    );
+  end loop;
+
+  if round(paid_total, 2) <> round(sale_total, 2) then
+    raise exception 'Payments (%) do not match the sale total (%)', paid_total, sale_total
+      using hint = 'total_changed';
+  end if;
+
+  select case when count(distinct p->>'method') = 1 then min(p->>'method') else 'split' end
+    into sale_payment_method
+    from jsonb_array_elements(payments) as p;
+
+  update sales
+     set total_amount = sale_total,
+         discount_amount = gross_total - (net_before_basket - basket_discount),
+         tax_amount = tax_total,
+         payment_method = sale_payment_method
+   where id = new_sale_id;
+
+  update manager_overrides
+     set used_at = now(),
+         sale_id = new_sale_id
+   where id = any (used_overrides);
+
+  return new_sale_id;
+end;
+$$;
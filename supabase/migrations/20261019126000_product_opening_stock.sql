@@ -0,0 +1,118 @@
+-- Adding a product with opening stock used to save the product and its
+-- barcodes first and then post a stock count, which the adjustment limit
+-- could reject, leaving the product behind without its stock. Now it is all
+-- one call, and opening stock is not held to the adjustment limit.
+create or replace function public.create_product(
+  sku text,
+  name text,
+  price numeric,
+  description text default null,
+  cost numeric default null,
+  category text default null,
+  tax_class text default 'standard',
+  barcodes text[] default '{}',
+  opening_stock integer default 0
+)
+returns products
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  product products;
+begin
+  if not public.has_any_role(auth.uid(), '{store_owner,shopkeeper,warehouse_admin}') then
+    raise exception 'Only staff can add products';
+  end if;
+  if opening_stock is null or opening_stock < 0 then
+    raise exception 'Opening stock cannot be negative';
+  end if;
+
+  insert into products (sku, name, description, price, cost, category, tax_class)
+  values (
+    create_product.sku,
+    create_product.name,
+    nullif(trim(create_product.description), ''),
+    create_product.price,
+    create_product.cost,
+    nullif(trim(create_product.category), ''),
+    coalesce(create_product.tax_class, 'standard')
+  )
+  returning * into product;
+
+  insert into product_barcodes (product_id, barcode)
+  select distinct product.id, trim(b)
+    from unnest(coalesce(create_product.barcodes, '{}')) b
+   where trim(b) <> '';
+
+  if opening_stock > 0 then
+    insert into stock_movements (product_id, movement_type, quantity, notes)
+    values (product.id, 'count', opening_stock, 'Opening stock');
+
+    select * into product from products where id = product.id;
+  end if;
+
+  return product;
+end;
+$$;
+
+-- Same as before, with the product locked so stock cannot be taken below zero.
+create or replace function public.adjust_stock(
+  product_id uuid,
+  quantity integer,
+  reason text,
+  notes text default null
+)
+returns stock_movements
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  product_record products;
+  movement stock_movements;
+begin
+  if not public.has_any_role(auth.uid(), '{store_owner,shopkeeper,warehouse_admin}') then
+    raise exception 'Only staff can adjust stock';
+  end if;
+  if reason is null or reason not in ('damaged', 'expired', 'theft', 'found', 'correction') then
+    raise exception 'Choose a reason for the adjustment';
+  end if;
+  if quantity is null or quantity = 0 then
+    raise exception 'Enter the number of units to adjust';
+  end if;
+  if reason in ('damaged', 'expired', 'theft') and quantity > 0 then
+    raise exception 'Damaged, expired and stolen stock can only be removed';
+  end if;
+  if reason = 'found' and quantity < 0 then
+    raise exception 'Found stock can only be added';
+  end if;
+  if abs(quantity) > public.adjustment_limit(auth.uid()) then
+    raise exception 'You can adjust at most % units at a time', public.adjustment_limit(auth.uid());
+  end if;
+
+  select * into product_record
+    from products
+   where id = adjust_stock.product_id
+   for update;
+
+  if not found then
+    raise exception 'Product % not found', adjust_stock.product_id;
+  end if;
+  if product_record.stock_quantity + quantity < 0 then
+    raise exception 'Only % units of % are in stock', product_record.stock_quantity, product_record.name;
+  end if;
+
+  insert into stock_movements (product_id, movement_type, quantity, reason, notes)
+  values (
+    adjust_stock.product_id,
+    case when reason in ('damaged', 'expired') then 'waste' else 'adjustment' end,
+    quantity,
+    reason,
+    nullif(trim(notes), '')
+  )
+  returning * into movement;
+
+  return movement;
+end;
+$$;
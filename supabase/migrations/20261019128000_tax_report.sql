@@ -0,0 +1,50 @@
+-- The tax report used to load every sale line of the period into the browser,
+-- where the API's row limit cut a busy month short without an error. The
+-- totals are now added up here, per store day, PPN rate and register,
+-- optionally for one register only.
+create or replace function public.tax_report(
+  from_date date,
+  to_date date,
+  for_register_id uuid default null
+)
+returns table (
+  day date,
+  tax_rate numeric,
+  register_id uuid,
+  taxable numeric,
+  tax numeric,
+  exempt numeric
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  store_time_zone text;
+begin
+  if not public.has_role(auth.uid(), 'store_owner') then
+    raise exception 'Only store owners can view the tax report';
+  end if;
+
+  select timezone into store_time_zone from store_settings where id;
+  store_time_zone := coalesce(store_time_zone, 'Asia/Jakarta');
+
+  -- line_total always includes PPN; the tax base is what's left without it.
+  return query
+  select (s.created_at at time zone store_time_zone)::date,
+         si.tax_rate,
+         s.register_id,
+         coalesce(sum(si.line_total - si.tax_amount) filter (where si.tax_rate > 0), 0),
+         coalesce(sum(si.tax_amount) filter (where si.tax_rate > 0), 0),
+         coalesce(sum(si.line_total - si.tax_amount) filter (where si.tax_rate <= 0), 0)
+    from sale_items si
+    join sales s on s.id = si.sale_id
+   where s.status = 'completed'
+     and s.created_at >= tax_report.from_date::timestamp at time zone store_time_zone
+     and s.created_at < (tax_report.to_date + 1)::timestamp at time zone store_time_zone
+     and (for_register_id is null or s.register_id = for_register_id)
+   group by 1, 2, 3
+   order by 1, 2;
+end;
+$$;
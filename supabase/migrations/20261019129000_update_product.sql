@@ -0,0 +1,66 @@
+-- Editing a product saved its details, deleted its barcodes and inserted the
+-- new list in three requests, so a barcode already used elsewhere left the
+-- product with none. The edit is now one call that changes nothing on error.
+create or replace function public.update_product(
+  product_id uuid,
+  sku text,
+  name text,
+  price numeric,
+  description text default null,
+  cost numeric default null,
+  category text default null,
+  tax_class text default 'standard',
+  barcodes text[] default '{}'
+)
+returns products
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  product products;
+  clash record;
+begin
+  if not public.has_any_role(auth.uid(), '{store_owner,shopkeeper,warehouse_admin}') then
+    raise exception 'Only staff can edit products';
+  end if;
+
+  select pb.barcode, p.name into clash
+    from product_barcodes pb
+    join products p on p.id = pb.product_id
+   where pb.barcode = any (
+           select trim(b) from unnest(coalesce(update_product.barcodes, '{}')) b
+         )
+     and pb.product_id <> update_product.product_id
+   limit 1;
+
+  if found then
+    raise exception 'Barcode % is already used by %', clash.barcode, clash.name;
+  end if;
+
+  update products
+     set sku = update_product.sku,
+         name = update_product.name,
+         description = nullif(trim(update_product.description), ''),
+         price = update_product.price,
+         cost = update_product.cost,
+         category = nullif(trim(update_product.category), ''),
+         tax_class = coalesce(update_product.tax_class, 'standard'),
+         updated_at = now()
+   where id = update_product.product_id
+  returning * into product;
+
+  if not found then
+    raise exception 'Product % not found', update_product.product_id;
+  end if;
+
+  delete from product_barcodes where product_barcodes.product_id = product.id;
+
+  insert into product_barcodes (product_id, barcode)
+  select distinct product.id, trim(b)
+    from unnest(coalesce(update_product.barcodes, '{}')) b
+   where trim(b) <> '';
+
+  return product;
+end;
+$$;
@@ -0,0 +1,39 @@
+-- The valuation report used to load every product with stock into the
+-- browser, where the API's row limit left a large catalogue undervalued
+-- without an error. Stock is now valued here, one row per category.
+-- `costed_retail` is the retail value of the stock that has a cost, so the
+-- margin can leave uncosted products out.
+create or replace function public.stock_valuation()
+returns table (
+  category text,
+  products integer,
+  units integer,
+  at_cost numeric,
+  at_retail numeric,
+  costed_retail numeric,
+  uncosted integer
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  if not public.has_role(auth.uid(), 'store_owner') then
+    raise exception 'Only store owners can view the stock valuation';
+  end if;
+
+  return query
+  select coalesce(nullif(p.category, ''), 'Uncategorised'),
+         count(*)::integer,
+         sum(p.stock_quantity)::integer,
+         coalesce(sum(p.stock_quantity * p.cost), 0),
+         sum(p.stock_quantity * p.price),
+         coalesce(sum(p.stock_quantity * p.price) filter (where p.cost is not null), 0),
+         (count(*) filter (where p.cost is null))::integer
+    from products p
+   where p.stock_quantity > 0
+   group by 1
+   order by 5 desc;
+end;
+$$;